@@ -21,6 +21,8 @@ export enum PaymentStatus {
   PAID = "paid",           // The payment has been successfully processed.
   FAILED = "failed",       // The payment has failed and could not be processed.
   REFUNDED = "refunded",   // The payment has been refunded back to the user.
+  PARTIALLY_PAID = "partially_paid",         // Part of the total has been paid (e.g. a deposit).
+  PARTIALLY_REFUNDED = "partially_refunded", // Part of the amount paid has been refunded.
 }
 
 // Enum for Property Status
@@ -39,3 +41,95 @@ export enum TourPackageStatus {
   CANCELLED = "cancelled",   // The tour package has been cancelled.
   UPCOMING = "upcoming",     // The tour package is upcoming and will be available at a future date.
 }
+
+// Enum for Host Application Status
+export enum HostApplicationStatus {
+  PENDING = "pending",     // The application is waiting for an admin review.
+  APPROVED = "approved",   // The application was approved and the user was promoted to host.
+  REJECTED = "rejected",   // The application was rejected by an admin.
+}
+
+// Enum for Admin Permissions (grouped into roles stored in the database)
+export enum Permission {
+  USERS_READ = "users.read",                       // View users and hosts.
+  USERS_MANAGE = "users.manage",                   // Create, update and delete users and hosts.
+  USERS_SUSPEND = "users.suspend",                 // Change account status, revoke sessions, unlock accounts.
+  USERS_IMPERSONATE = "users.impersonate",         // Sign in as a host or guest for support.
+  ADMINS_MANAGE = "admins.manage",                 // Create, update and delete other admins.
+  ROLES_MANAGE = "roles.manage",                   // Manage roles and assign them to admins.
+  HOST_APPLICATIONS_REVIEW = "host_applications.review", // Approve or reject host applications.
+  BOOKINGS_READ = "bookings.read",                 // View, filter and export bookings.
+  BOOKINGS_MANAGE = "bookings.manage",             // Update bookings.
+  BOOKINGS_DELETE = "bookings.delete",             // Delete bookings.
+  BOOKINGS_REFUND = "bookings.refund",             // Mark bookings as refunded.
+  PAYMENTS_MANAGE = "payments.manage",             // Update payment status.
+  PAYMENTS_EXPORT = "payments.export",             // Export payment reports (CSV/PDF).
+  PROPERTIES_MODERATE = "properties.moderate",     // Create, edit and remove any property.
+  TOURS_MODERATE = "tours.moderate",               // Create, edit and remove any tour package.
+  SECURITY_MANAGE = "security.manage",             // Change platform security settings.
+  AUDIT_LOGS_READ = "audit_logs.read",             // View the audit trail.
+  MESSAGES_READ = "messages.read",                 // View guest-host conversations.
+  MESSAGES_MANAGE = "messages.manage",             // Write in guest-host conversations as support.
+}
+
+// Enum for API Key Scopes
+export enum ApiKeyScope {
+  READ = "read",               // Read-only access (GET requests) to /api/host resources.
+  READ_WRITE = "read_write",   // Full access to /api/host resources.
+}
+
+// Enum for Audit Log Actions
+export enum AuditAction {
+  IMPERSONATION_STARTED = "impersonation.started",   // An admin obtained an impersonation token.
+  IMPERSONATED_REQUEST = "impersonation.request",    // A request made with an impersonation token.
+}
+
+// Enum for Booking Events (see src/events/bookingEvents.ts)
+export enum BookingEvent {
+  COMPLETED = "booking.completed",                   // A booking was marked completed after check-out.
+  ATTENTION_REQUIRED = "booking.attention_required", // A booking needs the host to act (e.g. unpaid after check-out).
+}
+
+// Enum for Cancellation Policies (tiers in src/config/cancellationPolicies.ts)
+export enum CancellationPolicy {
+  FLEXIBLE = "flexible",   // Full refund up to 24 hours before check-in.
+  MODERATE = "moderate",   // Full refund up to 5 days before check-in, 50% up to 24 hours.
+  STRICT = "strict",       // Full refund up to 14 days before check-in, 50% up to 7 days.
+  CUSTOM = "custom",       // Tiers defined by the host on the listing.
+}
+
+// Enum for Payment Transaction Types (see PaymentTransactionModel)
+export enum TransactionType {
+  CHARGE = "charge",           // Money received from the guest.
+  REFUND = "refund",           // Money returned to the guest.
+  ADJUSTMENT = "adjustment",   // Correction of the amount paid (can be negative).
+}
+
+// Enum for Payment Methods
+export enum PaymentMethod {
+  BANK_TRANSFER = "bank_transfer", // Bank transfer (proof usually uploaded as payment image).
+  CASH = "cash",                   // Cash paid to the host.
+  CARD = "card",                   // Credit or debit card.
+  MOBILE_WALLET = "mobile_wallet", // Mobile payment apps.
+  OTHER = "other",                 // Any other method (describe it in the note).
+}
+
+// Enum for Booking Modification Request Status
+export enum ModificationStatus {
+  PENDING = "pending",       // The guest asked for new dates or guests, waiting for the host.
+  ACCEPTED = "accepted",     // The host accepted; the booking was updated and repriced.
+  DECLINED = "declined",     // The host declined; the booking keeps its dates and price.
+  WITHDRAWN = "withdrawn",   // Replaced by a newer request or closed because the booking ended.
+}
+
+// Enum for Listing Booking Modes (set per property and tour package)
+export enum BookingMode {
+  INSTANT = "instant",   // Bookings are confirmed right away for guests meeting the listing's requirements.
+  REQUEST = "request",   // The host accepts or declines each booking before a response deadline.
+}
+
+// Enum for Conversation Types (see ConversationModel)
+export enum ConversationType {
+  BOOKING = "booking",   // Guest and host talking about an existing booking.
+  INQUIRY = "inquiry",   // A guest asking the host about a property or tour before booking.
+}
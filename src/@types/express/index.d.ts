@@ -1,12 +1,18 @@
 import { IUser } from "../../models/User";
+import { IApiKey } from "../../models/ApiKeyModel";
 
 declare global {
   namespace Express {
     interface Request {
       user?: IUser;
+      impersonator?: IUser;
+      sessionId?: string;
+      permissions?: string[];
+      apiKey?: IApiKey;
       files?: {
         images?: Express.Multer.File[];
         paymentImage?: Express.Multer.File[];
+        documents?: Express.Multer.File[];
       };
     }
   }
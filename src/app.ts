@@ -7,12 +7,20 @@ import authRoutes from "./routes/authRoutes";
 import adminRoutes from "./routes/adminRoutes";
 import adminBookingRoutes from "./routes/adminBookingRoutes";
 import adminPropertyRoutes from "./routes/adminPropertyRoutes";
+import adminHostApplicationRoutes from "./routes/adminHostApplicationRoutes";
+import adminSecurityRoutes from "./routes/adminSecurityRoutes";
+import adminRoleRoutes from "./routes/adminRoleRoutes";
+import adminImpersonationRoutes from "./routes/adminImpersonationRoutes";
+import adminConversationRoutes from "./routes/adminConversationRoutes";
 import tourRoutes from "./routes/tourPackageRoutes";
 import bookingRoutes from "./routes/bookingRoutes";
 import hostBookingRoutes from "./routes/hostBookingRoutes";
 import userRoutes from "./routes/userRoutes";
 import hostPropertyRoutes from "./routes/hostPropertyRoutes";
 import hostTourRoutes from "./routes/hostTourRoutes";
+import hostApiKeyRoutes from "./routes/hostApiKeyRoutes";
+import hostConversationRoutes from "./routes/hostConversationRoutes";
+import conversationRoutes from "./routes/conversationRoutes";
 import publicPropertyRoutes from "./routes/publicPropertyRoutes";
 import publicTourRoutes from "./routes/publicTourRoutes";
 
@@ -32,7 +40,7 @@ app.use(cors({
   ],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key']
 }));
 app.use(express.json()); // Parse incoming JSON requests
 app.use("/uploads", express.static("uploads")); // Serve uploaded images if needed
@@ -51,26 +59,42 @@ app.use("/admin", adminRoutes);               // Admin: users & hosts management
 app.use("/admin", adminBookingRoutes);        // Admin: bookings CRUD and filtering
 app.use("/admin", adminPropertyRoutes);       // Admin: properties CRUD
 app.use("/admin", tourRoutes);                // Admin: tour packages
+app.use("/admin", adminHostApplicationRoutes); // Admin: host applications review
+app.use("/admin", adminSecurityRoutes);       // Admin: security settings
+app.use("/admin", adminRoleRoutes);           // Admin: roles & permissions
+app.use("/admin", adminImpersonationRoutes);  // Admin: impersonation & audit logs
+app.use("/admin", adminConversationRoutes);   // Admin: guest-host conversations
 
 app.use("/host", hostBookingRoutes);          // Host: bookings
 app.use("/host", hostPropertyRoutes);         // Host: properties
 app.use("/host", hostTourRoutes);             // Host: tours
+app.use("/host", hostApiKeyRoutes);           // Host: API keys
+app.use("/host", hostConversationRoutes);     // Host: messages with guests
 
 app.use("/bookings", bookingRoutes);          // User: bookings
 app.use("/users", userRoutes);                // User: profile management
+app.use("/conversations", conversationRoutes); // User: messages with hosts
 
 // ⭐ ALL ROUTES WITH /api PREFIX (keeping existing for API consistency) ⭐
 app.use("/api/admin", adminRoutes);               // Admin-only: users & hosts
 app.use("/api/admin", adminBookingRoutes);        // Admin-only: bookings CRUD and filtering
 app.use("/api/admin", adminPropertyRoutes);       // Admin-only: properties
 app.use("/api/admin", tourRoutes);                // Admin & Host: tour packages
+app.use("/api/admin", adminHostApplicationRoutes); // Admin-only: host applications review
+app.use("/api/admin", adminSecurityRoutes);       // Admin-only: security settings (2FA policy)
+app.use("/api/admin", adminRoleRoutes);           // Admin-only: roles & permissions
+app.use("/api/admin", adminImpersonationRoutes);  // Admin-only: impersonation & audit logs
+app.use("/api/admin", adminConversationRoutes);   // Admin-only: guest-host conversations (support)
 
 app.use("/api/bookings", bookingRoutes);          // Booking CRUD and filtering
 
 app.use("/api/host", hostBookingRoutes);          // Host: bookings & filters
 app.use("/api/host", hostPropertyRoutes);         // Host: properties CRUD
 app.use("/api/host", hostTourRoutes);             // Host: tour packages CRUD
+app.use("/api/host", hostApiKeyRoutes);           // Host: API keys for integrations
+app.use("/api/host", hostConversationRoutes);     // Host: booking & inquiry messages
 
 app.use("/api/users", userRoutes);                // Update profile, fetch user info
+app.use("/api/conversations", conversationRoutes); // Guest messages with hosts
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { CancellationPolicy } from "../@types/express/enums";
+
+/**
+ * One refund tier: cancelling at least `hoursBeforeCheckIn` hours before
+ * check-in refunds `refundPercent` of the amount paid
+ */
+export interface CancellationTier {
+  hoursBeforeCheckIn: number;
+  refundPercent: number;
+}
+
+/**
+ * Tiers of the standard policies, from the most to the least generous.
+ * Cancelling later than the last tier refunds nothing.
+ */
+export const STANDARD_CANCELLATION_POLICIES: Record<Exclude<CancellationPolicy, CancellationPolicy.CUSTOM>, CancellationTier[]> = {
+  [CancellationPolicy.FLEXIBLE]: [
+    { hoursBeforeCheckIn: 24, refundPercent: 100 },
+  ],
+  [CancellationPolicy.MODERATE]: [
+    { hoursBeforeCheckIn: 5 * 24, refundPercent: 100 },
+    { hoursBeforeCheckIn: 24, refundPercent: 50 },
+  ],
+  [CancellationPolicy.STRICT]: [
+    { hoursBeforeCheckIn: 14 * 24, refundPercent: 100 },
+    { hoursBeforeCheckIn: 7 * 24, refundPercent: 50 },
+  ],
+};
+
+/**
+ * Policy of listings that never chose one
+ */
+export const DEFAULT_CANCELLATION_POLICY = CancellationPolicy.FLEXIBLE;
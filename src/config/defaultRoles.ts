@@ -0,0 +1,50 @@
+import { Permission } from "../@types/express/enums";
+
+/**
+ * Name of the role with every permission (given once to admins that existed before roles)
+ */
+export const SUPER_ADMIN_ROLE = "super_admin";
+
+/**
+ * System roles created at startup. They can be assigned but not deleted.
+ */
+export const DEFAULT_ROLES: Array<{ name: string; description: string; permissions: Permission[] }> = [
+  {
+    name: SUPER_ADMIN_ROLE,
+    description: "Full access to every admin feature",
+    permissions: Object.values(Permission),
+  },
+  {
+    name: "finance",
+    description: "Bookings, payments, refunds and financial reports",
+    permissions: [
+      Permission.BOOKINGS_READ,
+      Permission.BOOKINGS_REFUND,
+      Permission.PAYMENTS_MANAGE,
+      Permission.PAYMENTS_EXPORT,
+    ],
+  },
+  {
+    name: "support",
+    description: "Customer support: users, bookings, messages and account access",
+    permissions: [
+      Permission.USERS_READ,
+      Permission.USERS_SUSPEND,
+      Permission.USERS_IMPERSONATE,
+      Permission.BOOKINGS_READ,
+      Permission.BOOKINGS_MANAGE,
+      Permission.HOST_APPLICATIONS_REVIEW,
+      Permission.MESSAGES_READ,
+      Permission.MESSAGES_MANAGE,
+    ],
+  },
+  {
+    name: "moderator",
+    description: "Listings moderation and host onboarding",
+    permissions: [
+      Permission.PROPERTIES_MODERATE,
+      Permission.TOURS_MODERATE,
+      Permission.HOST_APPLICATIONS_REVIEW,
+    ],
+  },
+];
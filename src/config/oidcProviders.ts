@@ -0,0 +1,67 @@
+/**
+ * OpenID Connect provider settings ("Sign in with Google/Facebook").
+ *
+ * Providers are enabled with OIDC_PROVIDERS (comma separated, e.g. "google,facebook")
+ * and configured per provider with:
+ *   OIDC_<NAME>_CLIENT_ID, OIDC_<NAME>_CLIENT_SECRET,
+ *   OIDC_<NAME>_ISSUER (optional for known providers), OIDC_<NAME>_SCOPES,
+ *   OIDC_<NAME>_DISPLAY_NAME
+ */
+export interface OidcProviderConfig {
+  name: string;
+  displayName: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  redirectUri: string;
+}
+
+// Issuers of well-known providers, used when OIDC_<NAME>_ISSUER is not set
+const KNOWN_ISSUERS: Record<string, { issuer: string; displayName: string }> = {
+  google: { issuer: "https://accounts.google.com", displayName: "Google" },
+  facebook: { issuer: "https://www.facebook.com", displayName: "Facebook" },
+};
+
+/**
+ * Reads the configured OIDC providers from the environment.
+ * Providers without an issuer or client ID are ignored.
+ * @returns The list of enabled providers
+ */
+export const getOidcProviders = (): OidcProviderConfig[] => {
+  const names = (process.env.OIDC_PROVIDERS || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const redirectBaseUrl = process.env.OIDC_REDIRECT_BASE_URL || "http://localhost:4000/api/auth/oidc";
+
+  return names.flatMap((name) => {
+    const prefix = `OIDC_${name.toUpperCase()}_`;
+    const issuer = process.env[`${prefix}ISSUER`] || KNOWN_ISSUERS[name]?.issuer;
+    const clientId = process.env[`${prefix}CLIENT_ID`];
+
+    if (!issuer || !clientId) {
+      console.warn(`⚠️ OIDC provider "${name}" is missing its issuer or client ID and was skipped`);
+      return [];
+    }
+
+    return [{
+      name,
+      displayName: process.env[`${prefix}DISPLAY_NAME`] || KNOWN_ISSUERS[name]?.displayName || name,
+      issuer: issuer.replace(/\/$/, ""),
+      clientId,
+      clientSecret: process.env[`${prefix}CLIENT_SECRET`] || "",
+      scopes: (process.env[`${prefix}SCOPES`] || "openid email profile").split(/[\s,]+/).filter(Boolean),
+      redirectUri: `${redirectBaseUrl}/${name}/callback`,
+    }];
+  });
+};
+
+/**
+ * Finds an enabled provider by name
+ * @param name - Provider name from the URL (e.g. "google")
+ */
+export const getOidcProvider = (name: string): OidcProviderConfig | undefined => {
+  return getOidcProviders().find((provider) => provider.name === name.toLowerCase());
+};
@@ -0,0 +1,481 @@
+import { Request, Response } from "express";
+import { User } from "../models/User";
+import { sendEmail } from "../utils/emailService";
+import { generateRandomToken, hashToken } from "../utils/cryptoToken";
+import { isStrongPassword, PASSWORD_REQUIREMENTS_MESSAGE } from "../helpers/validatePassword";
+import { startSession, revokeAllUserSessions } from "../helpers/sessionHelper";
+import { buildPersonalDataExport, buildPersonalDataArchive } from "../helpers/dataExportHelper";
+import { canDeleteAccount, getDeletionGraceDays } from "../helpers/accountDeletionHelper";
+
+// Validity of the confirmation link sent to the new email address
+const EMAIL_CHANGE_EXPIRES_HOURS = 24;
+
+// Validity of the revert link sent to the previous email address
+const EMAIL_REVERT_EXPIRES_DAYS = 7;
+
+/* ========================= PASSWORD CHANGE ========================= */
+
+/**
+ * @desc    Change the password of the logged-in user (current password required).
+ *          Every other session is signed out and new tokens are issued for this one.
+ * @route   PATCH /api/users/password
+ * @body    { currentPassword, newPassword }
+ * @access  Private (authenticated user)
+ */
+export const changePassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      res.status(400).json({ message: "❗ Current and new password are required" });
+      return;
+    }
+
+    if (!isStrongPassword(newPassword)) {
+      res.status(400).json({ message: PASSWORD_REQUIREMENTS_MESSAGE });
+      return;
+    }
+
+    const user = await User.findById(req.user?._id);
+    if (!user) {
+      res.status(404).json({ message: "❌ User not found" });
+      return;
+    }
+
+    // Social login accounts set their first password through the reset flow (proves email ownership)
+    if (!user.hasPassword) {
+      res.status(400).json({ message: "❗ Your account has no password yet. Use 'Forgot password' to create one" });
+      return;
+    }
+
+    if (!(await user.comparePassword(currentPassword))) {
+      res.status(401).json({ message: "❗ Current password is incorrect" });
+      return;
+    }
+
+    if (await user.comparePassword(newPassword.trim())) {
+      res.status(400).json({ message: "❗ New password must be different from the current one" });
+      return;
+    }
+
+    // Hashed and passwordChangedAt set in the pre-save hook (invalidates existing access tokens)
+    user.password = newPassword.trim();
+    await user.save();
+
+    // Sign out every device, then start a fresh session for this one
+    await revokeAllUserSessions(user._id, "Password changed");
+    const { token, refreshToken } = await startSession(user._id, {
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+
+    try {
+      await sendEmail(
+        user.email,
+        "Your password was changed - GuaraniHost",
+        `
+        <h2>🔒 Password changed</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>The password of your GuaraniHost account was changed on ${new Date().toUTCString()}. Your other devices have been signed out.</p>
+        <p>If you did not do this, reset your password right away and contact our support team.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+    } catch (emailError) {
+      console.error("❌ Error sending password changed email:", emailError);
+    }
+
+    res.status(200).json({
+      message: "✅ Password changed successfully. Other devices have been signed out",
+      token,
+      refreshToken,
+    });
+  } catch (error) {
+    console.error("❌ Error changing password:", error);
+    res.status(500).json({ message: "❌ Server error while changing password" });
+  }
+};
+
+/* ========================= EMAIL CHANGE ========================= */
+
+/**
+ * @desc    Request an email change: a confirmation link is sent to the new address
+ *          and a notice to the current one
+ * @route   POST /api/users/email
+ * @body    { newEmail, password } (password required when the account has one)
+ * @access  Private (authenticated user)
+ */
+export const requestEmailChange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const newEmail = String(req.body.newEmail || "").trim().toLowerCase();
+
+    const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+    if (!emailRegex.test(newEmail)) {
+      res.status(400).json({ message: "❗ A valid new email is required" });
+      return;
+    }
+
+    const user = await User.findById(req.user?._id);
+    if (!user) {
+      res.status(404).json({ message: "❌ User not found" });
+      return;
+    }
+
+    if (user.hasPassword && !(await user.comparePassword(req.body.password || ""))) {
+      res.status(401).json({ message: "❗ Incorrect password" });
+      return;
+    }
+
+    if (newEmail === user.email) {
+      res.status(400).json({ message: "❗ New email must be different from the current one" });
+      return;
+    }
+
+    if (await User.exists({ email: newEmail })) {
+      res.status(400).json({ message: "❗ Email already in use" });
+      return;
+    }
+
+    const confirmToken = generateRandomToken();
+    user.pendingEmail = newEmail;
+    user.emailChangeTokenHash = hashToken(confirmToken);
+    user.emailChangeExpires = new Date(Date.now() + EMAIL_CHANGE_EXPIRES_HOURS * 60 * 60 * 1000);
+    await user.save();
+
+    const clientUrl = process.env.CLIENT_URL || "http://localhost:5173";
+
+    try {
+      await sendEmail(
+        newEmail,
+        "Confirm your new email - GuaraniHost",
+        `
+        <h2>📧 Confirm your new email</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>Please confirm that you want to use this address for your GuaraniHost account:</p>
+        <p><a href="${clientUrl}/confirm-email-change?token=${confirmToken}">Confirm my new email</a></p>
+        <p>This link expires in ${EMAIL_CHANGE_EXPIRES_HOURS} hours. If you did not request this change, you can ignore this email.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+      await sendEmail(
+        user.email,
+        "Email change requested - GuaraniHost",
+        `
+        <h2>⚠️ Email change requested</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>A request was made to change the email of your GuaraniHost account to <strong>${newEmail}</strong>.</p>
+        <p>If you did not do this, change your password right away: someone may have access to your account.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+    } catch (emailError) {
+      console.error("❌ Error sending email change emails:", emailError);
+    }
+
+    res.status(200).json({
+      message: `✅ Confirmation link sent to ${newEmail}. Your email will change once it is confirmed`,
+    });
+  } catch (error) {
+    console.error("❌ Error requesting email change:", error);
+    res.status(500).json({ message: "❌ Server error while requesting email change" });
+  }
+};
+
+/**
+ * @desc    Confirm an email change with the link sent to the new address.
+ *          A revert link is sent to the previous address.
+ * @route   POST /api/users/email/confirm
+ * @body    { token }
+ * @access  Public
+ */
+export const confirmEmailChange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      res.status(400).json({ message: "❗ Token is required" });
+      return;
+    }
+
+    const user = await User.findOne({
+      emailChangeTokenHash: hashToken(token),
+      emailChangeExpires: { $gt: new Date() },
+    });
+
+    if (!user || !user.pendingEmail) {
+      res.status(400).json({ message: "❗ Invalid or expired confirmation link" });
+      return;
+    }
+
+    // The address may have been taken since the request
+    if (await User.exists({ email: user.pendingEmail, _id: { $ne: user._id } })) {
+      res.status(400).json({ message: "❗ Email already in use" });
+      return;
+    }
+
+    const revertToken = generateRandomToken();
+    const previousEmail = user.email;
+
+    user.previousEmail = previousEmail;
+    user.email = user.pendingEmail;
+    user.emailVerifiedAt = new Date();
+    user.pendingEmail = undefined;
+    user.emailChangeTokenHash = undefined;
+    user.emailChangeExpires = undefined;
+    user.emailRevertTokenHash = hashToken(revertToken);
+    user.emailRevertExpires = new Date(Date.now() + EMAIL_REVERT_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+    await user.save();
+
+    const clientUrl = process.env.CLIENT_URL || "http://localhost:5173";
+
+    try {
+      await sendEmail(
+        previousEmail,
+        "Your email was changed - GuaraniHost",
+        `
+        <h2>⚠️ Your email was changed</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>The email of your GuaraniHost account was changed to <strong>${user.email}</strong>.</p>
+        <p>If you did not do this, restore your previous email and sign out every device:</p>
+        <p><a href="${clientUrl}/revert-email-change?token=${revertToken}">This wasn't me, restore my email</a></p>
+        <p>This link is valid for ${EMAIL_REVERT_EXPIRES_DAYS} days.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+      await sendEmail(
+        user.email,
+        "Email updated - GuaraniHost",
+        `
+        <h2>✅ Email updated</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>This is now the email of your GuaraniHost account. Use it the next time you log in.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+    } catch (emailError) {
+      console.error("❌ Error sending email changed emails:", emailError);
+    }
+
+    res.status(200).json({ message: "✅ Email changed successfully", email: user.email });
+  } catch (error) {
+    console.error("❌ Error confirming email change:", error);
+    res.status(500).json({ message: "❌ Server error while confirming email change" });
+  }
+};
+
+/**
+ * @desc    Revert an email change with the link sent to the previous address.
+ *          Restores the previous email and signs out every device.
+ * @route   POST /api/users/email/revert
+ * @body    { token }
+ * @access  Public
+ */
+export const revertEmailChange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      res.status(400).json({ message: "❗ Token is required" });
+      return;
+    }
+
+    const user = await User.findOne({
+      emailRevertTokenHash: hashToken(token),
+      emailRevertExpires: { $gt: new Date() },
+    });
+
+    if (!user || !user.previousEmail) {
+      res.status(400).json({ message: "❗ Invalid or expired link" });
+      return;
+    }
+
+    if (await User.exists({ email: user.previousEmail, _id: { $ne: user._id } })) {
+      res.status(409).json({ message: "❗ The previous email is now used by another account, please contact support" });
+      return;
+    }
+
+    user.email = user.previousEmail;
+    user.previousEmail = undefined;
+    user.pendingEmail = undefined;
+    user.emailChangeTokenHash = undefined;
+    user.emailChangeExpires = undefined;
+    user.emailRevertTokenHash = undefined;
+    user.emailRevertExpires = undefined;
+    await user.save();
+
+    // Whoever changed the email is signed out
+    await revokeAllUserSessions(user._id, "Email change reverted");
+
+    try {
+      await sendEmail(
+        user.email,
+        "Your email was restored - GuaraniHost",
+        `
+        <h2>🔒 Email restored</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>Your previous email has been restored and every device has been signed out.</p>
+        <p>We recommend resetting your password now using "Forgot password" on the login page.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+    } catch (emailError) {
+      console.error("❌ Error sending email restored email:", emailError);
+    }
+
+    res.status(200).json({ message: "✅ Email restored and all sessions signed out. Please reset your password" });
+  } catch (error) {
+    console.error("❌ Error reverting email change:", error);
+    res.status(500).json({ message: "❌ Server error while reverting email change" });
+  }
+};
+
+/* ========================= ACCOUNT DATA ========================= */
+
+/**
+ * @desc    Download a copy of the logged-in user's personal data
+ * @route   GET /api/users/me/export?format=json|zip
+ * @access  Private (authenticated user)
+ */
+export const exportMyData = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({ message: "❌ Unauthorized" });
+      return;
+    }
+
+    const format = String(req.query.format || "json").toLowerCase();
+    if (!["json", "zip"].includes(format)) {
+      res.status(400).json({ message: "❗ Format must be 'json' or 'zip'" });
+      return;
+    }
+
+    const data = await buildPersonalDataExport(user);
+    const fileName = `guaranihost-data-${user._id}-${new Date().toISOString().split("T")[0]}`;
+
+    if (format === "zip") {
+      const archive = await buildPersonalDataArchive(data);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}.zip"`);
+      res.status(200).send(archive);
+      return;
+    }
+
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}.json"`);
+    res.status(200).json(data);
+  } catch (error) {
+    console.error("❌ Error exporting user data:", error);
+    res.status(500).json({ message: "❌ Server error while exporting your data" });
+  }
+};
+
+/* ========================= ACCOUNT DELETION ========================= */
+
+/**
+ * @desc    Request deletion of the logged-in user's account.
+ *          Personal data is anonymized once the grace period ends; bookings are kept for accounting.
+ *          Until then the user cannot book and their listings cannot be booked.
+ * @route   DELETE /api/users/me
+ * @body    { password } (required when the account has a password)
+ * @access  Private (authenticated user, not admins)
+ */
+export const requestAccountDeletion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id);
+    if (!user) {
+      res.status(404).json({ message: "❌ User not found" });
+      return;
+    }
+
+    if (user.role === "admin") {
+      res.status(403).json({ message: "🚫 Admin accounts must be removed by another admin" });
+      return;
+    }
+
+    if (user.deletionScheduledFor) {
+      res.status(400).json({
+        message: "❗ Account deletion is already scheduled",
+        deletionScheduledFor: user.deletionScheduledFor,
+      });
+      return;
+    }
+
+    // Confirm the account owner with the password (social login accounts have none)
+    if (user.hasPassword && !(await user.comparePassword(req.body.password || ""))) {
+      res.status(401).json({ message: "❗ Incorrect password" });
+      return;
+    }
+
+    const check = await canDeleteAccount(user);
+    if (!check.valid) {
+      res.status(400).json({ message: check.message });
+      return;
+    }
+
+    const graceDays = getDeletionGraceDays();
+    user.deletionRequestedAt = new Date();
+    user.deletionScheduledFor = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000);
+    await user.save();
+
+    try {
+      await sendEmail(
+        user.email,
+        "Your account will be deleted - GuaraniHost",
+        `
+        <h2>🗑️ Account deletion scheduled</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>We received a request to delete your GuaraniHost account. Your personal data will be permanently removed on <strong>${user.deletionScheduledFor.toDateString()}</strong>.</p>
+        <p>Changed your mind? Sign in before that date and cancel the deletion from your account settings.</p>
+        <p>Records of past bookings are kept in anonymized form, as required for our hosts' accounting.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+    } catch (emailError) {
+      console.error("❌ Error sending account deletion email:", emailError);
+    }
+
+    res.status(200).json({
+      message: `✅ Account deletion scheduled. You can cancel it during the next ${graceDays} days`,
+      deletionScheduledFor: user.deletionScheduledFor,
+    });
+  } catch (error) {
+    console.error("❌ Error requesting account deletion:", error);
+    res.status(500).json({ message: "❌ Server error while requesting account deletion" });
+  }
+};
+
+/**
+ * @desc    Cancel a scheduled account deletion during the grace period
+ * @route   POST /api/users/me/cancel-deletion
+ * @access  Private (authenticated user)
+ */
+export const cancelAccountDeletion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id);
+    if (!user) {
+      res.status(404).json({ message: "❌ User not found" });
+      return;
+    }
+
+    if (!user.deletionScheduledFor) {
+      res.status(400).json({ message: "❗ No account deletion is scheduled" });
+      return;
+    }
+
+    user.deletionRequestedAt = undefined;
+    user.deletionScheduledFor = undefined;
+    await user.save();
+
+    res.status(200).json({ message: "✅ Account deletion cancelled" });
+  } catch (error) {
+    console.error("❌ Error cancelling account deletion:", error);
+    res.status(500).json({ message: "❌ Server error while cancelling account deletion" });
+  }
+};
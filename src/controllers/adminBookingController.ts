@@ -1,11 +1,28 @@
 import { Request, Response } from "express";
+import { Types } from "mongoose";
 import { Booking } from "../models/BookingModel";
 import { Property } from "../models/PropertyModel";
 import { TourPackage } from "../models/TourPackageModel";
+import { TourDeparture } from "../models/TourDepartureModel";
 import { User, IUser } from "../models/User";
 import { validateCheckInOut, validatePaymentStatus, validateBookingStatus } from "../helpers/validateBooking";
 import { sendEmail } from "../utils/emailService";
+import { transitionBooking, recordCancellationRefund } from "../helpers/bookingLifecycle";
+import { emitBookingEvent } from "../events/bookingEvents";
+import { buildRefundBreakdownHtml } from "../helpers/cancellationPolicyHelper";
+import { reserveNights } from "../helpers/nightReservationHelper";
+import { changeBookingSeats } from "../helpers/tourDepartureHelper";
+import { getBookingGuestBreakdown, parseGuestBreakdown, validateListingCapacity } from "../helpers/capacityHelper";
+import {
+  applyPaymentStatus,
+  getPaymentSummary,
+  preparePaymentTransaction,
+  savePaymentTransaction,
+  PendingTransaction,
+} from "../helpers/paymentLedgerHelper";
 import PDFDocument from "pdfkit";
+import { BookingEvent, BookingStatus, PaymentStatus, Permission, TransactionType } from "../@types/express/enums";
+import { hasPermission } from "../middlewares/requirePermission";
 
 /**
  * @desc    Admin retrieves all bookings with full population
@@ -67,7 +84,7 @@ export const updateBookingByAdmin = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { status, paymentStatus, checkIn, checkOut, totalPrice, guests } = req.body;
+    const { status, paymentStatus, checkIn, checkOut, totalPrice, guests, adults, children, infants } = req.body;
 
     const booking = await Booking.findById(req.params.id)
       .populate("user", "firstName lastName email")
@@ -97,19 +114,198 @@ export const updateBookingByAdmin = async (
       validatePaymentStatus(paymentStatus);
     }
 
+    // Payment changes need payments.manage, refunds also need bookings.refund
+    if (paymentStatus && !hasPermission(req, Permission.PAYMENTS_MANAGE)) {
+      res.status(403).json({
+        success: false,
+        message: "🚫 Changing the payment status requires the payments.manage permission"
+      });
+      return;
+    }
+
+    if (paymentStatus === PaymentStatus.REFUNDED && !hasPermission(req, Permission.BOOKINGS_REFUND)) {
+      res.status(403).json({
+        success: false,
+        message: "🚫 Refunding bookings requires the bookings.refund permission"
+      });
+      return;
+    }
+
+    // An admin cancellation refunds everything paid, so it is a refund too
+    const hasPayments = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_PAID, PaymentStatus.PARTIALLY_REFUNDED]
+      .includes(booking.paymentStatus);
+    if (
+      status === BookingStatus.CANCELLED &&
+      booking.status !== BookingStatus.CANCELLED &&
+      hasPayments &&
+      !hasPermission(req, Permission.BOOKINGS_REFUND)
+    ) {
+      res.status(403).json({
+        success: false,
+        message: "🚫 Cancelling a paid booking refunds it and requires the bookings.refund permission"
+      });
+      return;
+    }
+
+    // New guests (or a new tour date) must fit the listing's capacity
+    const propertyRef = (booking.property as any)?._id;
+    const tourRef = (booking.tourPackage as any)?._id;
+    const guestsChanged = [guests, adults, children, infants].some((value) => value !== undefined && value !== "");
+    let guestInput: ReturnType<typeof parseGuestBreakdown> | undefined;
+
+    // Tour departures fix the date; moving a guest to another departure is a new booking
+    if (booking.tourDeparture && (checkIn || checkOut)) {
+      res.status(400).json({
+        success: false,
+        message: "❗ The dates of a booking on a tour departure cannot be changed"
+      });
+      return;
+    }
+
+    if (guestsChanged || (tourRef && checkIn)) {
+      guestInput = parseGuestBreakdown({ guests, adults, children, infants }, getBookingGuestBreakdown(booking));
+      if (!guestInput.valid) {
+        res.status(400).json({
+          success: false,
+          message: guestInput.message
+        });
+        return;
+      }
+
+      const listing = propertyRef
+        ? { property: (await Property.findById(propertyRef)) || undefined }
+        : {
+            tourPackage: (await TourPackage.findById(tourRef)) || undefined,
+            tourDeparture: booking.tourDeparture
+              ? (await TourDeparture.findById(booking.tourDeparture)) || undefined
+              : undefined
+          };
+      const capacity = await validateListingCapacity(
+        listing,
+        guestInput.breakdown!,
+        checkIn ? new Date(checkIn) : booking.checkIn,
+        { bookingId: booking._id as Types.ObjectId, seatsHeld: booking.seatsHeld }
+      );
+
+      if (!capacity.valid) {
+        res.status(400).json({
+          success: false,
+          message: capacity.message
+        });
+        return;
+      }
+    }
+
+    // A cancellation refunds what was paid before it; changing both at once is ambiguous
+    if (paymentStatus && status === BookingStatus.CANCELLED && booking.status !== BookingStatus.CANCELLED) {
+      res.status(400).json({
+        success: false,
+        message: "❗ Change the payment status and cancel the booking in separate requests"
+      });
+      return;
+    }
+
     // Store previous values for email notification
     const previousStatus = booking.status;
     const previousPaymentStatus = booking.paymentStatus;
+    const previousCheckIn = booking.checkIn;
+    const previousCheckOut = booking.checkOut;
+
+    // Every change is checked before anything is written; the ledger is written last.
+    // Payment first, so a booking can be marked paid and confirmed at once
+    let pendingPayment: PendingTransaction | undefined;
+    if (paymentStatus) {
+      const payment = await applyPaymentStatus(booking, paymentStatus, { role: "admin", userId: req.user?._id });
+      if (!payment.valid) {
+        res.status(400).json({
+          success: false,
+          message: payment.message
+        });
+        return;
+      }
+      pendingPayment = payment.pending;
+    }
+    if (status && status !== booking.status) {
+      const transition = await transitionBooking(booking, status, "admin", { userId: req.user?._id });
+      if (!transition.valid) {
+        res.status(400).json({
+          success: false,
+          message: transition.message
+        });
+        return;
+      }
+    }
+
+    // New dates must still be free for property bookings
+    const propertyId = (booking.property as any)?._id;
+    const reservesNewDates = propertyId && (checkIn || checkOut) && booking.status !== BookingStatus.CANCELLED;
+    if (reservesNewDates) {
+      const reservation = await reserveNights(
+        propertyId,
+        checkIn ? new Date(checkIn) : booking.checkIn,
+        checkOut ? new Date(checkOut) : booking.checkOut,
+        booking._id as Types.ObjectId
+      );
+
+      if (!reservation.valid) {
+        res.status(409).json({
+          success: false,
+          message: reservation.message
+        });
+        return;
+      }
+    }
 
-    // Update fields
-    if (status) booking.status = status;
-    if (paymentStatus) booking.paymentStatus = paymentStatus;
     if (checkIn) booking.checkIn = new Date(checkIn);
     if (checkOut) booking.checkOut = new Date(checkOut);
     if (totalPrice) booking.totalPrice = totalPrice;
-    if (guests) booking.guests = guests;
+    if (guestInput?.breakdown) {
+      booking.guests = guestInput.guests!;
+      booking.adults = guestInput.breakdown.adults;
+      booking.children = guestInput.breakdown.children;
+      booking.infants = guestInput.breakdown.infants;
+    }
+
+    // Only save if the guest or host did not change the status meanwhile
+    booking.$where = { status: previousStatus };
+    try {
+      // Seats on the departure follow the new guest count (taken atomically)
+      if (booking.tourDeparture && guestInput?.breakdown && booking.status !== BookingStatus.CANCELLED) {
+        const seats = await changeBookingSeats(booking, booking.tourDeparture, booking.guests, () => booking.save());
+        if (!seats.valid) {
+          res.status(409).json({
+            success: false,
+            message: seats.message
+          });
+          return;
+        }
+      } else {
+        await booking.save();
+      }
+    } catch (error: any) {
+      if (error?.name !== "DocumentNotFoundError") throw error;
+
+      // Give the booking its previous nights back
+      if (reservesNewDates) {
+        const restored = await reserveNights(propertyId, previousCheckIn, previousCheckOut, booking._id as Types.ObjectId);
+        if (!restored.valid) {
+          console.error(`❌ Could not restore the previous nights of booking ${booking._id}`);
+        }
+      }
+      res.status(409).json({
+        success: false,
+        message: "❗ The booking status changed meanwhile, please reload it"
+      });
+      return;
+    }
 
-    await booking.save();
+    // Money moves only once the booking update is saved
+    await savePaymentTransaction(pendingPayment);
+    await recordCancellationRefund(booking, { role: "admin", userId: req.user?._id });
+
+    if (booking.status === BookingStatus.COMPLETED && previousStatus !== BookingStatus.COMPLETED) {
+      emitBookingEvent(BookingEvent.COMPLETED, { booking });
+    }
 
     // Send email notification if status changed
     const user = booking.user as unknown as IUser;
@@ -133,6 +329,7 @@ export const updateBookingByAdmin = async (
         <p>Check-in: ${booking.checkIn.toLocaleDateString()}</p>
         <p>Check-out: ${booking.checkOut.toLocaleDateString()}</p>
         <p>Total Price: $${booking.totalPrice}</p>
+        ${booking.status === BookingStatus.CANCELLED && previousStatus !== BookingStatus.CANCELLED ? buildRefundBreakdownHtml(booking.refund) : ''}
         <br>
         <p>Best regards,<br>GuaraniHost Team</p>
         `
@@ -175,6 +372,15 @@ export const updateBookingPaymentStatus = async (
 
     validatePaymentStatus(paymentStatus);
 
+    // Refunds are restricted to admins holding bookings.refund
+    if (paymentStatus === PaymentStatus.REFUNDED && !hasPermission(req, Permission.BOOKINGS_REFUND)) {
+      res.status(403).json({
+        success: false,
+        message: "🚫 Refunding bookings requires the bookings.refund permission"
+      });
+      return;
+    }
+
     const booking = await Booking.findById(req.params.id)
       .populate("user", "firstName lastName email")
       .populate("property", "title")
@@ -189,8 +395,32 @@ export const updateBookingPaymentStatus = async (
     }
 
     const previousPaymentStatus = booking.paymentStatus;
-    booking.paymentStatus = paymentStatus;
-    await booking.save();
+
+    // The status is applied through the payment ledger ("paid" charges the balance due)
+    const payment = await applyPaymentStatus(booking, paymentStatus, { role: "admin", userId: req.user?._id });
+    if (!payment.valid) {
+      res.status(400).json({
+        success: false,
+        message: payment.message
+      });
+      return;
+    }
+
+    // Only save if nobody recorded a payment meanwhile (both would charge the same balance)
+    booking.$where = { paymentStatus: previousPaymentStatus };
+    try {
+      await booking.save();
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") {
+        res.status(409).json({
+          success: false,
+          message: "❗ The payment status changed meanwhile, please reload the booking"
+        });
+        return;
+      }
+      throw error;
+    }
+    await savePaymentTransaction(payment.pending);
 
     // Send email notification
     const user = booking.user as unknown as IUser;
@@ -234,6 +464,163 @@ export const updateBookingPaymentStatus = async (
   }
 };
 
+/**
+ * @desc    Admin lists the payment transactions of a booking
+ * @route   GET /api/admin/bookings/:id/transactions
+ * @access  Private (admin only)
+ */
+export const getBookingTransactionsForAdmin = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const booking = await Booking.findById(req.params.id);
+
+    if (!booking) {
+      res.status(404).json({ 
+        success: false,
+        message: "🚫 Booking not found" 
+      });
+      return;
+    }
+
+    const { transactions, totals } = await getPaymentSummary(booking);
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Transactions retrieved successfully",
+      data: {
+        paymentStatus: booking.paymentStatus,
+        totalPrice: booking.totalPrice,
+        totals,
+        transactions
+      }
+    });
+  } catch (error: any) {
+    console.error("❌ Error fetching booking transactions:", error);
+    res.status(400).json({ 
+      success: false,
+      message: error.message || "❌ Server error" 
+    });
+  }
+};
+
+/**
+ * @desc    Admin records a charge, refund or adjustment on a booking
+ * @route   POST /api/admin/bookings/:id/transactions
+ * @access  Private (admin only)
+ */
+export const recordBookingTransactionByAdmin = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { type, amount, method, reference, note } = req.body;
+
+    // Refunds are restricted to admins holding bookings.refund
+    if (type === TransactionType.REFUND && !hasPermission(req, Permission.BOOKINGS_REFUND)) {
+      res.status(403).json({
+        success: false,
+        message: "🚫 Refunding bookings requires the bookings.refund permission"
+      });
+      return;
+    }
+
+    const booking = await Booking.findById(req.params.id)
+      .populate("user", "firstName lastName email")
+      .populate("property", "title")
+      .populate("tourPackage", "title");
+
+    if (!booking) {
+      res.status(404).json({ 
+        success: false,
+        message: "🚫 Booking not found" 
+      });
+      return;
+    }
+
+    if (booking.status === BookingStatus.CANCELLED && type === TransactionType.CHARGE) {
+      res.status(400).json({
+        success: false,
+        message: "❌ Cannot charge a cancelled booking"
+      });
+      return;
+    }
+
+    const previousPaymentStatus = booking.paymentStatus;
+    const result = await preparePaymentTransaction(
+      booking,
+      { type, amount, method, reference, note },
+      { role: "admin", userId: req.user?._id }
+    );
+
+    if (!result.valid) {
+      res.status(400).json({
+        success: false,
+        message: result.message
+      });
+      return;
+    }
+
+    // Only save if nobody recorded a payment meanwhile (both were checked against the same totals)
+    booking.$where = { paymentStatus: previousPaymentStatus };
+    try {
+      await booking.save();
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") {
+        res.status(409).json({
+          success: false,
+          message: "❗ The payment status changed meanwhile, please reload the booking"
+        });
+        return;
+      }
+      throw error;
+    }
+    const transaction = await savePaymentTransaction(result.pending);
+
+    // Send email notification
+    const user = booking.user as unknown as IUser;
+    if (user?.email && booking.paymentStatus !== previousPaymentStatus) {
+      const bookingType = booking.property ? 'property' : 'tour';
+      const bookingTitle = booking.property ? 
+        (booking.property as any).title : 
+        (booking.tourPackage as any).title;
+
+      await sendEmail(
+        user.email,
+        "Payment Status Updated - GuaraniHost",
+        `
+        <h2>💳 Payment Status Updated</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>A ${transaction!.type} of $${Math.abs(transaction!.amount)} was recorded on your ${bookingType} booking <strong>${bookingTitle}</strong>.</p>
+        <p><strong>New Payment Status:</strong> ${booking.paymentStatus}</p>
+        <p>Amount Paid: $${result.totals!.netPaid} of $${booking.totalPrice}</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "✅ Transaction recorded successfully",
+      data: { 
+        booking,
+        transaction,
+        totals: result.totals,
+        previousPaymentStatus,
+        newPaymentStatus: booking.paymentStatus
+      }
+    });
+  } catch (error: any) {
+    console.error("❌ Error recording booking transaction:", error);
+    res.status(400).json({ 
+      success: false,
+      message: error.message || "❌ Server error" 
+    });
+  }
+};
+
 /**
  * @desc    Admin deletes a booking
  * @route   DELETE /api/admin/bookings/:id
@@ -1,6 +1,60 @@
 import { Request, Response } from "express";
+import mongoose from "mongoose";
 import { User } from "../models/User";
-import { generateToken } from "../utils/generateToken";
+import { Role, IRole } from "../models/RoleModel";
+import { unlockAccount } from "../helpers/loginThrottle";
+import { revokeAllUserSessions } from "../helpers/sessionHelper";
+import { anonymizeUser } from "../helpers/accountDeletionHelper";
+import { AccountStatus, Permission } from "../@types/express/enums";
+import { hasPermission } from "../middlewares/requirePermission";
+
+/**
+ * Signs out every device of an account that was just suspended or deleted
+ * @param userId - The updated account
+ * @param accountStatus - The new account status
+ */
+const revokeSessionsIfDeactivated = async (userId: any, accountStatus?: string): Promise<void> => {
+  if (accountStatus === AccountStatus.SUSPENDED || accountStatus === AccountStatus.DELETED) {
+    await revokeAllUserSessions(userId, `Account ${accountStatus} by admin`);
+  }
+};
+
+/**
+ * Rejects account status changes from admins without the users.suspend permission
+ * @returns Boolean indicating if the request was rejected
+ */
+const rejectStatusChangeWithoutPermission = (req: Request, res: Response, accountStatus?: string): boolean => {
+  if (accountStatus && !hasPermission(req, Permission.USERS_SUSPEND)) {
+    res.status(403).json({ message: "🚫 Changing the account status requires the users.suspend permission" });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Resolves the role of a new admin. Every admin needs a role (an admin without
+ * one has no permissions), and nobody can hand out permissions they lack.
+ * @returns The role, or the status and message to answer with
+ */
+const resolveNewAdminRole = async (
+  req: Request,
+  roleId: unknown
+): Promise<{ role?: IRole; status?: number; message?: string }> => {
+  if (!roleId || !mongoose.Types.ObjectId.isValid(String(roleId))) {
+    return { status: 400, message: "❗ A valid roleId is required to create an admin" };
+  }
+
+  const role = await Role.findById(roleId);
+  if (!role) {
+    return { status: 404, message: "🚫 Role not found" };
+  }
+
+  if (!role.permissions.every((permission) => hasPermission(req, permission))) {
+    return { status: 403, message: "🚫 You cannot create an admin with permissions you do not have" };
+  }
+
+  return { role };
+};
 
 /* ========================= ADMIN ========================= */
 
@@ -11,7 +65,7 @@ import { generateToken } from "../utils/generateToken";
  */
 export const createAdmin = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { firstName, lastName, email, password, phone, address } = req.body;
+    const { firstName, lastName, email, password, phone, address, roleId } = req.body;
 
     // Admin validation: Only allow creation of admin by an existing admin
     if (req.user?.role !== "admin") {
@@ -25,6 +79,12 @@ export const createAdmin = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    const { role, status, message } = await resolveNewAdminRole(req, roleId);
+    if (!role) {
+      res.status(status!).json({ message });
+      return;
+    }
+
     // Check if the admin already exists
     const existingAdmin = await User.findOne({ email });
     if (existingAdmin) {
@@ -41,14 +101,12 @@ export const createAdmin = async (req: Request, res: Response): Promise<void> =>
       phone,
       address: address || "No address provided",
       role: "admin",
+      adminRole: role._id,
       accountStatus: "active"
     });
 
     await newAdmin.save();
 
-    // Generate JWT token (optional for admin creation)
-    const token = generateToken(newAdmin._id.toString());
-
     res.status(201).json({
       message: "✅ Admin created successfully",
       user: newAdmin,
@@ -98,6 +156,9 @@ export const updateAdmin = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Suspending or reactivating accounts is restricted to admins holding users.suspend
+    if (rejectStatusChangeWithoutPermission(req, res, accountStatus)) return;
+
     const admin = await User.findById(req.params.id);
 
     if (!admin || admin.role !== "admin") {
@@ -114,6 +175,7 @@ export const updateAdmin = async (req: Request, res: Response): Promise<void> =>
     // Note: email and password are not updated for security
 
     await admin.save();
+    await revokeSessionsIfDeactivated(admin._id, accountStatus);
 
     res.status(200).json({
       message: "✅ Admin updated successfully",
@@ -132,13 +194,21 @@ export const updateAdmin = async (req: Request, res: Response): Promise<void> =>
  */
 export const deleteAdmin = async (req: Request, res: Response): Promise<void> => {
   try {
-    const admin = await User.findByIdAndDelete(req.params.id);
+    const admin = await User.findById(req.params.id);
 
     if (!admin || admin.role !== "admin") {
       res.status(404).json({ message: "🚫 Admin not found" });
       return;
     }
 
+    if (admin._id.equals(req.user!._id)) {
+      res.status(400).json({ message: "❗ You cannot delete your own admin account" });
+      return;
+    }
+
+    await admin.deleteOne();
+    await revokeAllUserSessions(admin._id, "Account deleted by admin");
+
     res.status(200).json({
       message: "✅ Admin deleted successfully",
       adminId: admin._id,
@@ -193,9 +263,6 @@ export const createHost = async (req: Request, res: Response): Promise<void> =>
     
     await newHost.save();
 
-    // Generate JWT token (optional for host creation)
-    const token = generateToken(newHost._id.toString());
-
     res.status(201).json({
       message: "✅ Host created successfully",
       user: newHost,
@@ -245,6 +312,9 @@ export const updateHost = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Suspending or reactivating accounts is restricted to admins holding users.suspend
+    if (rejectStatusChangeWithoutPermission(req, res, accountStatus)) return;
+
     const host = await User.findById(req.params.id);
 
     if (!host || host.role !== "host") {
@@ -261,6 +331,7 @@ export const updateHost = async (req: Request, res: Response): Promise<void> =>
     // Note: email and password are not updated for security
 
     await host.save();
+    await revokeSessionsIfDeactivated(host._id, accountStatus);
 
     res.status(200).json({
       message: "✅ Host updated successfully",
@@ -305,7 +376,7 @@ export const deleteHost = async (req: Request, res: Response): Promise<void> =>
  */
 export const createUser = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { firstName, lastName, email, password, phone, address, role, accountStatus } = req.body;
+    const { firstName, lastName, email, password, phone, address, role, roleId, accountStatus } = req.body;
 
     // Validating required fields
     if (!firstName || !lastName || !email || !password || !phone || !address || !role) {
@@ -319,6 +390,22 @@ export const createUser = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Creating admins is restricted to admins holding admins.manage
+    if (role === "admin" && !hasPermission(req, Permission.ADMINS_MANAGE)) {
+      res.status(403).json({ message: "🚫 Creating admins requires the admins.manage permission" });
+      return;
+    }
+
+    let adminRole: IRole | undefined;
+    if (role === "admin") {
+      const resolved = await resolveNewAdminRole(req, roleId);
+      if (!resolved.role) {
+        res.status(resolved.status!).json({ message: resolved.message });
+        return;
+      }
+      adminRole = resolved.role;
+    }
+
     // Validate accountStatus if provided
     if (accountStatus && !['active', 'suspended', 'deleted', 'pending_verification'].includes(accountStatus)) {
       res.status(400).json({ message: "❗ Invalid account status provided" });
@@ -341,6 +428,7 @@ export const createUser = async (req: Request, res: Response): Promise<void> =>
       phone,
       address,
       role,
+      adminRole: adminRole?._id,
       accountStatus: accountStatus || "active", // Default to active if not provided
     });
     
@@ -402,6 +490,9 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Suspending or reactivating accounts is restricted to admins holding users.suspend
+    if (rejectStatusChangeWithoutPermission(req, res, accountStatus)) return;
+
     const user = await User.findById(req.params.id);
 
     if (!user) {
@@ -409,6 +500,12 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Editing admins, or granting the admin role, is restricted to admins holding admins.manage
+    if ((user.role === "admin" || role === "admin") && !hasPermission(req, Permission.ADMINS_MANAGE)) {
+      res.status(403).json({ message: "🚫 Managing admins requires the admins.manage permission" });
+      return;
+    }
+
     // Update all fields except email and password
     user.firstName = firstName || user.firstName;
     user.lastName = lastName || user.lastName;
@@ -419,6 +516,7 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
     // Email y password not update, security things
 
     await user.save();
+    await revokeSessionsIfDeactivated(user._id, accountStatus);
 
     res.status(200).json({
       message: "✅ User updated successfully",
@@ -431,19 +529,28 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
 };
 
 /**
- * @desc    Delete user by ID
+ * @desc    Delete user by ID (personal data is anonymized, bookings are kept)
  * @route   DELETE /api/admin/users/:id
  * @access  Private (admin only)
  */
 export const deleteUser = async (req: Request, res: Response): Promise<void> => {
   try {
-    const user = await User.findByIdAndDelete(req.params.id);
+    const user = await User.findById(req.params.id);
 
     if (!user) {
       res.status(404).json({ message: "🚫 User not found" });
       return;
     }
 
+    // Admins can only be deleted by admins holding admins.manage
+    if (user.role === "admin" && !hasPermission(req, Permission.ADMINS_MANAGE)) {
+      res.status(403).json({ message: "🚫 Deleting admins requires the admins.manage permission" });
+      return;
+    }
+
+    // Personal data is anonymized; the record is kept so bookings stay valid for accounting
+    await anonymizeUser(user._id);
+
     res.status(200).json({
       message: "✅ User deleted successfully",
       userId: user._id,
@@ -452,4 +559,84 @@ export const deleteUser = async (req: Request, res: Response): Promise<void> =>
     console.error("❌ Error deleting user:", error);
     res.status(500).json({ message: "❌ Server error while deleting user" });
   }
+};
+
+/* ========================= SESSIONS ========================= */
+
+/**
+ * @desc    Revoke all sessions of a user (sign out every device)
+ * @route   DELETE /api/admin/users/:id/sessions
+ * @access  Private (admin only)
+ */
+export const revokeUserSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ message: "🚫 User not found" });
+      return;
+    }
+
+    const revokedCount = await revokeAllUserSessions(user._id, "Revoked by admin");
+
+    res.status(200).json({
+      message: "✅ User sessions revoked successfully",
+      userId: user._id,
+      revokedCount,
+    });
+  } catch (error) {
+    console.error("❌ Error revoking user sessions:", error);
+    res.status(500).json({ message: "❌ Server error while revoking sessions" });
+  }
+};
+
+/* ========================= LOCKED ACCOUNTS ========================= */
+
+/**
+ * @desc    Get accounts currently locked by failed login attempts
+ * @route   GET /api/admin/locked-accounts
+ * @access  Private (admin only)
+ */
+export const getLockedAccounts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const users = await User.find({ lockUntil: { $gt: new Date() } })
+      .select("firstName lastName email role accountStatus failedLoginAttempts lastFailedLoginAt lockUntil")
+      .sort({ lockUntil: -1 });
+
+    res.status(200).json({
+      message: "✅ Locked accounts retrieved successfully",
+      total: users.length,
+      users,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching locked accounts:", error);
+    res.status(500).json({ message: "❌ Server error while fetching locked accounts" });
+  }
+};
+
+/**
+ * @desc    Unlock an account locked by failed login attempts
+ * @route   PATCH /api/admin/users/:id/unlock
+ * @access  Private (admin only)
+ */
+export const unlockUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ message: "🚫 User not found" });
+      return;
+    }
+
+    // Only the lockout is cleared; accountStatus (e.g. suspended) is left untouched
+    await unlockAccount(user);
+
+    res.status(200).json({
+      message: "✅ Account unlocked successfully",
+      userId: user._id,
+    });
+  } catch (error) {
+    console.error("❌ Error unlocking user:", error);
+    res.status(500).json({ message: "❌ Server error while unlocking user" });
+  }
 };
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Conversation } from "../models/ConversationModel";
+import { uploadImagesToCloudinary } from "../helpers/uploadImagesToCloudinary";
+import { listConversations, listMessages, postMessage, validateMessageInput } from "../helpers/conversationHelper";
+import { ConversationType } from "../@types/express/enums";
+
+/**
+ * @desc    List guest-host conversations (for support and dispute review)
+ * @route   GET /api/admin/conversations
+ * @access  Private (admin with messages.read)
+ * @query   bookingId, userId (guest or host), type ("booking" | "inquiry"), page, limit
+ */
+export const getAdminConversations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { bookingId, userId, type } = req.query;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const filter: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries({ bookingId, userId })) {
+      if (value && !Types.ObjectId.isValid(value as string)) {
+        res.status(400).json({ message: `❌ Invalid ${field}` });
+        return;
+      }
+    }
+
+    if (bookingId) filter.booking = bookingId;
+    if (userId) filter.$or = [{ guest: userId }, { host: userId }];
+
+    if (type) {
+      if (!Object.values(ConversationType).includes(type as ConversationType)) {
+        res.status(400).json({ message: "❗ Invalid conversation type" });
+        return;
+      }
+      filter.type = type;
+    }
+
+    const result = await listConversations(filter, page, limit);
+
+    res.status(200).json({
+      message: "✅ Conversations retrieved successfully",
+      ...result,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching conversations:", error);
+    res.status(500).json({ message: "❌ Server error while fetching conversations" });
+  }
+};
+
+/**
+ * @desc    Read the messages of a conversation, newest first. Reading as admin
+ *          does not mark anything as read for the participants.
+ * @route   GET /api/admin/conversations/:id/messages
+ * @access  Private (admin with messages.read)
+ * @query   page, limit
+ */
+export const getAdminConversationMessages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      res.status(400).json({ message: "❌ Invalid conversation ID" });
+      return;
+    }
+
+    const conversation = await Conversation.findById(req.params.id)
+      .populate("guest", "firstName lastName email")
+      .populate("host", "firstName lastName email");
+
+    if (!conversation) {
+      res.status(404).json({ message: "❌ Conversation not found" });
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+
+    res.status(200).json({
+      message: "✅ Messages retrieved successfully",
+      conversation,
+      ...(await listMessages(conversation._id as string, page, limit)),
+    });
+  } catch (error) {
+    console.error("❌ Error fetching conversation messages:", error);
+    res.status(500).json({ message: "❌ Server error while fetching messages" });
+  }
+};
+
+/**
+ * @desc    Write in a conversation as support (both guest and host are notified)
+ * @route   POST /api/admin/conversations/:id/messages
+ * @access  Private (admin with messages.read and messages.manage)
+ * @body    { body? } + "images" files
+ */
+export const sendAdminMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      res.status(400).json({ message: "❌ Invalid conversation ID" });
+      return;
+    }
+
+    const conversation = await Conversation.findById(req.params.id);
+    if (!conversation) {
+      res.status(404).json({ message: "❌ Conversation not found" });
+      return;
+    }
+
+    // Validate the message before uploading its images
+    const images = req.files && "images" in req.files ? req.files["images"] as Express.Multer.File[] : [];
+    const check = validateMessageInput(req.body.body, images.length);
+    if (!check.valid) {
+      res.status(400).json({ message: check.message });
+      return;
+    }
+
+    // Handle message images upload if provided
+    const imageUrls = images.length ? await uploadImagesToCloudinary(images) : [];
+
+    const result = await postMessage(
+      conversation,
+      { userId: req.user!._id, role: "admin", name: "GuaraniHost Support" },
+      { body: req.body.body, imageUrls }
+    );
+
+    if (!result.valid) {
+      res.status(400).json({ message: result.message });
+      return;
+    }
+
+    res.status(201).json({
+      message: "✅ Message sent",
+      sent: result.sent,
+    });
+  } catch (error) {
+    console.error("❌ Error sending admin message:", error);
+    res.status(500).json({ message: "❌ Server error while sending message" });
+  }
+};
@@ -0,0 +1,184 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { HostApplication } from "../models/HostApplicationModel";
+import { User } from "../models/User";
+import { sendEmail } from "../utils/emailService";
+import { HostApplicationStatus } from "../@types/express/enums";
+
+/* ==================== ADMIN HOST APPLICATIONS ==================== */
+
+/**
+ * @desc    Admin lists host applications, optionally filtered by status
+ * @route   GET /api/admin/host-applications
+ * @query   status=pending|approved|rejected
+ * @access  Private (admin only)
+ */
+export const getHostApplications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status } = req.query;
+
+    if (status && !Object.values(HostApplicationStatus).includes(status as HostApplicationStatus)) {
+      res.status(400).json({ message: "❗ Invalid application status" });
+      return;
+    }
+
+    const query: any = {};
+    if (status) query.status = status;
+
+    const applications = await HostApplication.find(query)
+      .populate("user", "firstName lastName email phone role accountStatus")
+      .populate("reviewedBy", "firstName lastName email")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      message: "✅ Host applications retrieved successfully",
+      total: applications.length,
+      applications
+    });
+  } catch (error) {
+    console.error("❌ Error fetching host applications:", error);
+    res.status(500).json({ message: "❌ Server error while fetching host applications" });
+  }
+};
+
+/**
+ * @desc    Admin approves a host application and promotes the user to host
+ * @route   PATCH /api/admin/host-applications/:id/approve
+ * @access  Private (admin only)
+ */
+export const approveHostApplication = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      res.status(400).json({ message: "❌ Invalid application ID" });
+      return;
+    }
+
+    const application = await HostApplication.findById(req.params.id);
+
+    if (!application) {
+      res.status(404).json({ message: "🚫 Host application not found" });
+      return;
+    }
+
+    if (application.status !== HostApplicationStatus.PENDING) {
+      res.status(400).json({ message: `❗ Application has already been ${application.status}` });
+      return;
+    }
+
+    const user = await User.findById(application.user);
+    if (!user) {
+      res.status(404).json({ message: "🚫 Applicant not found" });
+      return;
+    }
+
+    // Promote the applicant (admins keep their role)
+    if (user.role === "user") {
+      user.role = "host";
+      await user.save();
+    }
+
+    application.status = HostApplicationStatus.APPROVED;
+    application.reviewedBy = req.user?._id;
+    application.reviewedAt = new Date();
+    await application.save();
+
+    try {
+      await sendEmail(
+        user.email,
+        "Host Application Approved - GuaraniHost",
+        `
+        <h2>🎉 Welcome to GuaraniHost hosting!</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>Your host application for <strong>${application.businessName}</strong> has been approved.</p>
+        <p>You can now publish properties and tours from your host dashboard.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+    } catch (emailError) {
+      console.error("❌ Error sending approval email:", emailError);
+    }
+
+    res.status(200).json({
+      message: "✅ Host application approved",
+      application,
+      user: {
+        id: user._id,
+        email: user.email,
+        role: user.role
+      }
+    });
+  } catch (error) {
+    console.error("❌ Error approving host application:", error);
+    res.status(500).json({ message: "❌ Server error while approving host application" });
+  }
+};
+
+/**
+ * @desc    Admin rejects a host application
+ * @route   PATCH /api/admin/host-applications/:id/reject
+ * @access  Private (admin only)
+ */
+export const rejectHostApplication = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { reason } = req.body || {};
+
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      res.status(400).json({ message: "❌ Invalid application ID" });
+      return;
+    }
+
+    if (!reason) {
+      res.status(400).json({ message: "❗ Rejection reason is required" });
+      return;
+    }
+
+    const application = await HostApplication.findById(req.params.id)
+      .populate("user", "firstName lastName email");
+
+    if (!application) {
+      res.status(404).json({ message: "🚫 Host application not found" });
+      return;
+    }
+
+    if (application.status !== HostApplicationStatus.PENDING) {
+      res.status(400).json({ message: `❗ Application has already been ${application.status}` });
+      return;
+    }
+
+    application.status = HostApplicationStatus.REJECTED;
+    application.rejectionReason = reason.trim();
+    application.reviewedBy = req.user?._id;
+    application.reviewedAt = new Date();
+    await application.save();
+
+    const user = application.user as any;
+    if (user?.email) {
+      try {
+        await sendEmail(
+          user.email,
+          "Host Application Update - GuaraniHost",
+          `
+          <h2>📝 Host application reviewed</h2>
+          <p>Hello ${user.firstName},</p>
+          <p>Unfortunately your host application for <strong>${application.businessName}</strong> was not approved.</p>
+          <p><strong>Reason:</strong> ${application.rejectionReason}</p>
+          <p>You can submit a new application once the issues above are resolved.</p>
+          <br>
+          <p>Best regards,<br>GuaraniHost Team</p>
+          `
+        );
+      } catch (emailError) {
+        console.error("❌ Error sending rejection email:", emailError);
+      }
+    }
+
+    res.status(200).json({
+      message: "✅ Host application rejected",
+      application
+    });
+  } catch (error) {
+    console.error("❌ Error rejecting host application:", error);
+    res.status(500).json({ message: "❌ Server error while rejecting host application" });
+  }
+};
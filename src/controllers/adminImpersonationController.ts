@@ -0,0 +1,147 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { User } from "../models/User";
+import { AuditLog } from "../models/AuditLogModel";
+import { generateImpersonationToken } from "../utils/generateToken";
+import { recordAuditLog } from "../helpers/auditLogHelper";
+import { AccountStatus, AuditAction } from "../@types/express/enums";
+
+/* ========================= IMPERSONATION ========================= */
+
+/**
+ * @desc    Issue a short-lived token to see the platform as a host or guest (support)
+ * @route   POST /api/admin/users/:id/impersonate
+ * @body    { reason } (e.g. the support ticket)
+ * @access  Private (admin with users.impersonate)
+ */
+export const impersonateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { reason } = req.body;
+
+    if (!reason || !String(reason).trim()) {
+      res.status(400).json({ message: "❗ A reason (e.g. support ticket) is required to impersonate a user" });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      res.status(400).json({ message: "❌ Invalid user ID" });
+      return;
+    }
+
+    // Nested impersonation is not allowed
+    if (req.impersonator || !req.sessionId) {
+      res.status(403).json({ message: "🚫 Cannot start impersonation from this session" });
+      return;
+    }
+
+    const target = await User.findById(req.params.id);
+    if (!target) {
+      res.status(404).json({ message: "🚫 User not found" });
+      return;
+    }
+
+    // Admin accounts cannot be impersonated (no privilege escalation between admins)
+    if (target.role === "admin") {
+      res.status(403).json({ message: "🚫 Admin accounts cannot be impersonated" });
+      return;
+    }
+
+    if (target.accountStatus === AccountStatus.SUSPENDED || target.accountStatus === AccountStatus.DELETED) {
+      res.status(400).json({ message: `❗ Cannot impersonate an account that is ${target.accountStatus}` });
+      return;
+    }
+
+    const token = generateImpersonationToken(target._id.toString(), req.user!._id.toString(), req.sessionId);
+
+    await recordAuditLog(req, {
+      action: AuditAction.IMPERSONATION_STARTED,
+      actor: req.user!._id,
+      subject: target._id,
+      statusCode: 200,
+      reason: String(reason).trim(),
+    });
+
+    res.status(200).json({
+      message: `✅ Impersonating ${target.firstName} ${target.lastName}. Access is read-only`,
+      token,
+      expiresIn: process.env.IMPERSONATION_EXPIRES_IN || "15m",
+      user: {
+        id: target._id,
+        firstName: target.firstName,
+        lastName: target.lastName,
+        email: target.email,
+        role: target.role,
+        accountStatus: target.accountStatus,
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error starting impersonation:", error);
+    res.status(500).json({ message: "❌ Server error while starting impersonation" });
+  }
+};
+
+/* ========================= AUDIT LOGS ========================= */
+
+/**
+ * @desc    Admin lists audit log entries with optional filters
+ * @route   GET /api/admin/audit-logs
+ * @query   actor=<userId>&subject=<userId>&action=impersonation.request&from=YYYY-MM-DD&to=YYYY-MM-DD&page=1&limit=20
+ * @access  Private (admin with audit_logs.read)
+ */
+export const getAuditLogs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { actor, subject, action, from, to } = req.query;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const query: any = {};
+
+    for (const [field, value] of Object.entries({ actor, subject })) {
+      if (value) {
+        if (!Types.ObjectId.isValid(value as string)) {
+          res.status(400).json({ message: `❌ Invalid ${field} ID` });
+          return;
+        }
+        query[field] = value;
+      }
+    }
+
+    if (action) {
+      if (!Object.values(AuditAction).includes(action as AuditAction)) {
+        res.status(400).json({ message: "❗ Invalid audit action" });
+        return;
+      }
+      query.action = action;
+    }
+
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = new Date(from as string);
+      if (to) query.createdAt.$lte = new Date(to as string);
+    }
+
+    const totalLogs = await AuditLog.countDocuments(query);
+    const logs = await AuditLog.find(query)
+      .populate("actor", "firstName lastName email")
+      .populate("subject", "firstName lastName email role")
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    res.status(200).json({
+      message: "✅ Audit logs retrieved successfully",
+      logs,
+      pagination: {
+        current: page,
+        total: Math.ceil(totalLogs / limit),
+        totalLogs,
+        hasNext: page * limit < totalLogs,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error fetching audit logs:", error);
+    res.status(500).json({ message: "❌ Server error while fetching audit logs" });
+  }
+};
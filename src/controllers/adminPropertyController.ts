@@ -23,6 +23,7 @@ export const createProperty = async (req: Request, res: Response): Promise<void>
       address,
       city,
       pricePerNight,
+      cleaningFee,
       amenities,
       host,
       status,
@@ -49,6 +50,11 @@ export const createProperty = async (req: Request, res: Response): Promise<void>
     return;
     }
 
+    if (cleaningFee !== undefined && (isNaN(+cleaningFee) || +cleaningFee < 0)) {
+      res.status(400).json({ message: "❗ Cleaning fee cannot be negative" });
+      return;
+    }
+
     // Validate status if provided
     if (status && !Object.values(PropertyStatus).includes(status)) {
       res.status(400).json({ message: "❗ Invalid property status" });
@@ -86,6 +92,7 @@ export const createProperty = async (req: Request, res: Response): Promise<void>
       address: address.trim(),
       city: city.trim(),
       pricePerNight: +pricePerNight,
+      cleaningFee: cleaningFee !== undefined ? +cleaningFee : 0,
       amenities: parsedAmenities,
       host,
       guests: +guests,
@@ -174,6 +181,7 @@ export const updateProperty = async (req: Request, res: Response): Promise<void>
       address,
       city,
       pricePerNight,
+      cleaningFee,
       amenities,
       status,
       guests
@@ -200,6 +208,11 @@ export const updateProperty = async (req: Request, res: Response): Promise<void>
     return;
     }
 
+    if (cleaningFee !== undefined && (isNaN(+cleaningFee) || +cleaningFee < 0)) {
+      res.status(400).json({ message: "❗ Cleaning fee cannot be negative" });
+      return;
+    }
+
     // Validate status if provided
     if (status && !Object.values(PropertyStatus).includes(status)) {
       res.status(400).json({ message: "❗ Invalid property status" });
@@ -232,6 +245,7 @@ export const updateProperty = async (req: Request, res: Response): Promise<void>
     if (address) updateData.address = address.trim();
     if (city) updateData.city = city.trim();
     if (pricePerNight) updateData.pricePerNight = +pricePerNight;
+    if (cleaningFee !== undefined) updateData.cleaningFee = +cleaningFee;
     if (parsedAmenities) updateData.amenities = parsedAmenities;
     if (status) updateData.status = status;
     if (guests) updateData.guests = +guests;
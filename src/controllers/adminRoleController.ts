@@ -0,0 +1,267 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Role } from "../models/RoleModel";
+import { User } from "../models/User";
+import { hasPermission } from "../middlewares/requirePermission";
+import { SUPER_ADMIN_ROLE } from "../config/defaultRoles";
+import { Permission } from "../@types/express/enums";
+
+/**
+ * Validates a list of permissions sent in the request body
+ * @param permissions - Value received from the client
+ * @returns Boolean indicating if every entry is a known permission
+ */
+const isValidPermissionList = (permissions: unknown): permissions is Permission[] => {
+  const known = Object.values(Permission) as string[];
+  return Array.isArray(permissions) && permissions.every((permission) => known.includes(permission));
+};
+
+/**
+ * Checks that the admin holds every permission of a list, so roles can
+ * never be used to grant more than the admin managing them has
+ * @param req - Request of the admin managing roles
+ * @param permissions - Permissions granted or taken away
+ */
+const holdsAllPermissions = (req: Request, permissions: Permission[]): boolean =>
+  permissions.every((permission) => hasPermission(req, permission));
+
+/* ========================= PERMISSIONS ========================= */
+
+/**
+ * @desc    List every available permission
+ * @route   GET /api/admin/permissions
+ * @access  Private (admin with roles.manage)
+ */
+export const getPermissions = async (req: Request, res: Response): Promise<void> => {
+  res.status(200).json({
+    message: "✅ Permissions retrieved successfully",
+    permissions: Object.values(Permission),
+  });
+};
+
+/* ========================= ROLES ========================= */
+
+/**
+ * @desc    Get all admin roles
+ * @route   GET /api/admin/roles
+ * @access  Private (admin with roles.manage)
+ */
+export const getRoles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roles = await Role.find().sort({ isSystem: -1, name: 1 });
+
+    res.status(200).json({
+      message: "✅ Roles retrieved successfully",
+      roles,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching roles:", error);
+    res.status(500).json({ message: "❌ Server error while fetching roles" });
+  }
+};
+
+/**
+ * @desc    Create a custom admin role with permissions the caller has
+ * @route   POST /api/admin/roles
+ * @body    { name, description?, permissions: string[] }
+ * @access  Private (admin with roles.manage)
+ */
+export const createRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, description, permissions } = req.body;
+
+    if (!name || !isValidPermissionList(permissions)) {
+      res.status(400).json({ message: "❗ Name and a valid list of permissions are required" });
+      return;
+    }
+
+    if (!holdsAllPermissions(req, permissions)) {
+      res.status(403).json({ message: "🚫 You cannot grant permissions you do not have" });
+      return;
+    }
+
+    const existingRole = await Role.findOne({ name: String(name).toLowerCase().trim() });
+    if (existingRole) {
+      res.status(400).json({ message: "❗ A role with this name already exists" });
+      return;
+    }
+
+    const role = await Role.create({
+      name,
+      description,
+      permissions: Array.from(new Set(permissions)),
+    });
+
+    res.status(201).json({
+      message: "✅ Role created successfully",
+      role,
+    });
+  } catch (error) {
+    console.error("❌ Error creating role:", error);
+    res.status(500).json({ message: "❌ Server error while creating role" });
+  }
+};
+
+/**
+ * @desc    Update a custom admin role (system roles cannot be edited). The
+ *          caller must have every permission the role has or is given.
+ * @route   PATCH /api/admin/roles/:id
+ * @body    { description?, permissions?: string[] }
+ * @access  Private (admin with roles.manage)
+ */
+export const updateRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { description, permissions } = req.body;
+
+    if (description === undefined && permissions === undefined) {
+      res.status(400).json({ message: "❗ No fields provided for update" });
+      return;
+    }
+
+    if (permissions !== undefined && !isValidPermissionList(permissions)) {
+      res.status(400).json({ message: "❗ Invalid list of permissions" });
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      res.status(400).json({ message: "❗ Invalid role ID" });
+      return;
+    }
+
+    const role = await Role.findById(req.params.id);
+    if (!role) {
+      res.status(404).json({ message: "🚫 Role not found" });
+      return;
+    }
+
+    if (role.isSystem) {
+      res.status(400).json({ message: "❗ System roles cannot be modified" });
+      return;
+    }
+
+    if (permissions !== undefined && !holdsAllPermissions(req, [...role.permissions, ...permissions])) {
+      res.status(403).json({ message: "🚫 You can only change roles whose permissions you all have" });
+      return;
+    }
+
+    if (description !== undefined) role.description = description;
+    if (permissions !== undefined) role.permissions = Array.from(new Set(permissions as Permission[]));
+    await role.save();
+
+    res.status(200).json({
+      message: "✅ Role updated successfully",
+      role,
+    });
+  } catch (error) {
+    console.error("❌ Error updating role:", error);
+    res.status(500).json({ message: "❌ Server error while updating role" });
+  }
+};
+
+/**
+ * @desc    Delete a custom admin role that is not assigned to any admin
+ * @route   DELETE /api/admin/roles/:id
+ * @access  Private (admin with roles.manage)
+ */
+export const deleteRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      res.status(400).json({ message: "❗ Invalid role ID" });
+      return;
+    }
+
+    const role = await Role.findById(req.params.id);
+    if (!role) {
+      res.status(404).json({ message: "🚫 Role not found" });
+      return;
+    }
+
+    if (role.isSystem) {
+      res.status(400).json({ message: "❗ System roles cannot be deleted" });
+      return;
+    }
+
+    const assignedAdmins = await User.countDocuments({ adminRole: role._id });
+    if (assignedAdmins > 0) {
+      res.status(400).json({ message: `❗ Role is assigned to ${assignedAdmins} admin(s)` });
+      return;
+    }
+
+    await role.deleteOne();
+
+    res.status(200).json({
+      message: "✅ Role deleted successfully",
+      roleId: role._id,
+    });
+  } catch (error) {
+    console.error("❌ Error deleting role:", error);
+    res.status(500).json({ message: "❌ Server error while deleting role" });
+  }
+};
+
+/**
+ * @desc    Assign a role to an admin. The caller must have the permissions of
+ *          both the new and the current role, and the last super admin
+ *          cannot be demoted.
+ * @route   PATCH /api/admin/admins/:id/role
+ * @body    { roleId }
+ * @access  Private (admin with roles.manage)
+ */
+export const assignAdminRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { roleId } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id) || !mongoose.Types.ObjectId.isValid(roleId)) {
+      res.status(400).json({ message: "❗ Valid admin ID and roleId are required" });
+      return;
+    }
+
+    if (req.user!._id.equals(req.params.id)) {
+      res.status(400).json({ message: "❗ You cannot change your own role" });
+      return;
+    }
+
+    const [admin, role] = await Promise.all([User.findById(req.params.id), Role.findById(roleId)]);
+
+    if (!admin || admin.role !== "admin") {
+      res.status(404).json({ message: "🚫 Admin not found" });
+      return;
+    }
+
+    if (!role) {
+      res.status(404).json({ message: "🚫 Role not found" });
+      return;
+    }
+
+    // Neither the new role nor the admin's current one may exceed the caller's permissions
+    const currentRole = admin.adminRole ? await Role.findById(admin.adminRole) : null;
+    if (!holdsAllPermissions(req, [...role.permissions, ...(currentRole?.permissions || [])])) {
+      res.status(403).json({ message: "🚫 You cannot assign or take away permissions you do not have" });
+      return;
+    }
+
+    // There must always be a super admin left
+    if (currentRole?.name === SUPER_ADMIN_ROLE && String(currentRole._id) !== String(role._id)) {
+      const superAdmins = await User.countDocuments({ role: "admin", adminRole: currentRole._id });
+      if (superAdmins <= 1) {
+        res.status(400).json({ message: "❗ This is the last super admin; assign the role to another admin first" });
+        return;
+      }
+    }
+
+    admin.adminRole = role._id as mongoose.Types.ObjectId;
+    await admin.save();
+
+    res.status(200).json({
+      message: `✅ Role '${role.name}' assigned successfully`,
+      admin: {
+        _id: admin._id,
+        email: admin.email,
+        adminRole: role,
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error assigning admin role:", error);
+    res.status(500).json({ message: "❌ Server error while assigning admin role" });
+  }
+};
@@ -0,0 +1,56 @@
+import { Request, Response } from "express";
+import { getSecuritySettings } from "../helpers/securitySettingsHelper";
+
+/* ==================== ADMIN SECURITY SETTINGS ==================== */
+
+/**
+ * @desc    Get platform security settings
+ * @route   GET /api/admin/security-settings
+ * @access  Private (admin only)
+ */
+export const getSecuritySettingsForAdmin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const settings = await getSecuritySettings();
+
+    res.status(200).json({
+      message: "✅ Security settings retrieved successfully",
+      settings,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching security settings:", error);
+    res.status(500).json({ message: "❌ Server error while fetching security settings" });
+  }
+};
+
+/**
+ * @desc    Update platform security settings (e.g. roles that must use 2FA)
+ * @route   PATCH /api/admin/security-settings
+ * @body    { twoFactorRequiredRoles: ("admin" | "host")[] }
+ * @access  Private (admin only)
+ */
+export const updateSecuritySettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { twoFactorRequiredRoles } = req.body;
+
+    if (
+      !Array.isArray(twoFactorRequiredRoles) ||
+      twoFactorRequiredRoles.some((role) => !["admin", "host"].includes(role))
+    ) {
+      res.status(400).json({ message: "❗ twoFactorRequiredRoles must be an array of 'admin' and/or 'host'" });
+      return;
+    }
+
+    const settings = await getSecuritySettings();
+    settings.twoFactorRequiredRoles = Array.from(new Set(twoFactorRequiredRoles));
+    settings.updatedBy = req.user?._id;
+    await settings.save();
+
+    res.status(200).json({
+      message: "✅ Security settings updated successfully",
+      settings,
+    });
+  } catch (error) {
+    console.error("❌ Error updating security settings:", error);
+    res.status(500).json({ message: "❌ Server error while updating security settings" });
+  }
+};
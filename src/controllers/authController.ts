@@ -1,8 +1,49 @@
 import { Request, Response } from "express";
-import { User } from "../models/User";
-import { generateToken } from "../utils/generateToken";
+import { User, IUser } from "../models/User";
+import {
+  generateToken,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+} from "../utils/generateToken";
+import { sendEmail } from "../utils/emailService";
+import { generateRandomToken, hashToken } from "../utils/cryptoToken";
+import { isStrongPassword, PASSWORD_REQUIREMENTS_MESSAGE } from "../helpers/validatePassword";
+import { rotateRefreshToken, findRefreshTokenSession } from "../helpers/refreshTokenHelper";
+import { startSession, revokeSession, revokeAllUserSessions } from "../helpers/sessionHelper";
+import {
+  checkIpThrottle,
+  checkAccountThrottle,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+} from "../helpers/loginThrottle";
+import { isTwoFactorRequiredForRole } from "../helpers/securitySettingsHelper";
 import { AccountStatus } from "../@types/express/enums";
 
+/**
+ * Emails a signed verification link to a newly registered user.
+ * @param user - The user whose email address must be verified
+ */
+const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const token = generateEmailVerificationToken(user._id.toString());
+  const clientUrl = process.env.CLIENT_URL || "http://localhost:5173";
+  const verificationLink = `${clientUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendEmail(
+    user.email,
+    "Verify your email - GuaraniHost",
+    `
+    <h2>📧 Verify your email</h2>
+    <p>Hello ${user.firstName},</p>
+    <p>Thanks for signing up to GuaraniHost. Please confirm your email address to activate your account:</p>
+    <p><a href="${verificationLink}">Verify my email</a></p>
+    <p>This link expires in ${process.env.EMAIL_VERIFICATION_EXPIRES_IN || "24h"}. If you did not create an account, you can ignore this email.</p>
+    <br>
+    <p>Best regards,<br>GuaraniHost Team</p>
+    `
+  );
+};
+
 /* ======================== AUTH CONTROLLERS ======================== */
 
 /**
@@ -12,7 +53,7 @@ import { AccountStatus } from "../@types/express/enums";
  */
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { firstName, lastName, email, password, phone, address, role } = req.body;
+    const { firstName, lastName, email, password, phone, address } = req.body;
 
     // Validate required fields
     if (!firstName || !lastName || !email || !password || !phone || !address) {
@@ -35,16 +76,13 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     }
 
     // Validate password strength
-    const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/;
-    if (!passwordRegex.test(password)) {
-      res.status(400).json({
-        message:
-          "❗ Password must contain at least 8 characters, one uppercase, one lowercase, and one number.",
-      });
+    if (!isStrongPassword(password)) {
+      res.status(400).json({ message: PASSWORD_REQUIREMENTS_MESSAGE });
       return;
     }
 
-    // Create new user (password will be hashed via pre-save hook)
+    // Create new user (password will be hashed via pre-save hook).
+    // Self-registration is always "user": hosts apply via /api/users/host-application
     const newUser = new User({
       firstName: firstName.trim(),
       lastName: lastName.trim(),
@@ -52,16 +90,21 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       password: password.trim(),
       phone: phone.trim(),
       address: address.trim(),
-      role: role?.toLowerCase() || "user",
-      accountStatus: AccountStatus.ACTIVE,
+      role: "user",
+      accountStatus: AccountStatus.PENDING_VERIFICATION,
     });
 
     await newUser.save();
 
-    const token = generateToken(newUser._id.toString());
+    // Account stays pending until the emailed link is confirmed
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (emailError) {
+      console.error("❌ Error sending verification email:", emailError);
+    }
 
     res.status(201).json({
-      message: "✅ User registered successfully",
+      message: "✅ User registered successfully. Please check your email to verify your account",
       user: {
         id: newUser._id,
         firstName: newUser.firstName,
@@ -72,7 +115,6 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         role: newUser.role,
         accountStatus: newUser.accountStatus,
       },
-      token,
     });
   } catch (error: any) {
     console.error("❌ Error in register:", error);
@@ -80,6 +122,161 @@ export const register = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * @desc    Exchange a refresh token for a new access token (rotates the refresh token)
+ * @route   POST /api/auth/refresh
+ * @access  Public
+ */
+export const refreshAccessToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      res.status(400).json({ message: "❗ Refresh token is required" });
+      return;
+    }
+
+    const rotation = await rotateRefreshToken(refreshToken, {
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+
+    if (!rotation.valid || !rotation.userId || !rotation.sessionId) {
+      res.status(401).json({ message: `❌ ${rotation.message || "Invalid refresh token"}` });
+      return;
+    }
+
+    // Account may have been suspended or deleted since the last refresh
+    const user = await User.findById(rotation.userId);
+    if (
+      !user ||
+      user.accountStatus === AccountStatus.SUSPENDED ||
+      user.accountStatus === AccountStatus.DELETED
+    ) {
+      await revokeAllUserSessions(rotation.userId, "Account is not active");
+      res.status(401).json({ message: "❌ Unauthorized: account is not active" });
+      return;
+    }
+
+    res.status(200).json({
+      message: "✅ Token refreshed successfully",
+      token: generateToken(user._id.toString(), rotation.sessionId),
+      refreshToken: rotation.refreshToken,
+    });
+  } catch (error) {
+    console.error("❌ Error in refreshAccessToken:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
+
+/**
+ * @desc    Log out by revoking the session of the given refresh token
+ * @route   POST /api/auth/logout
+ * @access  Public
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body || {};
+
+    if (!refreshToken) {
+      res.status(400).json({ message: "❗ Refresh token is required" });
+      return;
+    }
+
+    const sessionId = await findRefreshTokenSession(refreshToken);
+    if (sessionId) {
+      await revokeSession(sessionId, "Logged out");
+    }
+
+    res.status(200).json({ message: "✅ Logged out successfully" });
+  } catch (error) {
+    console.error("❌ Error in logout:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
+
+/**
+ * @desc    Verify a user's email using the token from the verification link
+ * @route   POST /api/auth/verify-email
+ * @access  Public
+ */
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      res.status(400).json({ message: "❗ Verification token is required" });
+      return;
+    }
+
+    let userId: string;
+    try {
+      userId = verifyEmailVerificationToken(token);
+    } catch {
+      res.status(400).json({ message: "❗ Invalid or expired verification link" });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(400).json({ message: "❗ Invalid or expired verification link" });
+      return;
+    }
+
+    // Links are single-use: only pending accounts can be activated
+    if (user.accountStatus !== AccountStatus.PENDING_VERIFICATION) {
+      res.status(400).json({ message: "❗ Email is already verified" });
+      return;
+    }
+
+    user.accountStatus = AccountStatus.ACTIVE;
+    user.emailVerifiedAt = new Date();
+    await user.save();
+
+    res.status(200).json({
+      message: "✅ Email verified successfully. You can now log in",
+      user: {
+        id: user._id,
+        email: user.email,
+        accountStatus: user.accountStatus,
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error in verifyEmail:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
+
+/**
+ * @desc    Resend the email verification link
+ * @route   POST /api/auth/resend-verification
+ * @access  Public
+ */
+export const resendVerificationEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ message: "❗ Email is required" });
+      return;
+    }
+
+    const user = await User.findOne({ email: email.trim().toLowerCase() });
+
+    // Only pending accounts receive a new link; the response never reveals which ones exist
+    if (user && user.accountStatus === AccountStatus.PENDING_VERIFICATION) {
+      await sendVerificationEmail(user);
+    }
+
+    res.status(200).json({
+      message: "✅ If the account exists and is pending verification, a new link has been sent",
+    });
+  } catch (error) {
+    console.error("❌ Error in resendVerificationEmail:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
+
 /**
  * @desc    Log in an existing user
  * @route   POST /api/auth/login
@@ -95,20 +292,60 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const clientIp = req.ip || "unknown";
+
+    // Progressive delay / block per client IP
+    const ipThrottle = await checkIpThrottle(clientIp);
+    if (!ipThrottle.allowed) {
+      res.set("Retry-After", String(ipThrottle.retryAfterSeconds));
+      res.status(429).json({
+        message: "⏳ Too many login attempts, please try again later",
+        retryAfterSeconds: ipThrottle.retryAfterSeconds,
+      });
+      return;
+    }
+
     // Find user by email
     const user = await User.findOne({ email });
     if (!user) {
+      await recordFailedLogin(clientIp);
       res.status(401).json({ message: "❗ Invalid credentials" });
       return;
     }
 
+    // Temporary lockout and progressive delay per account (checked before the password)
+    const accountThrottle = checkAccountThrottle(user);
+    if (!accountThrottle.allowed) {
+      res.set("Retry-After", String(accountThrottle.retryAfterSeconds));
+      res.status(accountThrottle.locked ? 423 : 429).json({
+        message: accountThrottle.locked
+          ? "🔒 Account is temporarily locked due to too many failed login attempts"
+          : "⏳ Too many login attempts, please try again later",
+        retryAfterSeconds: accountThrottle.retryAfterSeconds,
+      });
+      return;
+    }
+
     // Compare passwords using model method
     const isMatch = await user.comparePassword(password);
     if (!isMatch) {
+      const { locked } = await recordFailedLogin(clientIp, user);
+      if (locked) {
+        res.status(423).json({
+          message: "🔒 Account is temporarily locked due to too many failed login attempts",
+        });
+        return;
+      }
       res.status(401).json({ message: "❗ Invalid credentials" });
       return;
     }
 
+    // With 2FA the counter is only cleared once the code is verified, so a known
+    // password cannot be used to reset the count of wrong codes
+    if (!user.twoFactorEnabled) {
+      await recordSuccessfulLogin(user);
+    }
+
     // Check account status
     const status = user.accountStatus?.toLowerCase();
     if (status === AccountStatus.SUSPENDED) {
@@ -124,8 +361,31 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate JWT token
-    const token = generateToken(user._id.toString());
+    // Two-step login: a challenge token replaces the JWT until a TOTP code is verified
+    if (user.twoFactorEnabled) {
+      res.status(200).json({
+        message: "🔐 Two-factor verification required",
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString(), "2fa_login"),
+      });
+      return;
+    }
+
+    // Roles with mandatory 2FA must enroll before receiving a JWT
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      res.status(200).json({
+        message: "🔐 Two-factor authentication is required for your role, please set it up",
+        twoFactorSetupRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString(), "2fa_setup"),
+      });
+      return;
+    }
+
+    // Start a session: short-lived access token and a rotating refresh token
+    const { token, refreshToken } = await startSession(user._id, {
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+    });
 
     res.status(200).json({
       message: "✅ Login successful",
@@ -140,9 +400,128 @@ export const login = async (req: Request, res: Response): Promise<void> => {
         accountStatus: user.accountStatus,
       },
       token,
+      refreshToken,
     });
   } catch (error) {
     console.error("❌ Error in login:", error);
     res.status(500).json({ message: "❌ Server error" });
   }
 };
+
+/**
+ * @desc    Send a password reset link to the given email
+ * @route   POST /api/auth/forgot-password
+ * @access  Public
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ message: "❗ Email is required" });
+      return;
+    }
+
+    const user = await User.findOne({ email: email.trim().toLowerCase() });
+
+    // Same response whether or not the email exists, so accounts cannot be enumerated
+    if (user && user.accountStatus !== AccountStatus.DELETED) {
+      const resetToken = generateRandomToken();
+      const expiresInMinutes = Number(process.env.PASSWORD_RESET_EXPIRES_MINUTES) || 60;
+
+      user.passwordResetTokenHash = hashToken(resetToken);
+      user.passwordResetExpires = new Date(Date.now() + expiresInMinutes * 60 * 1000);
+      await user.save();
+
+      const clientUrl = process.env.CLIENT_URL || "http://localhost:5173";
+      const resetLink = `${clientUrl}/reset-password?token=${resetToken}`;
+
+      try {
+        await sendEmail(
+          user.email,
+          "Reset your password - GuaraniHost",
+          `
+          <h2>🔑 Password reset</h2>
+          <p>Hello ${user.firstName},</p>
+          <p>We received a request to reset your password. Use the link below to choose a new one:</p>
+          <p><a href="${resetLink}">Reset my password</a></p>
+          <p>This link can be used once and expires in ${expiresInMinutes} minutes. If you did not request it, you can ignore this email.</p>
+          <br>
+          <p>Best regards,<br>GuaraniHost Team</p>
+          `
+        );
+      } catch (emailError) {
+        console.error("❌ Error sending password reset email:", emailError);
+      }
+    }
+
+    res.status(200).json({
+      message: "✅ If an account exists for this email, a password reset link has been sent",
+    });
+  } catch (error) {
+    console.error("❌ Error in forgotPassword:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
+
+/**
+ * @desc    Reset the password using a token from the reset link
+ * @route   POST /api/auth/reset-password
+ * @access  Public
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      res.status(400).json({ message: "❗ Token and new password are required" });
+      return;
+    }
+
+    if (!isStrongPassword(password)) {
+      res.status(400).json({ message: PASSWORD_REQUIREMENTS_MESSAGE });
+      return;
+    }
+
+    const user = await User.findOne({
+      passwordResetTokenHash: hashToken(token),
+      passwordResetExpires: { $gt: new Date() },
+    });
+
+    if (!user) {
+      res.status(400).json({ message: "❗ Invalid or expired reset link" });
+      return;
+    }
+
+    // Consume the token and set the new password (hashed and passwordChangedAt set in pre-save hook)
+    user.password = password.trim();
+    user.passwordResetTokenHash = undefined;
+    user.passwordResetExpires = undefined;
+    await user.save();
+
+    // Sign out every device
+    await revokeAllUserSessions(user._id, "Password reset");
+
+    try {
+      await sendEmail(
+        user.email,
+        "Your password was changed - GuaraniHost",
+        `
+        <h2>🔒 Password changed</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>Your GuaraniHost password was just reset. All existing sessions have been signed out.</p>
+        <p>If you did not do this, please contact our support team immediately.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+    } catch (emailError) {
+      console.error("❌ Error sending password changed email:", emailError);
+    }
+
+    res.status(200).json({ message: "✅ Password reset successfully. Please log in again" });
+  } catch (error) {
+    console.error("❌ Error in resetPassword:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
@@ -4,16 +4,153 @@
  */
 
 import { Request, Response } from "express";
-import { Booking } from "../models/BookingModel";
+import { Booking, IBooking, IBookingModification } from "../models/BookingModel";
+import { Property } from "../models/PropertyModel";
+import { TourPackage } from "../models/TourPackageModel";
+import { ITourDeparture } from "../models/TourDepartureModel";
 import { IUser } from "../models/User";
 import { uploadImagesToCloudinary } from "../helpers/uploadImagesToCloudinary";
 import { deleteImageFromCloudinary } from "../helpers/deleteImageFromCloudinary";
 import { sendEmail } from "../utils/emailService";
-import { BookingStatus, PaymentStatus } from "../@types/express/enums";
+import { BookingMode, BookingStatus, PaymentStatus } from "../@types/express/enums";
 import { validateBookingDates } from "../helpers/availabilityHelper";
 import { validateBookingData } from "../helpers/validateBooking";
+import { transitionBooking, recordCancellationRefund } from "../helpers/bookingLifecycle";
+import { reserveNights, releaseNights } from "../helpers/nightReservationHelper";
+import { computePaymentDeadline } from "../helpers/paymentDeadlineHelper";
+import { buildRefundBreakdownHtml, snapshotCancellationPolicy } from "../helpers/cancellationPolicyHelper";
+import { calculateBookingQuote, pricesMatch, toPriceBreakdown, PriceQuote } from "../helpers/pricingHelper";
+import { changeBookingSeats, resolveTourDeparture } from "../helpers/tourDepartureHelper";
+import { requestBookingModification } from "../helpers/bookingModificationHelper";
+import { applyBookingMode, sendBookingRequestEmail } from "../helpers/bookingRequestHelper";
+import { parseGuestBreakdown } from "../helpers/capacityHelper";
+import { canBookDuringDeletion } from "../helpers/accountDeletionHelper";
 import { Types } from "mongoose";
 
+/**
+ * Emails the host of the booked property or tour about a guest's change request
+ */
+const sendModificationRequestEmail = async (booking: IBooking, modification: IBookingModification): Promise<void> => {
+  const propertyId = (booking.property as any)?._id;
+  const tourId = (booking.tourPackage as any)?._id;
+
+  const listing = propertyId
+    ? await Property.findById(propertyId).select("title host").populate("host", "firstName email")
+    : await TourPackage.findById(tourId).select("title host").populate("host", "firstName email");
+
+  const host = listing?.host as unknown as IUser | undefined;
+  if (!listing || !host?.email) return;
+
+  const difference = modification.priceDifference >= 0
+    ? `+$${modification.priceDifference}`
+    : `-$${Math.abs(modification.priceDifference)}`;
+
+  try {
+    await sendEmail(
+      host.email,
+      "Booking Change Requested - GuaraniHost",
+      `
+      <h2>📝 Booking Change Requested</h2>
+      <p>Hello ${host.firstName},</p>
+      <p>A guest asked to change their booking for <strong>${listing.title}</strong>.</p>
+      <ul>
+        <li>Dates: ${modification.previousCheckIn.toLocaleDateString()} - ${modification.previousCheckOut.toLocaleDateString()} → ${modification.checkIn.toLocaleDateString()} - ${modification.checkOut.toLocaleDateString()}</li>
+        <li>Guests: ${modification.previousGuests} → ${modification.guests}</li>
+        <li>Total: $${modification.previousTotalPrice} → $${modification.totalPrice} (${difference})</li>
+      </ul>
+      <p>Please accept or decline the request from your bookings dashboard.</p>
+      <br>
+      <p>Best regards,<br>GuaraniHost Team</p>
+      `
+    );
+  } catch (error) {
+    console.error("❌ Error sending modification request email:", error);
+  }
+};
+
+/**
+ * @desc    Get a server-side price quote for a property stay or a tour
+ * @route   POST /api/bookings/quote
+ * @access  Public
+ * @body    { property?, tourPackage?, tourDeparture?, checkIn, checkOut, guests }
+ */
+export const getBookingQuote = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { property, tourPackage, tourDeparture } = req.body;
+    let { checkIn, checkOut } = req.body;
+
+    if (property && tourPackage) {
+      res.status(400).json({
+        success: false,
+        message: "❗ Cannot book both property and tour package in same booking"
+      });
+      return;
+    }
+
+    // Tours are priced for a departure, which sets the dates
+    let departure: ITourDeparture | undefined;
+    if (tourPackage) {
+      const resolved = await resolveTourDeparture(tourPackage, tourDeparture);
+      if (!resolved.valid) {
+        res.status(400).json({
+          success: false,
+          message: resolved.message
+        });
+        return;
+      }
+      departure = resolved.departure;
+      checkIn = resolved.checkIn;
+      checkOut = resolved.checkOut;
+    }
+
+    if (!checkIn || !checkOut) {
+      res.status(400).json({
+        success: false,
+        message: "❗ Check-in and check-out dates are required"
+      });
+      return;
+    }
+
+    const guests = parseGuestBreakdown(req.body);
+    if (!guests.valid) {
+      res.status(400).json({
+        success: false,
+        message: guests.message
+      });
+      return;
+    }
+
+    const result = await calculateBookingQuote({
+      property,
+      tourPackage,
+      checkIn: new Date(checkIn),
+      checkOut: new Date(checkOut),
+      guests: guests.breakdown!,
+      tourDeparture: departure,
+    });
+
+    if (!result.valid || !result.quote) {
+      res.status(400).json({
+        success: false,
+        message: result.message || "❗ Unable to price this booking"
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Price quote calculated successfully",
+      data: { quote: result.quote }
+    });
+  } catch (error: any) {
+    console.error("❌ Error calculating price quote:", error);
+    res.status(500).json({
+      success: false,
+      message: "❌ Server error"
+    });
+  }
+};
+
 /**
  * @desc    Create booking for ANY property/tour (user can book from any host)
  * @route   POST /api/bookings
@@ -21,7 +158,8 @@ import { Types } from "mongoose";
  */
 export const createBooking = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { property, tourPackage, checkIn, checkOut, guests, totalPrice, paymentDetails } = req.body;
+    const { property, tourPackage, tourDeparture, totalPrice, paymentDetails } = req.body;
+    let { checkIn, checkOut } = req.body;
     const userId = req.user?._id;
 
     if (!userId) {
@@ -32,6 +170,33 @@ export const createBooking = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    // Tour bookings are made for a scheduled departure, which sets the dates
+    let departure: ITourDeparture | undefined;
+    if (tourPackage && !property) {
+      const resolved = await resolveTourDeparture(tourPackage, tourDeparture);
+      if (!resolved.valid) {
+        res.status(400).json({
+          success: false,
+          message: resolved.message
+        });
+        return;
+      }
+      departure = resolved.departure;
+      checkIn = resolved.checkIn;
+      checkOut = resolved.checkOut;
+    }
+
+    // Adults, children and infants (or a plain guest count from older clients)
+    const guestInput = parseGuestBreakdown(req.body);
+    if (!guestInput.valid) {
+      res.status(400).json({ 
+        success: false,
+        message: guestInput.message 
+      });
+      return;
+    }
+    const guests = guestInput.guests!;
+
     // Validate basic booking data (works for both properties AND tours)
     validateBookingData({ 
       checkIn, 
@@ -59,8 +224,32 @@ export const createBooking = async (req: Request, res: Response): Promise<void>
       }
     }
 
-    // For tours, we could add capacity validation here if needed
-    // Tours typically don't have date conflicts like properties do
+    // Price the booking on the server (capacity included); the client total must match the quote
+    const pricing = await calculateBookingQuote({
+      property,
+      tourPackage,
+      checkIn: new Date(checkIn),
+      checkOut: new Date(checkOut),
+      guests: guestInput.breakdown!,
+      tourDeparture: departure,
+    });
+
+    if (!pricing.valid || !pricing.quote) {
+      res.status(400).json({
+        success: false,
+        message: pricing.message || "❗ Unable to price this booking"
+      });
+      return;
+    }
+
+    if (!pricesMatch(totalPrice, pricing.quote.total)) {
+      res.status(400).json({
+        success: false,
+        message: `❗ Total price does not match the current price of $${pricing.quote.total}`,
+        data: { quote: pricing.quote }
+      });
+      return;
+    }
 
     // Build booking data object
     const bookingData: any = {
@@ -68,8 +257,11 @@ export const createBooking = async (req: Request, res: Response): Promise<void>
       checkIn: new Date(checkIn),
       checkOut: new Date(checkOut),
       guests,
-      totalPrice,
+      ...guestInput.breakdown,
+      totalPrice: pricing.quote.total,
+      priceBreakdown: toPriceBreakdown(pricing.quote),
       paymentStatus: PaymentStatus.PENDING,
+      paymentDeadline: await computePaymentDeadline({ property, tourPackage }, new Date(checkIn)),
       paymentDetails: paymentDetails?.trim() || "",
       status: BookingStatus.PENDING,
     };
@@ -78,16 +270,74 @@ export const createBooking = async (req: Request, res: Response): Promise<void>
     if (property) bookingData.property = property;
     if (tourPackage) bookingData.tourPackage = tourPackage;
 
-    // Handle payment images upload if provided
-    if (req.files && "paymentImage" in req.files) {
-      const paymentImageFiles = req.files["paymentImage"] as Express.Multer.File[];
-      const imageUrls = await uploadImagesToCloudinary(paymentImageFiles);
-      bookingData.paymentImages = imageUrls;
+    const newBooking = new Booking(bookingData);
+
+    // Instant-book listings confirm right away; otherwise the host has until a deadline to answer
+    const listing = property ? await Property.findById(property) : await TourPackage.findById(tourPackage);
+    if (!listing) {
+      res.status(404).json({
+        success: false,
+        message: `🚫 ${property ? 'Property' : 'Tour package'} not found`
+      });
+      return;
     }
 
-    // Create and save the booking
-    const newBooking = new Booking(bookingData);
-    await newBooking.save();
+    // Accounts being deleted neither book nor get booked
+    const deletionCheck = await canBookDuringDeletion(userId, listing.host);
+    if (!deletionCheck.valid) {
+      res.status(400).json({
+        success: false,
+        message: deletionCheck.message
+      });
+      return;
+    }
+
+    const bookingMode = await applyBookingMode(newBooking, listing);
+    snapshotCancellationPolicy(newBooking, listing);
+
+    // Hold the nights atomically: of two concurrent requests for the same dates only one succeeds
+    if (property) {
+      const reservation = await reserveNights(property, newBooking.checkIn, newBooking.checkOut, newBooking._id as Types.ObjectId);
+
+      if (!reservation.valid) {
+        res.status(409).json({ 
+          success: false,
+          message: reservation.message
+        });
+        return;
+      }
+    }
+
+    const saveBooking = async () => {
+      // Handle payment images upload if provided
+      if (req.files && "paymentImage" in req.files) {
+        const paymentImageFiles = req.files["paymentImage"] as Express.Multer.File[];
+        newBooking.paymentImages = await uploadImagesToCloudinary(paymentImageFiles);
+      }
+
+      // Save the booking
+      await newBooking.save();
+    };
+
+    if (departure) {
+      // Take the seats atomically: the last seats go to only one of concurrent requests
+      const seats = await changeBookingSeats(newBooking, departure._id as Types.ObjectId, guests, saveBooking);
+
+      if (!seats.valid) {
+        res.status(409).json({
+          success: false,
+          message: seats.message
+        });
+        return;
+      }
+    } else {
+      try {
+        await saveBooking();
+      } catch (error) {
+        if (property) await releaseNights(newBooking._id as Types.ObjectId);
+        throw error;
+      }
+    }
 
     // Populate the booking for response
     await newBooking.populate([
@@ -126,10 +376,20 @@ export const createBooking = async (req: Request, res: Response): Promise<void>
     //   );
     // }
 
+    if (bookingMode.mode === BookingMode.REQUEST) {
+      await sendBookingRequestEmail(newBooking, listing, bookingMode.unmetRequirements);
+    }
+
     res.status(201).json({
       success: true,
-      message: `✅ ${property ? 'Property' : 'Tour'} booking created successfully`,
-      data: { booking: newBooking }
+      message: bookingMode.mode === BookingMode.INSTANT
+        ? `✅ ${property ? 'Property' : 'Tour'} booking confirmed instantly`
+        : `📨 Booking request sent. The host has until ${newBooking.hostResponseDeadline!.toLocaleString()} to respond`,
+      data: {
+        booking: newBooking,
+        bookingMode: bookingMode.mode,
+        unmetRequirements: bookingMode.unmetRequirements
+      }
     });
   } catch (error: any) {
     console.error("❌ Error creating booking:", error);
@@ -253,7 +513,7 @@ export const getUserBookingById = async (req: Request, res: Response): Promise<v
  */
 export const updateUserBooking = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { checkIn, checkOut, guests, paymentDetails, removedPaymentImages } = req.body;
+    const { checkIn, checkOut, tourDeparture, guests, adults, children, infants, totalPrice, paymentDetails, removedPaymentImages } = req.body;
     const userId = req.user?._id;
     const bookingId = req.params.id;
 
@@ -288,42 +548,28 @@ export const updateUserBooking = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    // Validate dates if changing
-    if (checkIn && checkOut) {
-      validateBookingData({ 
-        checkIn, 
-        checkOut, 
-        guests: guests || booking.guests, 
-        totalPrice: booking.totalPrice,
-        property: booking.property?.toString(),
-        tourPackage: booking.tourPackage?.toString()
-      });
-      
-      // Validate availability for properties if dates are changing
-      if (booking.property && checkIn && checkOut) {
-        const availabilityValidation = await validateBookingDates(
-          booking.property.toString(),
-          new Date(checkIn),
-          new Date(checkOut),
-          booking.id 
-        );
+    // Date or guest changes go to the host as a repriced modification request
+    let modificationRequest: { modification?: IBookingModification; quote?: PriceQuote } | undefined;
+    if (checkIn || checkOut || tourDeparture || guests || adults || children !== undefined || infants !== undefined) {
+      const request = await requestBookingModification(
+        booking,
+        { checkIn, checkOut, tourDeparture, guests, adults, children, infants },
+        totalPrice !== undefined ? Number(totalPrice) : undefined
+      );
 
-        if (!availabilityValidation.valid) {
-          res.status(400).json({ 
-            success: false,
-            message: availabilityValidation.message || "Property not available for selected dates"
-          });
-          return;
-        }
+      if (!request.valid) {
+        res.status(400).json({
+          success: false,
+          message: request.message,
+          data: request.quote ? { quote: request.quote } : undefined
+        });
+        return;
       }
 
-      // For tour packages, we might add different validation logic here if needed
+      modificationRequest = request;
     }
 
     // Update allowed fields (users can't change status/paymentStatus)
-    if (checkIn) booking.checkIn = new Date(checkIn);
-    if (checkOut) booking.checkOut = new Date(checkOut);
-    if (guests) booking.guests = guests;
     if (paymentDetails !== undefined) booking.paymentDetails = paymentDetails?.trim();
 
     // Handle payment images removal
@@ -348,6 +594,10 @@ export const updateUserBooking = async (req: Request, res: Response): Promise<vo
 
     await booking.save();
 
+    if (modificationRequest?.modification) {
+      await sendModificationRequestEmail(booking, modificationRequest.modification);
+    }
+
     // Populate for response
     await booking.populate([
       { path: 'property', select: 'title city address pricePerNight imageUrls host' },
@@ -385,8 +635,14 @@ export const updateUserBooking = async (req: Request, res: Response): Promise<vo
 
     res.status(200).json({
       success: true,
-      message: "✅ Booking updated successfully",
-      data: { booking }
+      message: modificationRequest
+        ? "📨 Change request sent to the host. Your booking keeps its current dates until the host accepts"
+        : "✅ Booking updated successfully",
+      data: {
+        booking,
+        modification: modificationRequest?.modification,
+        quote: modificationRequest?.quote
+      }
     });
   } catch (error: any) {
     console.error("❌ Error updating booking:", error);
@@ -445,79 +701,79 @@ export const cancelUserBooking = async (req: Request, res: Response): Promise<vo
 
     console.log(`✅ Found booking: ${booking._id}, Status: ${booking.status}`);
 
-    // 4. Validate that booking can be cancelled
-    if (booking.status === BookingStatus.CANCELLED) {
-      res.status(400).json({ 
-        success: false,
-        message: "❗ Booking is already cancelled" 
-      });
-      return;
-    }
+    // 4. Cancel through the booking lifecycle (computes the refund of paid bookings)
+    const previousStatus = booking.status;
+    const transition = await transitionBooking(booking, BookingStatus.CANCELLED, "guest", { reason, userId: req.user?._id });
 
-    if (booking.status === BookingStatus.COMPLETED) {
+    if (!transition.valid) {
       res.status(400).json({ 
         success: false,
-        message: "❗ Cannot cancel completed bookings" 
+        message: transition.message 
       });
       return;
     }
 
     console.log(`🔄 Cancelling booking ${booking._id}`);
 
-    // 5. Update booking status to cancelled
-    booking.status = BookingStatus.CANCELLED;
-    booking.cancelledAt = new Date();
-    booking.cancellationReason = reason || "Cancelled by guest";
-
-    // 6. If booking was paid, mark payment as refunded
-    if (booking.paymentStatus === PaymentStatus.PAID) {
-      booking.paymentStatus = PaymentStatus.REFUNDED;
-      console.log(`💰 Payment status changed to REFUNDED for booking ${booking._id}`);
+    // 5. Save changes to database, unless the host or an admin changed the status meanwhile
+    booking.$where = { status: previousStatus };
+    try {
+      await booking.save();
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") {
+        res.status(409).json({
+          success: false,
+          message: "❗ The booking status changed meanwhile, please reload it"
+        });
+        return;
+      }
+      throw error;
     }
-
-    // 7. Save changes to database
-    await booking.save();
     console.log(`✅ Booking ${booking._id} successfully cancelled`);
 
-    // 8. Populate related data for response
+    // Only a saved cancellation is refunded
+    await recordCancellationRefund(booking, { role: "guest", userId: req.user?._id });
+
+    // 6. Populate related data for response
     await booking.populate([
       { path: 'property', select: 'title city address pricePerNight imageUrls host' },
       { path: 'tourPackage', select: 'title description price duration host' }
     ]);
 
-    // 9. Optional: Send cancellation confirmation email
-    // const user = booking.user as unknown as IUser;
-    // if (user?.email) {
-    //   const bookingType = booking.property ? 'property' : 'tour';
-    //   const bookingTitle = booking.property ? 
-    //     (booking.property as any)?.title : 
-    //     (booking.tourPackage as any)?.title;
-
-    //   await sendEmail(
-    //     user.email,
-    //     "Booking Cancelled - GuaraniHost",
-    //     `
-    //     <h2>❌ Booking Cancelled</h2>
-    //     <p>Hello ${user.firstName},</p>
-    //     <p>Your ${bookingType} booking for <strong>${bookingTitle}</strong> has been cancelled.</p>
-    //     <p><strong>Booking Details:</strong></p>
-    //     <ul>
-    //       <li>Check-in: ${booking.checkIn.toLocaleDateString()}</li>
-    //       <li>Check-out: ${booking.checkOut.toLocaleDateString()}</li>
-    //       <li>Guests: ${booking.guests}</li>
-    //       <li>Total Price: $${booking.totalPrice}</li>
-    //       <li>Cancellation Reason: ${booking.cancellationReason}</li>
-    //     </ul>
-    //     ${booking.paymentStatus === PaymentStatus.REFUNDED ? 
-    //       '<p><strong>Refund Information:</strong> Your payment will be refunded according to our refund policy.</p>' : 
-    //       ''
-    //     }
-    //     <p>The host has been notified of this cancellation.</p>
-    //     <br>
-    //     <p>Best regards,<br>GuaraniHost Team</p>
-    //     `
-    //   );
-    // }
+    // 7. Send cancellation confirmation email with the refund breakdown
+    const user = booking.user as unknown as IUser;
+    if (user?.email) {
+      const bookingType = booking.property ? 'property' : 'tour';
+      const bookingTitle = booking.property ? 
+        (booking.property as any)?.title : 
+        (booking.tourPackage as any)?.title;
+
+      try {
+        await sendEmail(
+          user.email,
+          "Booking Cancelled - GuaraniHost",
+          `
+          <h2>❌ Booking Cancelled</h2>
+          <p>Hello ${user.firstName},</p>
+          <p>Your ${bookingType} booking for <strong>${bookingTitle}</strong> has been cancelled.</p>
+          <p><strong>Booking Details:</strong></p>
+          <ul>
+            <li>Check-in: ${booking.checkIn.toLocaleDateString()}</li>
+            <li>Check-out: ${booking.checkOut.toLocaleDateString()}</li>
+            <li>Guests: ${booking.guests}</li>
+            <li>Total Price: $${booking.totalPrice}</li>
+            <li>Cancellation Reason: ${booking.cancellationReason}</li>
+          </ul>
+          ${buildRefundBreakdownHtml(booking.refund)}
+          <p>The host has been notified of this cancellation.</p>
+          <br>
+          <p>Best regards,<br>GuaraniHost Team</p>
+          `
+        );
+      } catch (error) {
+        console.error("❌ Error sending cancellation email:", error);
+      }
+    }
 
     res.status(200).json({
       success: true,
@@ -525,12 +781,13 @@ export const cancelUserBooking = async (req: Request, res: Response): Promise<vo
       data: { 
         bookingId: booking._id,
         cancellationReason: booking.cancellationReason,
-        refundStatus: booking.paymentStatus === PaymentStatus.REFUNDED ? 'Refund initiated' : 'No refund applicable'
+        refundStatus: booking.refund?.amount ? 'Refund initiated' : 'No refund applicable',
+        refund: booking.refund
       }
     });
 
   } catch (error: any) {
-    // 10. Enhanced error logging
+    // 8. Enhanced error logging
     console.error("❌ Error cancelling booking:", {
       error: error.message,
       stack: error.stack,
@@ -0,0 +1,380 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Booking } from "../models/BookingModel";
+import { uploadImagesToCloudinary } from "../helpers/uploadImagesToCloudinary";
+import {
+  findParticipantConversation,
+  getOrCreateBookingConversation,
+  getOrCreateInquiryConversation,
+  getUnreadTotal,
+  listConversations,
+  listMessages,
+  markConversationRead,
+  postMessage,
+  validateMessageInput,
+} from "../helpers/conversationHelper";
+import { ConversationType } from "../@types/express/enums";
+
+/* ====================== GUEST CONVERSATIONS ====================== */
+
+/**
+ * @desc    Get the guest's conversations (bookings and inquiries), latest activity first
+ * @route   GET /api/conversations
+ * @access  Private (user)
+ * @query   page, limit, type ("booking" | "inquiry")
+ */
+export const getUserConversations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized"
+      });
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const filter: Record<string, unknown> = { guest: userId };
+    if (Object.values(ConversationType).includes(req.query.type as ConversationType)) {
+      filter.type = req.query.type;
+    }
+
+    const result = await listConversations(filter, page, limit);
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Conversations retrieved successfully",
+      data: result
+    });
+  } catch (error) {
+    console.error("❌ Error fetching conversations:", error);
+    res.status(500).json({
+      success: false,
+      message: "❌ Server error"
+    });
+  }
+};
+
+/**
+ * @desc    Get the guest's number of unread messages
+ * @route   GET /api/conversations/unread-count
+ * @access  Private (user)
+ */
+export const getUserUnreadCount = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized"
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Unread count retrieved successfully",
+      data: { unread: await getUnreadTotal(userId, "guest") }
+    });
+  } catch (error) {
+    console.error("❌ Error counting unread messages:", error);
+    res.status(500).json({
+      success: false,
+      message: "❌ Server error"
+    });
+  }
+};
+
+/**
+ * @desc    Ask the host about a property or tour before booking (reuses the
+ *          guest's existing inquiry thread for that listing)
+ * @route   POST /api/conversations/inquiries
+ * @access  Private (user)
+ * @body    { property?, tourPackage?, body }
+ */
+export const sendUserInquiry = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const { property, tourPackage, body } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized"
+      });
+      return;
+    }
+
+    // Validate the message before uploading its images
+    const images = req.files && "images" in req.files ? req.files["images"] as Express.Multer.File[] : [];
+    const check = validateMessageInput(body, images.length);
+    if (!check.valid) {
+      res.status(400).json({
+        success: false,
+        message: check.message
+      });
+      return;
+    }
+
+    const inquiry = await getOrCreateInquiryConversation(userId, { property, tourPackage });
+    if (!inquiry.valid) {
+      res.status(400).json({
+        success: false,
+        message: inquiry.message
+      });
+      return;
+    }
+
+    // Handle message images upload if provided
+    const imageUrls = images.length ? await uploadImagesToCloudinary(images) : [];
+
+    const result = await postMessage(
+      inquiry.conversation!,
+      { userId, role: "guest", name: req.user!.firstName },
+      { body, imageUrls }
+    );
+
+    if (!result.valid) {
+      res.status(400).json({
+        success: false,
+        message: result.message
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "📨 Inquiry sent to the host",
+      data: {
+        conversation: inquiry.conversation,
+        message: result.sent
+      }
+    });
+  } catch (error: any) {
+    console.error("❌ Error sending inquiry:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "❌ Server error"
+    });
+  }
+};
+
+/**
+ * @desc    Get (or open) the conversation with the host of one of the guest's bookings
+ * @route   GET /api/conversations/bookings/:bookingId
+ * @access  Private (user)
+ */
+export const getUserBookingConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized"
+      });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(req.params.bookingId)) {
+      res.status(400).json({
+        success: false,
+        message: "❌ Invalid booking ID"
+      });
+      return;
+    }
+
+    const booking = await Booking.findOne({ _id: req.params.bookingId, user: userId });
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        message: "🚫 Booking not found or access denied"
+      });
+      return;
+    }
+
+    const conversation = await getOrCreateBookingConversation(booking);
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "🚫 The booked listing no longer exists"
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Conversation retrieved successfully",
+      data: { conversation }
+    });
+  } catch (error) {
+    console.error("❌ Error opening booking conversation:", error);
+    res.status(500).json({
+      success: false,
+      message: "❌ Server error"
+    });
+  }
+};
+
+/**
+ * @desc    Get the messages of one of the guest's conversations, newest first
+ * @route   GET /api/conversations/:id/messages
+ * @access  Private (user)
+ * @query   page, limit
+ */
+export const getUserConversationMessages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized"
+      });
+      return;
+    }
+
+    const conversation = await findParticipantConversation(req.params.id, userId, "guest");
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "🚫 Conversation not found or access denied"
+      });
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Messages retrieved successfully",
+      data: {
+        conversation,
+        ...(await listMessages(conversation._id as string, page, limit))
+      }
+    });
+  } catch (error) {
+    console.error("❌ Error fetching messages:", error);
+    res.status(500).json({
+      success: false,
+      message: "❌ Server error"
+    });
+  }
+};
+
+/**
+ * @desc    Send a message (text and/or images) in one of the guest's conversations
+ * @route   POST /api/conversations/:id/messages
+ * @access  Private (user)
+ * @body    { body? }
+ */
+export const sendUserMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized"
+      });
+      return;
+    }
+
+    const conversation = await findParticipantConversation(req.params.id, userId, "guest");
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "🚫 Conversation not found or access denied"
+      });
+      return;
+    }
+
+    // Validate the message before uploading its images
+    const images = req.files && "images" in req.files ? req.files["images"] as Express.Multer.File[] : [];
+    const check = validateMessageInput(req.body.body, images.length);
+    if (!check.valid) {
+      res.status(400).json({
+        success: false,
+        message: check.message
+      });
+      return;
+    }
+
+    // Handle message images upload if provided
+    const imageUrls = images.length ? await uploadImagesToCloudinary(images) : [];
+
+    const result = await postMessage(
+      conversation,
+      { userId, role: "guest", name: req.user!.firstName },
+      { body: req.body.body, imageUrls }
+    );
+
+    if (!result.valid) {
+      res.status(400).json({
+        success: false,
+        message: result.message
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "✅ Message sent",
+      data: { message: result.sent }
+    });
+  } catch (error: any) {
+    console.error("❌ Error sending message:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "❌ Server error"
+    });
+  }
+};
+
+/**
+ * @desc    Mark the host's messages in a conversation as read by the guest
+ * @route   PATCH /api/conversations/:id/read
+ * @access  Private (user)
+ */
+export const markUserConversationRead = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized"
+      });
+      return;
+    }
+
+    const conversation = await findParticipantConversation(req.params.id, userId, "guest");
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "🚫 Conversation not found or access denied"
+      });
+      return;
+    }
+
+    const marked = await markConversationRead(conversation, "guest", userId);
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Conversation marked as read",
+      data: { marked }
+    });
+  } catch (error) {
+    console.error("❌ Error marking conversation as read:", error);
+    res.status(500).json({
+      success: false,
+      message: "❌ Server error"
+    });
+  }
+};
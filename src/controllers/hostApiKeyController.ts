@@ -0,0 +1,135 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { ApiKey } from "../models/ApiKeyModel";
+import { ApiKeyScope } from "../@types/express/enums";
+import {
+  generateApiKey,
+  getDefaultApiKeyRateLimit,
+  clearApiKeyRateLimit,
+} from "../helpers/apiKeyHelper";
+
+// Maximum number of active keys per host
+const MAX_ACTIVE_KEYS = 10;
+
+/* ========================= HOST API KEYS ========================= */
+
+/**
+ * @desc    Create a new API key. The plain key is only returned in this response.
+ * @route   POST /api/host/api-keys
+ * @body    { name, scope?: "read" | "read_write", expiresAt? }
+ * @access  Private (host only)
+ */
+export const createApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, scope = ApiKeyScope.READ, expiresAt } = req.body;
+
+    if (!name) {
+      res.status(400).json({ message: "❗ Key name is required" });
+      return;
+    }
+
+    if (!Object.values(ApiKeyScope).includes(scope)) {
+      res.status(400).json({ message: "❗ Scope must be 'read' or 'read_write'" });
+      return;
+    }
+
+    let expirationDate: Date | undefined;
+    if (expiresAt) {
+      expirationDate = new Date(expiresAt);
+      if (isNaN(expirationDate.getTime()) || expirationDate <= new Date()) {
+        res.status(400).json({ message: "❗ expiresAt must be a valid future date" });
+        return;
+      }
+    }
+
+    const activeKeys = await ApiKey.countDocuments({ user: req.user!._id, revokedAt: { $exists: false } });
+    if (activeKeys >= MAX_ACTIVE_KEYS) {
+      res.status(400).json({ message: `❗ You cannot have more than ${MAX_ACTIVE_KEYS} active API keys` });
+      return;
+    }
+
+    const { key, keyHash, prefix } = generateApiKey();
+    const apiKey = await ApiKey.create({
+      user: req.user!._id,
+      name,
+      prefix,
+      keyHash,
+      scope,
+      rateLimitPerMinute: getDefaultApiKeyRateLimit(),
+      expiresAt: expirationDate,
+    });
+
+    res.status(201).json({
+      message: "✅ API key created. Copy it now, it will not be shown again",
+      key,
+      apiKey: {
+        _id: apiKey._id,
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scope: apiKey.scope,
+        rateLimitPerMinute: apiKey.rateLimitPerMinute,
+        expiresAt: apiKey.expiresAt,
+        createdAt: apiKey.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error creating API key:", error);
+    res.status(500).json({ message: "❌ Server error while creating API key" });
+  }
+};
+
+/**
+ * @desc    List the host's API keys (without the keys themselves)
+ * @route   GET /api/host/api-keys
+ * @access  Private (host only)
+ */
+export const getApiKeys = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const apiKeys = await ApiKey.find({ user: req.user!._id }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      message: "✅ API keys retrieved successfully",
+      apiKeys,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching API keys:", error);
+    res.status(500).json({ message: "❌ Server error while fetching API keys" });
+  }
+};
+
+/**
+ * @desc    Revoke one of the host's API keys
+ * @route   DELETE /api/host/api-keys/:id
+ * @access  Private (host only)
+ */
+export const revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      res.status(400).json({ message: "❗ Invalid API key ID" });
+      return;
+    }
+
+    const apiKey = await ApiKey.findOne({ _id: req.params.id, user: req.user!._id });
+    if (!apiKey) {
+      res.status(404).json({ message: "🚫 API key not found" });
+      return;
+    }
+
+    if (apiKey.revokedAt) {
+      res.status(400).json({ message: "❗ API key is already revoked" });
+      return;
+    }
+
+    apiKey.revokedAt = new Date();
+    await apiKey.save();
+    clearApiKeyRateLimit(apiKey.id);
+
+    res.status(200).json({
+      message: "✅ API key revoked successfully",
+      apiKeyId: apiKey._id,
+    });
+  } catch (error) {
+    console.error("❌ Error revoking API key:", error);
+    res.status(500).json({ message: "❌ Server error while revoking API key" });
+  }
+};
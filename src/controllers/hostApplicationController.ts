@@ -0,0 +1,119 @@
+import { Request, Response } from "express";
+import { HostApplication } from "../models/HostApplicationModel";
+import { uploadImagesToCloudinary } from "../helpers/uploadImagesToCloudinary";
+import { HostApplicationStatus } from "../@types/express/enums";
+
+/* ==================== USER HOST APPLICATION ==================== */
+
+/**
+ * @desc    Submit an application to become a host
+ * @route   POST /api/users/host-application
+ * @access  Private (user only)
+ */
+export const submitHostApplication = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({ message: "🚫 Unauthorized" });
+      return;
+    }
+
+    const {
+      businessName,
+      businessType,
+      taxId,
+      businessAddress,
+      phone,
+      listingType,
+      description
+    } = req.body;
+
+    if (!businessName || !taxId || !businessAddress || !phone) {
+      res.status(400).json({ message: "❗ Missing required fields: businessName, taxId, businessAddress, phone" });
+      return;
+    }
+
+    if (businessType && !["individual", "company"].includes(businessType)) {
+      res.status(400).json({ message: "❗ Invalid business type" });
+      return;
+    }
+
+    if (listingType && !["property", "tour", "both"].includes(listingType)) {
+      res.status(400).json({ message: "❗ Invalid listing type" });
+      return;
+    }
+
+    // Only one application can be under review at a time
+    const pendingApplication = await HostApplication.findOne({
+      user: userId,
+      status: HostApplicationStatus.PENDING
+    });
+
+    if (pendingApplication) {
+      res.status(400).json({ message: "❗ You already have a host application under review" });
+      return;
+    }
+
+    // Identity documents are required and uploaded to Cloudinary
+    let identityDocuments: string[] = [];
+    if (req.files && "documents" in req.files) {
+      const documentFiles = req.files["documents"] as Express.Multer.File[];
+      identityDocuments = await uploadImagesToCloudinary(documentFiles);
+    }
+
+    if (identityDocuments.length === 0) {
+      res.status(400).json({ message: "❗ At least one identity document is required" });
+      return;
+    }
+
+    const application = new HostApplication({
+      user: userId,
+      businessName: businessName.trim(),
+      businessType: businessType || "individual",
+      taxId: taxId.trim(),
+      businessAddress: businessAddress.trim(),
+      phone: phone.trim(),
+      listingType: listingType || "property",
+      description: description?.trim(),
+      identityDocuments,
+    });
+
+    await application.save();
+
+    res.status(201).json({
+      message: "✅ Host application submitted successfully",
+      application
+    });
+  } catch (error) {
+    console.error("❌ Error submitting host application:", error);
+    res.status(500).json({ message: "❌ Server error while submitting host application" });
+  }
+};
+
+/**
+ * @desc    Get the logged-in user's host applications (latest first)
+ * @route   GET /api/users/host-application
+ * @access  Private (user only)
+ */
+export const getMyHostApplications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({ message: "🚫 Unauthorized" });
+      return;
+    }
+
+    const applications = await HostApplication.find({ user: userId }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      message: "✅ Host applications retrieved successfully",
+      total: applications.length,
+      applications
+    });
+  } catch (error) {
+    console.error("❌ Error fetching host applications:", error);
+    res.status(500).json({ message: "❌ Server error while fetching host applications" });
+  }
+};
@@ -6,8 +6,14 @@ import { TourPackage, ITourPackage } from "../models/TourPackageModel";
 import { IUser } from "../models/User";
 import { validateCheckInOut, validatePaymentStatus, validateBookingStatus } from "../helpers/validateBooking";
 import { sendEmail } from "../utils/emailService";
+import { transitionBooking, recordCancellationRefund } from "../helpers/bookingLifecycle";
+import { emitBookingEvent } from "../events/bookingEvents";
+import { buildRefundBreakdownHtml } from "../helpers/cancellationPolicyHelper";
+import { applyPaymentStatus, getPaymentSummary, preparePaymentTransaction, savePaymentTransaction } from "../helpers/paymentLedgerHelper";
+import { getPendingModification, respondToBookingModification } from "../helpers/bookingModificationHelper";
+import { respondToBookingRequest } from "../helpers/bookingRequestHelper";
 import PDFDocument from "pdfkit";
-import { PaymentStatus, BookingStatus } from "../@types/express/enums";
+import { PaymentStatus, BookingStatus, BookingEvent, TransactionType, ModificationStatus, BookingMode } from "../@types/express/enums";
 
 /**
  * @desc    Host gets all bookings for their properties and tours
@@ -104,6 +110,7 @@ export const filterHostBookings = async (req: Request, res: Response): Promise<v
       from, 
       to, 
       propertyType,
+      needsAttention,
       page = 1,
       limit = 10
     } = req.query;
@@ -165,6 +172,10 @@ export const filterHostBookings = async (req: Request, res: Response): Promise<v
       filterQuery.status = bookingStatus;
     }
 
+    if (needsAttention === 'true') {
+      filterQuery.hostAttentionRequired = true;
+    }
+
     if (from && to) {
       filterQuery.checkIn = { $gte: new Date(from as string) };
       filterQuery.checkOut = { $lte: new Date(to as string) };
@@ -206,7 +217,7 @@ export const filterHostBookings = async (req: Request, res: Response): Promise<v
           hasNext: Number(page) * Number(limit) < totalCount,
           hasPrev: Number(page) > 1
         },
-        filters: { paymentStatus, bookingStatus, from, to, propertyType }
+        filters: { paymentStatus, bookingStatus, from, to, propertyType, needsAttention }
       }
     });
   } catch (error: any) {
@@ -293,14 +304,37 @@ export const updateHostBookingPaymentStatus = async (req: Request, res: Response
     }
 
     const previousStatus = booking.paymentStatus;
-    booking.paymentStatus = paymentStatus;
+
+    // The status is applied through the payment ledger ("paid" charges the balance due)
+    const payment = await applyPaymentStatus(booking, paymentStatus, { role: "host", userId: hostId });
+    if (!payment.valid) {
+      res.status(400).json({ 
+        success: false,
+        message: payment.message 
+      });
+      return;
+    }
     
-    // Auto-update booking status if payment is confirmed
-    if (paymentStatus === PaymentStatus.PAID && booking.status === BookingStatus.PENDING) {
-      booking.status = BookingStatus.CONFIRMED;
+    // Auto-confirm pending bookings once payment is received
+    if (booking.paymentStatus === PaymentStatus.PAID && booking.status === BookingStatus.PENDING) {
+      await transitionBooking(booking, BookingStatus.CONFIRMED, "host", { userId: hostId });
     }
 
-    await booking.save();
+    // Only save if nobody recorded a payment meanwhile (both would charge the same balance)
+    booking.$where = { paymentStatus: previousStatus };
+    try {
+      await booking.save();
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") {
+        res.status(409).json({
+          success: false,
+          message: "❗ The payment status changed meanwhile, please reload the booking"
+        });
+        return;
+      }
+      throw error;
+    }
+    await savePaymentTransaction(payment.pending);
 
     // Send email notification to guest
     const user = booking.user as unknown as IUser;
@@ -409,30 +443,38 @@ export const updateHostBookingStatus = async (req: Request, res: Response): Prom
       return;
     }
 
-    // Business validation
-    if (booking.status === BookingStatus.CANCELLED && status !== BookingStatus.CANCELLED) {
+    // Business validation: allowed transitions and guards live in the booking lifecycle
+    const previousStatus = booking.status;
+    const transition = await transitionBooking(booking, status, "host", { reason, userId: hostId });
+
+    if (!transition.valid) {
       res.status(400).json({ 
         success: false,
-        message: "❌ Cannot change status of cancelled booking" 
+        message: transition.message 
       });
       return;
     }
 
-    const previousStatus = booking.status;
-    booking.status = status;
-
-    // Handle cancellation logic
-    if (status === BookingStatus.CANCELLED) {
-      booking.cancellationReason = reason || "Cancelled by host";
-      booking.cancelledAt = new Date();
-      
-      // Auto-update payment status if booking was paid
-      if (booking.paymentStatus === PaymentStatus.PAID) {
-        booking.paymentStatus = PaymentStatus.REFUNDED;
+    // Only save if the guest or an admin did not change the status meanwhile
+    booking.$where = { status: previousStatus };
+    try {
+      await booking.save();
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") {
+        res.status(409).json({
+          success: false,
+          message: "❗ The booking status changed meanwhile, please reload it"
+        });
+        return;
       }
+      throw error;
     }
 
-    await booking.save();
+    await recordCancellationRefund(booking, { role: "host", userId: hostId });
+
+    if (status === BookingStatus.COMPLETED) {
+      emitBookingEvent(BookingEvent.COMPLETED, { booking });
+    }
 
     // Send email notification to guest
     const user = booking.user as unknown as IUser;
@@ -454,9 +496,7 @@ export const updateHostBookingStatus = async (req: Request, res: Response): Prom
       if (status === BookingStatus.CANCELLED) {
         emailSubject = "Booking Cancelled - GuaraniHost";
         emailBody += `<p><strong>Cancellation Reason:</strong> ${booking.cancellationReason}</p>`;
-        if (booking.paymentStatus === PaymentStatus.REFUNDED) {
-          emailBody += `<p><strong>Refund Status:</strong> Your payment will be refunded shortly.</p>`;
-        }
+        emailBody += buildRefundBreakdownHtml(booking.refund);
       }
 
       emailBody += `
@@ -474,7 +514,8 @@ export const updateHostBookingStatus = async (req: Request, res: Response): Prom
       data: {
         booking,
         previousStatus,
-        newStatus: status
+        newStatus: status,
+        refund: booking.refund
       }
     });
   } catch (error: any) {
@@ -486,6 +527,693 @@ export const updateHostBookingStatus = async (req: Request, res: Response): Prom
   }
 };
 
+/**
+ * @desc    Host extends the payment deadline of a pending, unpaid booking
+ * @route   PATCH /api/host/bookings/:id/payment-deadline
+ * @access  Private (host only)
+ * @body    { paymentDeadline: ISO date }
+ */
+export const extendHostBookingPaymentDeadline = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+    const bookingId = req.params.id;
+
+    if (!hostId) {
+      res.status(401).json({ 
+        success: false,
+        message: "🚫 Unauthorized host" 
+      });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(bookingId)) {
+      res.status(400).json({ 
+        success: false,
+        message: "❌ Invalid booking ID" 
+      });
+      return;
+    }
+
+    const newDeadline = new Date(req.body.paymentDeadline);
+    if (!req.body.paymentDeadline || isNaN(newDeadline.getTime())) {
+      res.status(400).json({ 
+        success: false,
+        message: "❗ A valid payment deadline is required" 
+      });
+      return;
+    }
+
+    // Find booking and populate related data
+    const booking = await Booking.findById(bookingId)
+      .populate("property", "host title")
+      .populate("tourPackage", "host title")
+      .populate("user", "firstName lastName email");
+
+    if (!booking) {
+      res.status(404).json({ 
+        success: false,
+        message: "❌ Booking not found" 
+      });
+      return;
+    }
+
+    // Verify host ownership
+    const property = booking.property as unknown as IProperty;
+    const tour = booking.tourPackage as unknown as ITourPackage;
+
+    const isHostOwner = (property && property.host?.toString() === hostId.toString()) ||
+                        (tour && tour.host?.toString() === hostId.toString());
+
+    if (!isHostOwner) {
+      res.status(403).json({ 
+        success: false,
+        message: "🚫 You are not authorized to update this booking" 
+      });
+      return;
+    }
+
+    // Business validation
+    // Instant-book bookings are confirmed before they are paid
+    const awaitingPayment = booking.status === BookingStatus.PENDING ||
+      (booking.status === BookingStatus.CONFIRMED && booking.bookingMode === BookingMode.INSTANT);
+
+    if (!awaitingPayment || booking.paymentStatus !== PaymentStatus.PENDING) {
+      res.status(400).json({ 
+        success: false,
+        message: "❗ Only unpaid pending (or instant-book) bookings have a payment deadline" 
+      });
+      return;
+    }
+
+    const previousDeadline = booking.paymentDeadline;
+    if (newDeadline <= new Date() || (previousDeadline && newDeadline <= previousDeadline)) {
+      res.status(400).json({ 
+        success: false,
+        message: "❗ The new deadline must be later than the current one" 
+      });
+      return;
+    }
+
+    if (newDeadline > booking.checkIn) {
+      res.status(400).json({ 
+        success: false,
+        message: "❗ The payment deadline cannot be after check-in" 
+      });
+      return;
+    }
+
+    booking.paymentDeadline = newDeadline;
+    await booking.save();
+
+    // Send email notification to guest
+    const user = booking.user as unknown as IUser;
+    if (user?.email) {
+      const bookingTitle = property?.title || tour?.title || 'N/A';
+
+      try {
+        await sendEmail(
+          user.email,
+          "Payment Deadline Extended - GuaraniHost",
+          `
+          <h2>⌛ Payment Deadline Extended</h2>
+          <p>Hello ${user.firstName},</p>
+          <p>The host extended the payment deadline of your booking for <strong>${bookingTitle}</strong>.</p>
+          <p><strong>New Deadline:</strong> ${newDeadline.toLocaleString()}</p>
+          <p>Total Amount: $${booking.totalPrice}</p>
+          <br>
+          <p>Best regards,<br>GuaraniHost Team</p>
+          `
+        );
+      } catch (error) {
+        console.error("❌ Error sending payment deadline email:", error);
+      }
+    }
+
+    res.status(200).json({ 
+      success: true,
+      message: "✅ Payment deadline extended successfully", 
+      data: {
+        booking,
+        previousDeadline,
+        newDeadline
+      }
+    });
+  } catch (error: any) {
+    console.error("❌ Error extending payment deadline:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "❌ Internal server error" 
+    });
+  }
+};
+
+/**
+ * @desc    Host accepts or declines a booking request (request-to-book listings)
+ * @route   PATCH /api/host/bookings/:id/request
+ * @access  Private (host only)
+ * @body    { status: "accepted" | "declined", note?: string }
+ */
+export const respondToHostBookingRequest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+    const bookingId = req.params.id;
+    const { status, note } = req.body;
+
+    if (!hostId) {
+      res.status(401).json({ 
+        success: false,
+        message: "🚫 Unauthorized host" 
+      });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(bookingId)) {
+      res.status(400).json({ 
+        success: false,
+        message: "❌ Invalid booking ID" 
+      });
+      return;
+    }
+
+    if (status !== "accepted" && status !== "declined") {
+      res.status(400).json({ 
+        success: false,
+        message: "❗ Status must be \"accepted\" or \"declined\"" 
+      });
+      return;
+    }
+
+    // Find booking and populate related data
+    const booking = await Booking.findById(bookingId)
+      .populate("property", "host title")
+      .populate("tourPackage", "host title")
+      .populate("user", "firstName lastName email");
+
+    if (!booking) {
+      res.status(404).json({ 
+        success: false,
+        message: "❌ Booking not found" 
+      });
+      return;
+    }
+
+    // Verify host ownership
+    const property = booking.property as unknown as IProperty;
+    const tour = booking.tourPackage as unknown as ITourPackage;
+
+    const isHostOwner = (property && property.host?.toString() === hostId.toString()) ||
+                        (tour && tour.host?.toString() === hostId.toString());
+
+    if (!isHostOwner) {
+      res.status(403).json({ 
+        success: false,
+        message: "🚫 You are not authorized to update this booking" 
+      });
+      return;
+    }
+
+    const result = await respondToBookingRequest(booking, status === "accepted", hostId, note);
+
+    if (!result.valid) {
+      res.status(result.conflict ? 409 : 400).json({ 
+        success: false,
+        message: result.message 
+      });
+      return;
+    }
+
+    const accepted = status === "accepted";
+    const confirmed = booking.status === BookingStatus.CONFIRMED;
+
+    // Send email notification to guest
+    const user = booking.user as unknown as IUser;
+    if (user?.email) {
+      const bookingTitle = property?.title || tour?.title || 'N/A';
+
+      try {
+        await sendEmail(
+          user.email,
+          accepted ? "Booking Request Accepted - GuaraniHost" : "Booking Request Declined - GuaraniHost",
+          `
+          <h2>${accepted ? '✅ Booking Request Accepted' : '❌ Booking Request Declined'}</h2>
+          <p>Hello ${user.firstName},</p>
+          <p>The host ${status} your booking request for <strong>${bookingTitle}</strong>.</p>
+          ${note?.trim() ? `<p><strong>Host Note:</strong> ${note.trim()}</p>` : ''}
+          <p>Check-in: ${booking.checkIn.toLocaleDateString()}</p>
+          <p>Check-out: ${booking.checkOut.toLocaleDateString()}</p>
+          <p>Total Amount: $${booking.totalPrice}</p>
+          ${accepted && !confirmed && booking.paymentDeadline ? `<p>Please complete the payment before <strong>${booking.paymentDeadline.toLocaleString()}</strong> to confirm your booking.</p>` : ''}
+          ${accepted && confirmed ? '<p>Your booking is confirmed.</p>' : ''}
+          ${!accepted ? buildRefundBreakdownHtml(booking.refund) : ''}
+          <br>
+          <p>Best regards,<br>GuaraniHost Team</p>
+          `
+        );
+      } catch (error) {
+        console.error("❌ Error sending booking request response email:", error);
+      }
+    }
+
+    res.status(200).json({ 
+      success: true,
+      message: !accepted
+        ? "✅ Booking request declined"
+        : confirmed
+          ? "✅ Booking request accepted and confirmed"
+          : "✅ Booking request accepted, waiting for the guest's payment",
+      data: { booking }
+    });
+  } catch (error: any) {
+    console.error("❌ Error answering booking request:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "❌ Internal server error" 
+    });
+  }
+};
+
+/**
+ * @desc    Host lists the change requests of a booking (newest first)
+ * @route   GET /api/host/bookings/:id/modifications
+ * @access  Private (host only)
+ */
+export const getHostBookingModifications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+    const bookingId = req.params.id;
+
+    if (!hostId) {
+      res.status(401).json({ 
+        success: false,
+        message: "🚫 Unauthorized host" 
+      });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(bookingId)) {
+      res.status(400).json({ 
+        success: false,
+        message: "❌ Invalid booking ID" 
+      });
+      return;
+    }
+
+    const booking = await Booking.findById(bookingId)
+      .populate("property", "host title")
+      .populate("tourPackage", "host title");
+
+    if (!booking) {
+      res.status(404).json({ 
+        success: false,
+        message: "❌ Booking not found" 
+      });
+      return;
+    }
+
+    // Verify host ownership
+    const property = booking.property as unknown as IProperty;
+    const tour = booking.tourPackage as unknown as ITourPackage;
+
+    const isHostOwner = (property && property.host?.toString() === hostId.toString()) ||
+                        (tour && tour.host?.toString() === hostId.toString());
+
+    if (!isHostOwner) {
+      res.status(403).json({ 
+        success: false,
+        message: "🚫 You are not authorized to view this booking" 
+      });
+      return;
+    }
+
+    res.status(200).json({ 
+      success: true,
+      message: "✅ Modification requests retrieved successfully", 
+      data: {
+        bookingId: booking._id,
+        pending: getPendingModification(booking) || null,
+        modifications: [...booking.modifications].reverse()
+      }
+    });
+  } catch (error: any) {
+    console.error("❌ Error fetching modification requests:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "❌ Internal server error" 
+    });
+  }
+};
+
+/**
+ * @desc    Host accepts or declines a guest's change request
+ * @route   PATCH /api/host/bookings/:id/modifications/:modificationId
+ * @access  Private (host only)
+ * @body    { status: "accepted" | "declined", note?: string }
+ */
+export const respondToHostBookingModification = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+    const { id: bookingId, modificationId } = req.params;
+    const { status, note } = req.body;
+
+    if (!hostId) {
+      res.status(401).json({ 
+        success: false,
+        message: "🚫 Unauthorized host" 
+      });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(bookingId)) {
+      res.status(400).json({ 
+        success: false,
+        message: "❌ Invalid booking ID" 
+      });
+      return;
+    }
+
+    if (status !== ModificationStatus.ACCEPTED && status !== ModificationStatus.DECLINED) {
+      res.status(400).json({ 
+        success: false,
+        message: "❗ Status must be \"accepted\" or \"declined\"" 
+      });
+      return;
+    }
+
+    // Find booking and populate related data
+    const booking = await Booking.findById(bookingId)
+      .populate("property", "host title")
+      .populate("tourPackage", "host title")
+      .populate("user", "firstName lastName email");
+
+    if (!booking) {
+      res.status(404).json({ 
+        success: false,
+        message: "❌ Booking not found" 
+      });
+      return;
+    }
+
+    // Verify host ownership
+    const property = booking.property as unknown as IProperty;
+    const tour = booking.tourPackage as unknown as ITourPackage;
+
+    const isHostOwner = (property && property.host?.toString() === hostId.toString()) ||
+                        (tour && tour.host?.toString() === hostId.toString());
+
+    if (!isHostOwner) {
+      res.status(403).json({ 
+        success: false,
+        message: "🚫 You are not authorized to update this booking" 
+      });
+      return;
+    }
+
+    const result = await respondToBookingModification(
+      booking,
+      modificationId,
+      status === ModificationStatus.ACCEPTED,
+      { role: "host", userId: hostId },
+      note
+    );
+
+    if (!result.valid) {
+      res.status(result.conflict ? 409 : 400).json({ 
+        success: false,
+        message: result.message 
+      });
+      return;
+    }
+
+    const modification = result.modification!;
+
+    // Send email notification to guest
+    const user = booking.user as unknown as IUser;
+    if (user?.email) {
+      const bookingTitle = property?.title || tour?.title || 'N/A';
+      const accepted = modification.status === ModificationStatus.ACCEPTED;
+
+      try {
+        await sendEmail(
+          user.email,
+          accepted ? "Booking Change Accepted - GuaraniHost" : "Booking Change Declined - GuaraniHost",
+          `
+          <h2>${accepted ? '✅ Booking Change Accepted' : '❌ Booking Change Declined'}</h2>
+          <p>Hello ${user.firstName},</p>
+          <p>The host ${modification.status} your change request for <strong>${bookingTitle}</strong>.</p>
+          ${modification.responseNote ? `<p><strong>Host Note:</strong> ${modification.responseNote}</p>` : ''}
+          <p>Check-in: ${booking.checkIn.toLocaleDateString()}</p>
+          <p>Check-out: ${booking.checkOut.toLocaleDateString()}</p>
+          <p>Guests: ${booking.guests}</p>
+          <p>Total Amount: $${booking.totalPrice}</p>
+          ${accepted ? `<p><strong>Payment Status:</strong> ${booking.paymentStatus}</p>` : ''}
+          ${result.refunded ? `<p>The price difference of $${result.refunded} will be refunded to you.</p>` : ''}
+          <br>
+          <p>Best regards,<br>GuaraniHost Team</p>
+          `
+        );
+      } catch (error) {
+        console.error("❌ Error sending modification response email:", error);
+      }
+    }
+
+    res.status(200).json({ 
+      success: true,
+      message: modification.status === ModificationStatus.ACCEPTED
+        ? "✅ Change accepted and booking updated"
+        : "✅ Change request declined",
+      data: {
+        booking,
+        modification,
+        refunded: result.refunded || 0
+      }
+    });
+  } catch (error: any) {
+    console.error("❌ Error answering modification request:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "❌ Internal server error" 
+    });
+  }
+};
+
+/**
+ * @desc    Host lists the payment transactions of a booking
+ * @route   GET /api/host/bookings/:id/transactions
+ * @access  Private (host only)
+ */
+export const getHostBookingTransactions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+    const bookingId = req.params.id;
+
+    if (!hostId) {
+      res.status(401).json({ 
+        success: false,
+        message: "🚫 Unauthorized host" 
+      });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(bookingId)) {
+      res.status(400).json({ 
+        success: false,
+        message: "❌ Invalid booking ID" 
+      });
+      return;
+    }
+
+    const booking = await Booking.findById(bookingId)
+      .populate("property", "host title")
+      .populate("tourPackage", "host title");
+
+    if (!booking) {
+      res.status(404).json({ 
+        success: false,
+        message: "❌ Booking not found" 
+      });
+      return;
+    }
+
+    // Verify host ownership
+    const property = booking.property as unknown as IProperty;
+    const tour = booking.tourPackage as unknown as ITourPackage;
+
+    const isHostOwner = (property && property.host?.toString() === hostId.toString()) ||
+                        (tour && tour.host?.toString() === hostId.toString());
+
+    if (!isHostOwner) {
+      res.status(403).json({ 
+        success: false,
+        message: "🚫 You are not authorized to view this booking" 
+      });
+      return;
+    }
+
+    const { transactions, totals } = await getPaymentSummary(booking);
+
+    res.status(200).json({ 
+      success: true,
+      message: "✅ Transactions retrieved successfully", 
+      data: {
+        paymentStatus: booking.paymentStatus,
+        totalPrice: booking.totalPrice,
+        totals,
+        transactions
+      }
+    });
+  } catch (error: any) {
+    console.error("❌ Error fetching booking transactions:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "❌ Internal server error" 
+    });
+  }
+};
+
+/**
+ * @desc    Host records a charge, refund or adjustment on a booking
+ * @route   POST /api/host/bookings/:id/transactions
+ * @access  Private (host only)
+ * @body    { type, amount, method?, reference?, note? }
+ */
+export const recordHostBookingTransaction = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+    const bookingId = req.params.id;
+    const { type, amount, method, reference, note } = req.body;
+
+    if (!hostId) {
+      res.status(401).json({ 
+        success: false,
+        message: "🚫 Unauthorized host" 
+      });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(bookingId)) {
+      res.status(400).json({ 
+        success: false,
+        message: "❌ Invalid booking ID" 
+      });
+      return;
+    }
+
+    // Find booking and populate related data
+    const booking = await Booking.findById(bookingId)
+      .populate("property", "host title")
+      .populate("tourPackage", "host title")
+      .populate("user", "firstName lastName email");
+
+    if (!booking) {
+      res.status(404).json({ 
+        success: false,
+        message: "❌ Booking not found" 
+      });
+      return;
+    }
+
+    // Verify host ownership
+    const property = booking.property as unknown as IProperty;
+    const tour = booking.tourPackage as unknown as ITourPackage;
+
+    const isHostOwner = (property && property.host?.toString() === hostId.toString()) ||
+                        (tour && tour.host?.toString() === hostId.toString());
+
+    if (!isHostOwner) {
+      res.status(403).json({ 
+        success: false,
+        message: "🚫 You are not authorized to update this booking" 
+      });
+      return;
+    }
+
+    // Business validation
+    if (booking.status === BookingStatus.CANCELLED && type === TransactionType.CHARGE) {
+      res.status(400).json({ 
+        success: false,
+        message: "❌ Cannot charge a cancelled booking" 
+      });
+      return;
+    }
+
+    const previousStatus = booking.paymentStatus;
+    const result = await preparePaymentTransaction(
+      booking,
+      { type, amount, method, reference, note },
+      { role: "host", userId: hostId }
+    );
+
+    if (!result.valid) {
+      res.status(400).json({ 
+        success: false,
+        message: result.message 
+      });
+      return;
+    }
+
+    // Auto-confirm pending bookings once payment is received
+    if (booking.paymentStatus === PaymentStatus.PAID && booking.status === BookingStatus.PENDING) {
+      await transitionBooking(booking, BookingStatus.CONFIRMED, "host", { userId: hostId });
+    }
+
+    // Only save if nobody recorded a payment meanwhile (both were checked against the same totals)
+    booking.$where = { paymentStatus: previousStatus };
+    try {
+      await booking.save();
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") {
+        res.status(409).json({
+          success: false,
+          message: "❗ The payment status changed meanwhile, please reload the booking"
+        });
+        return;
+      }
+      throw error;
+    }
+    const transaction = await savePaymentTransaction(result.pending);
+
+    // Send email notification to guest
+    const user = booking.user as unknown as IUser;
+    if (user?.email && booking.paymentStatus !== previousStatus) {
+      const bookingTitle = property?.title || tour?.title || 'N/A';
+
+      try {
+        await sendEmail(
+          user.email,
+          "Payment Status Updated - GuaraniHost",
+          `
+          <h2>💳 Payment Status Updated</h2>
+          <p>Hello ${user.firstName},</p>
+          <p>A ${transaction!.type} of $${Math.abs(transaction!.amount)} was recorded on your booking for <strong>${bookingTitle}</strong>.</p>
+          <p><strong>Payment Status:</strong> ${booking.paymentStatus}</p>
+          <p>Amount Paid: $${result.totals!.netPaid} of $${booking.totalPrice}</p>
+          <br>
+          <p>Best regards,<br>GuaraniHost Team</p>
+          `
+        );
+      } catch (error) {
+        console.error("❌ Error sending payment email:", error);
+      }
+    }
+
+    res.status(201).json({ 
+      success: true,
+      message: "✅ Transaction recorded successfully", 
+      data: {
+        booking,
+        transaction,
+        totals: result.totals
+      }
+    });
+  } catch (error: any) {
+    console.error("❌ Error recording booking transaction:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "❌ Internal server error" 
+    });
+  }
+};
+
 /**
  * @desc    Host exports their bookings as PDF
  * @route   GET /api/host/bookings/export/pdf
@@ -0,0 +1,327 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Booking } from "../models/BookingModel";
+import { IProperty } from "../models/PropertyModel";
+import { ITourPackage } from "../models/TourPackageModel";
+import { uploadImagesToCloudinary } from "../helpers/uploadImagesToCloudinary";
+import {
+  findParticipantConversation,
+  getOrCreateBookingConversation,
+  getUnreadTotal,
+  listConversations,
+  listMessages,
+  markConversationRead,
+  postMessage,
+  validateMessageInput,
+} from "../helpers/conversationHelper";
+import { ConversationType } from "../@types/express/enums";
+
+/**
+ * @desc    Host gets the conversations with guests (bookings and inquiries), latest activity first
+ * @route   GET /api/host/conversations
+ * @access  Private (host only)
+ * @query   page, limit, type ("booking" | "inquiry"), unread=true
+ */
+export const getHostConversations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+
+    if (!hostId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized host"
+      });
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const filter: Record<string, unknown> = { host: hostId };
+    if (Object.values(ConversationType).includes(req.query.type as ConversationType)) {
+      filter.type = req.query.type;
+    }
+    if (req.query.unread === "true") {
+      filter["unreadCounts.host"] = { $gt: 0 };
+    }
+
+    const result = await listConversations(filter, page, limit);
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Host conversations fetched successfully",
+      data: result
+    });
+  } catch (error: any) {
+    console.error("❌ Host conversations error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "❌ Internal server error"
+    });
+  }
+};
+
+/**
+ * @desc    Host gets their number of unread messages
+ * @route   GET /api/host/conversations/unread-count
+ * @access  Private (host only)
+ */
+export const getHostUnreadCount = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+
+    if (!hostId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized host"
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Unread count fetched successfully",
+      data: { unread: await getUnreadTotal(hostId, "host") }
+    });
+  } catch (error: any) {
+    console.error("❌ Host unread count error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "❌ Internal server error"
+    });
+  }
+};
+
+/**
+ * @desc    Host gets (or opens) the conversation with the guest of a booking
+ * @route   GET /api/host/bookings/:id/conversation
+ * @access  Private (host only)
+ */
+export const getHostBookingConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+    const bookingId = req.params.id;
+
+    if (!hostId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized host"
+      });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(bookingId)) {
+      res.status(400).json({
+        success: false,
+        message: "❌ Invalid booking ID"
+      });
+      return;
+    }
+
+    const booking = await Booking.findById(bookingId)
+      .populate("property", "host title")
+      .populate("tourPackage", "host title");
+
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        message: "❌ Booking not found"
+      });
+      return;
+    }
+
+    // Verify host ownership
+    const property = booking.property as unknown as IProperty;
+    const tour = booking.tourPackage as unknown as ITourPackage;
+
+    const isHostOwner = (property && property.host?.toString() === hostId.toString()) ||
+                        (tour && tour.host?.toString() === hostId.toString());
+
+    if (!isHostOwner) {
+      res.status(403).json({
+        success: false,
+        message: "🚫 You are not authorized to view this booking"
+      });
+      return;
+    }
+
+    const conversation = await getOrCreateBookingConversation(booking);
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "❌ The booked listing no longer exists"
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Conversation fetched successfully",
+      data: { conversation }
+    });
+  } catch (error: any) {
+    console.error("❌ Error opening booking conversation:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "❌ Internal server error"
+    });
+  }
+};
+
+/**
+ * @desc    Host gets the messages of a conversation, newest first
+ * @route   GET /api/host/conversations/:id/messages
+ * @access  Private (host only)
+ * @query   page, limit
+ */
+export const getHostConversationMessages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+
+    if (!hostId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized host"
+      });
+      return;
+    }
+
+    const conversation = await findParticipantConversation(req.params.id, hostId, "host");
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "❌ Conversation not found"
+      });
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Messages fetched successfully",
+      data: {
+        conversation,
+        ...(await listMessages(conversation._id as string, page, limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("❌ Error fetching host messages:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "❌ Internal server error"
+    });
+  }
+};
+
+/**
+ * @desc    Host sends a message (text and/or images) to the guest
+ * @route   POST /api/host/conversations/:id/messages
+ * @access  Private (host only)
+ * @body    { body? }
+ */
+export const sendHostMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+
+    if (!hostId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized host"
+      });
+      return;
+    }
+
+    const conversation = await findParticipantConversation(req.params.id, hostId, "host");
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "❌ Conversation not found"
+      });
+      return;
+    }
+
+    // Validate the message before uploading its images
+    const images = req.files && "images" in req.files ? req.files["images"] as Express.Multer.File[] : [];
+    const check = validateMessageInput(req.body.body, images.length);
+    if (!check.valid) {
+      res.status(400).json({
+        success: false,
+        message: check.message
+      });
+      return;
+    }
+
+    // Handle message images upload if provided
+    const imageUrls = images.length ? await uploadImagesToCloudinary(images) : [];
+
+    const result = await postMessage(
+      conversation,
+      { userId: hostId, role: "host", name: req.user!.firstName },
+      { body: req.body.body, imageUrls }
+    );
+
+    if (!result.valid) {
+      res.status(400).json({
+        success: false,
+        message: result.message
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "✅ Message sent",
+      data: { message: result.sent }
+    });
+  } catch (error: any) {
+    console.error("❌ Error sending host message:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "❌ Internal server error"
+    });
+  }
+};
+
+/**
+ * @desc    Host marks the guest's messages in a conversation as read
+ * @route   PATCH /api/host/conversations/:id/read
+ * @access  Private (host only)
+ */
+export const markHostConversationRead = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+
+    if (!hostId) {
+      res.status(401).json({
+        success: false,
+        message: "🚫 Unauthorized host"
+      });
+      return;
+    }
+
+    const conversation = await findParticipantConversation(req.params.id, hostId, "host");
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "❌ Conversation not found"
+      });
+      return;
+    }
+
+    const marked = await markConversationRead(conversation, "host", hostId);
+
+    res.status(200).json({
+      success: true,
+      message: "✅ Conversation marked as read",
+      data: { marked }
+    });
+  } catch (error: any) {
+    console.error("❌ Error marking host conversation as read:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "❌ Internal server error"
+    });
+  }
+};
@@ -3,6 +3,8 @@ import { Property } from "../models/PropertyModel";
 import { uploadImagesToCloudinary } from "../helpers/uploadImagesToCloudinary";
 import { deleteImageFromCloudinary } from "../helpers/deleteImageFromCloudinary";
 import { PropertyStatus } from "../@types/express/enums";
+import { resolveCancellationSettings } from "../helpers/cancellationPolicyHelper";
+import { resolveBookingModeSettings } from "../helpers/bookingRequestHelper";
 
 /**
  * @desc    Get all properties created by the current host
@@ -83,9 +85,19 @@ export const createHostProperty = async (req: Request, res: Response): Promise<v
       address,
       city,
       pricePerNight,
+      cleaningFee,
       amenities,
       guests,
-      status
+      maxInfants,
+      status,
+      allowUnpaidConfirmation,
+      paymentDeadlineHours,
+      bookingMode,
+      instantBookVerifiedEmail,
+      instantBookMinCompletedStays,
+      hostResponseHours,
+      cancellationPolicy,
+      cancellationTiers
     } = req.body;
 
     console.log('Host creating property with data:', req.body);
@@ -106,6 +118,38 @@ export const createHostProperty = async (req: Request, res: Response): Promise<v
       return;
     }
 
+    if (maxInfants !== undefined && maxInfants !== "" && (isNaN(+maxInfants) || +maxInfants < 0 || +maxInfants > 10)) {
+      res.status(400).json({ message: "❗ Max infants must be between 0 and 10" });
+      return;
+    }
+
+    if (cleaningFee !== undefined && (isNaN(+cleaningFee) || +cleaningFee < 0)) {
+      res.status(400).json({ message: "❗ Cleaning fee cannot be negative" });
+      return;
+    }
+
+    if (paymentDeadlineHours !== undefined && paymentDeadlineHours !== "" && (isNaN(+paymentDeadlineHours) || +paymentDeadlineHours < 1 || +paymentDeadlineHours > 720)) {
+      res.status(400).json({ message: "❗ Payment deadline must be between 1 and 720 hours" });
+      return;
+    }
+
+    const cancellationSettings = resolveCancellationSettings(cancellationPolicy, cancellationTiers);
+    if (!cancellationSettings.valid) {
+      res.status(400).json({ message: cancellationSettings.message });
+      return;
+    }
+
+    const bookingModeSettings = resolveBookingModeSettings({
+      bookingMode,
+      instantBookVerifiedEmail,
+      instantBookMinCompletedStays,
+      hostResponseHours
+    });
+    if (!bookingModeSettings.valid) {
+      res.status(400).json({ message: bookingModeSettings.message });
+      return;
+    }
+
     if (status && !Object.values(PropertyStatus).includes(status)) {
       res.status(400).json({ message: "❗ Invalid property status" });
       return;
@@ -139,11 +183,20 @@ export const createHostProperty = async (req: Request, res: Response): Promise<v
       address: address.trim(),
       city: city.trim(),
       pricePerNight: +pricePerNight,
+      cleaningFee: cleaningFee !== undefined ? +cleaningFee : 0,
       amenities: parsedAmenities,
       guests: +guests,
+      maxInfants: maxInfants !== undefined && maxInfants !== "" ? +maxInfants : undefined,
       host: req.user._id,
       imageUrls,
       status: status || PropertyStatus.AVAILABLE,
+      allowUnpaidConfirmation: allowUnpaidConfirmation === true || allowUnpaidConfirmation === 'true',
+      paymentDeadlineHours: paymentDeadlineHours ? +paymentDeadlineHours : undefined,
+      bookingMode: bookingModeSettings.bookingMode,
+      instantBookRequirements: bookingModeSettings.instantBookRequirements,
+      hostResponseHours: bookingModeSettings.hostResponseHours,
+      cancellationPolicy: cancellationSettings.policy,
+      cancellationTiers: cancellationSettings.tiers,
     });
 
     await newProperty.save();
@@ -188,9 +241,19 @@ export const updateHostProperty = async (req: Request, res: Response): Promise<v
       address,
       city,
       pricePerNight,
+      cleaningFee,
       amenities,
       guests,
+      maxInfants,
       status,
+      allowUnpaidConfirmation,
+      paymentDeadlineHours,
+      bookingMode,
+      instantBookVerifiedEmail,
+      instantBookMinCompletedStays,
+      hostResponseHours,
+      cancellationPolicy,
+      cancellationTiers,
       removedImages,
     } = req.body;
 
@@ -207,6 +270,39 @@ export const updateHostProperty = async (req: Request, res: Response): Promise<v
       return;
     }
 
+    if (maxInfants !== undefined && maxInfants !== "" && (isNaN(+maxInfants) || +maxInfants < 0 || +maxInfants > 10)) {
+      res.status(400).json({ message: "❗ Max infants must be between 0 and 10" });
+      return;
+    }
+
+    if (cleaningFee !== undefined && (isNaN(+cleaningFee) || +cleaningFee < 0)) {
+      res.status(400).json({ message: "❗ Cleaning fee cannot be negative" });
+      return;
+    }
+
+    if (paymentDeadlineHours !== undefined && paymentDeadlineHours !== "" && (isNaN(+paymentDeadlineHours) || +paymentDeadlineHours < 1 || +paymentDeadlineHours > 720)) {
+      res.status(400).json({ message: "❗ Payment deadline must be between 1 and 720 hours" });
+      return;
+    }
+
+    const cancellationSettings = resolveCancellationSettings(cancellationPolicy, cancellationTiers, {
+      policy: property.cancellationPolicy,
+      tiers: property.cancellationTiers,
+    });
+    if (!cancellationSettings.valid) {
+      res.status(400).json({ message: cancellationSettings.message });
+      return;
+    }
+
+    const bookingModeSettings = resolveBookingModeSettings(
+      { bookingMode, instantBookVerifiedEmail, instantBookMinCompletedStays, hostResponseHours },
+      property
+    );
+    if (!bookingModeSettings.valid) {
+      res.status(400).json({ message: bookingModeSettings.message });
+      return;
+    }
+
     if (status && !Object.values(PropertyStatus).includes(status)) {
       res.status(400).json({ message: "❗ Invalid property status" });
       return;
@@ -217,8 +313,22 @@ export const updateHostProperty = async (req: Request, res: Response): Promise<v
     if (address) property.address = address.trim();
     if (city) property.city = city.trim();
     if (pricePerNight) property.pricePerNight = +pricePerNight;
+    if (cleaningFee !== undefined) property.cleaningFee = +cleaningFee;
     if (guests !== undefined) property.guests = +guests;
+    if (maxInfants !== undefined && maxInfants !== "") property.maxInfants = +maxInfants;
     if (status) property.status = status;
+    if (allowUnpaidConfirmation !== undefined) {
+      property.allowUnpaidConfirmation = allowUnpaidConfirmation === true || allowUnpaidConfirmation === 'true';
+    }
+    if (paymentDeadlineHours !== undefined) {
+      // An empty value falls back to the global default
+      property.paymentDeadlineHours = paymentDeadlineHours === "" ? undefined : +paymentDeadlineHours;
+    }
+    property.bookingMode = bookingModeSettings.bookingMode!;
+    property.instantBookRequirements = bookingModeSettings.instantBookRequirements!;
+    property.hostResponseHours = bookingModeSettings.hostResponseHours;
+    property.cancellationPolicy = cancellationSettings.policy!;
+    property.cancellationTiers = cancellationSettings.tiers!;
 
     if (amenities) {
       try {
@@ -2,7 +2,12 @@ import { Request, Response } from "express";
 import { uploadImagesToCloudinary } from "../helpers/uploadImagesToCloudinary";
 import { deleteImageFromCloudinary } from "../helpers/deleteImageFromCloudinary";
 import { TourPackage } from "../models/TourPackageModel";
+import { TourDeparture } from "../models/TourDepartureModel";
 import { TourPackageStatus } from "../@types/express/enums";
+import { resolveCancellationSettings } from "../helpers/cancellationPolicyHelper";
+import { resolveBookingModeSettings } from "../helpers/bookingRequestHelper";
+import { parseDepartureDate, refreshTourAvailability } from "../helpers/tourDepartureHelper";
+import { isValidTimeZone } from "../utils/timeZone";
 
 /* ====================== HOST TOUR FUNCTIONS ====================== */
 
@@ -19,9 +24,18 @@ export const createHostTour = async (req: Request, res: Response): Promise<void>
       price, 
       duration,
       maxCapacity,
+      maxInfants,
       location,
       amenities,
-      status 
+      status,
+      allowUnpaidConfirmation,
+      paymentDeadlineHours,
+      bookingMode,
+      instantBookVerifiedEmail,
+      instantBookMinCompletedStays,
+      hostResponseHours,
+      cancellationPolicy,
+      cancellationTiers
     } = req.body;
     
     const hostId = req.user?._id;
@@ -52,6 +66,33 @@ export const createHostTour = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    if (maxInfants !== undefined && maxInfants !== "" && (isNaN(+maxInfants) || +maxInfants < 0 || +maxInfants > 10)) {
+      res.status(400).json({ message: "❗ Max infants must be between 0 and 10" });
+      return;
+    }
+
+    if (paymentDeadlineHours !== undefined && paymentDeadlineHours !== "" && (isNaN(+paymentDeadlineHours) || +paymentDeadlineHours < 1 || +paymentDeadlineHours > 720)) {
+      res.status(400).json({ message: "❗ Payment deadline must be between 1 and 720 hours" });
+      return;
+    }
+
+    const cancellationSettings = resolveCancellationSettings(cancellationPolicy, cancellationTiers);
+    if (!cancellationSettings.valid) {
+      res.status(400).json({ message: cancellationSettings.message });
+      return;
+    }
+
+    const bookingModeSettings = resolveBookingModeSettings({
+      bookingMode,
+      instantBookVerifiedEmail,
+      instantBookMinCompletedStays,
+      hostResponseHours
+    });
+    if (!bookingModeSettings.valid) {
+      res.status(400).json({ message: bookingModeSettings.message });
+      return;
+    }
+
     // Validate status if provided
     if (status && !Object.values(TourPackageStatus).includes(status)) {
       res.status(400).json({ message: "❗ Invalid tour package status" });
@@ -88,9 +129,17 @@ export const createHostTour = async (req: Request, res: Response): Promise<void>
       price: +price,
       duration: duration ? +duration : undefined,
       maxCapacity: maxCapacity ? +maxCapacity : undefined,
+      maxInfants: maxInfants !== undefined && maxInfants !== "" ? +maxInfants : undefined,
       location: location?.trim(),
       amenities: parsedAmenities,
       status: status || TourPackageStatus.AVAILABLE,
+      allowUnpaidConfirmation: allowUnpaidConfirmation === true || allowUnpaidConfirmation === 'true',
+      paymentDeadlineHours: paymentDeadlineHours ? +paymentDeadlineHours : undefined,
+      bookingMode: bookingModeSettings.bookingMode,
+      instantBookRequirements: bookingModeSettings.instantBookRequirements,
+      hostResponseHours: bookingModeSettings.hostResponseHours,
+      cancellationPolicy: cancellationSettings.policy,
+      cancellationTiers: cancellationSettings.tiers,
       imageUrls,
       host: hostId,
     });
@@ -199,9 +248,18 @@ export const updateHostTour = async (req: Request, res: Response): Promise<void>
       price, 
       duration,
       maxCapacity,
+      maxInfants,
       location,
       amenities,
       status,
+      allowUnpaidConfirmation,
+      paymentDeadlineHours,
+      bookingMode,
+      instantBookVerifiedEmail,
+      instantBookMinCompletedStays,
+      hostResponseHours,
+      cancellationPolicy,
+      cancellationTiers,
       removedImages 
     } = req.body;
 
@@ -229,6 +287,34 @@ export const updateHostTour = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    if (maxInfants !== undefined && maxInfants !== "" && (isNaN(+maxInfants) || +maxInfants < 0 || +maxInfants > 10)) {
+      res.status(400).json({ message: "❗ Max infants must be between 0 and 10" });
+      return;
+    }
+
+    if (paymentDeadlineHours !== undefined && paymentDeadlineHours !== "" && (isNaN(+paymentDeadlineHours) || +paymentDeadlineHours < 1 || +paymentDeadlineHours > 720)) {
+      res.status(400).json({ message: "❗ Payment deadline must be between 1 and 720 hours" });
+      return;
+    }
+
+    const cancellationSettings = resolveCancellationSettings(cancellationPolicy, cancellationTiers, {
+      policy: tour.cancellationPolicy,
+      tiers: tour.cancellationTiers,
+    });
+    if (!cancellationSettings.valid) {
+      res.status(400).json({ message: cancellationSettings.message });
+      return;
+    }
+
+    const bookingModeSettings = resolveBookingModeSettings(
+      { bookingMode, instantBookVerifiedEmail, instantBookMinCompletedStays, hostResponseHours },
+      tour
+    );
+    if (!bookingModeSettings.valid) {
+      res.status(400).json({ message: bookingModeSettings.message });
+      return;
+    }
+
     // Validate status if provided
     if (status && !Object.values(TourPackageStatus).includes(status)) {
       res.status(400).json({ message: "❗ Invalid tour package status" });
@@ -241,8 +327,21 @@ export const updateHostTour = async (req: Request, res: Response): Promise<void>
     if (price) tour.price = +price;
     if (duration) tour.duration = +duration;
     if (maxCapacity) tour.maxCapacity = +maxCapacity;
+    if (maxInfants !== undefined && maxInfants !== "") tour.maxInfants = +maxInfants;
     if (location) tour.location = location.trim();
     if (status) tour.status = status;
+    if (allowUnpaidConfirmation !== undefined) {
+      tour.allowUnpaidConfirmation = allowUnpaidConfirmation === true || allowUnpaidConfirmation === 'true';
+    }
+    if (paymentDeadlineHours !== undefined) {
+      // An empty value falls back to the global default
+      tour.paymentDeadlineHours = paymentDeadlineHours === "" ? undefined : +paymentDeadlineHours;
+    }
+    tour.bookingMode = bookingModeSettings.bookingMode!;
+    tour.instantBookRequirements = bookingModeSettings.instantBookRequirements!;
+    tour.hostResponseHours = bookingModeSettings.hostResponseHours;
+    tour.cancellationPolicy = cancellationSettings.policy!;
+    tour.cancellationTiers = cancellationSettings.tiers!;
 
     // Handle amenities
     if (amenities) {
@@ -325,8 +424,9 @@ export const deleteHostTour = async (req: Request, res: Response): Promise<void>
 
     await Promise.allSettled(deletePromises);
 
-    // Delete the tour
+    // Delete the tour and its schedule
     await tour.deleteOne();
+    await TourDeparture.deleteMany({ tourPackage: tour._id });
 
     res.status(200).json({ 
       message: "✅ Tour deleted successfully", 
@@ -383,4 +483,286 @@ export const updateHostTourStatus = async (req: Request, res: Response): Promise
     console.error("❌ Error updating tour status:", error);
     res.status(500).json({ message: "❌ Server error while updating status" });
   }
-};
\ No newline at end of file
+};
+
+/* ====================== HOST TOUR DEPARTURES ====================== */
+
+const START_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * @desc    List the departures of one of the host's tours
+ * @route   GET /api/host/tours/:id/departures
+ * @access  Private (host only)
+ * @query   upcoming=true to hide past departures
+ */
+export const getHostTourDepartures = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+
+    if (!hostId) {
+      res.status(401).json({ message: "🚫 Unauthorized" });
+      return;
+    }
+
+    const tour = await TourPackage.findOne({ _id: req.params.id, host: hostId });
+    if (!tour) {
+      res.status(404).json({ message: "🚫 Tour not found or not owned by you" });
+      return;
+    }
+
+    const query: Record<string, any> = { tourPackage: tour._id };
+    if (req.query.upcoming === "true") {
+      const now = new Date();
+      query.date = { $gte: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())) };
+    }
+
+    const departures = await TourDeparture.find(query).sort({ date: 1, startTime: 1 });
+
+    res.status(200).json({
+      message: "✅ Tour departures retrieved successfully",
+      tourId: tour._id,
+      departures
+    });
+  } catch (error) {
+    console.error("❌ Error fetching tour departures:", error);
+    res.status(500).json({ message: "❌ Server error while fetching departures" });
+  }
+};
+
+/**
+ * @desc    Schedule a new departure for one of the host's tours
+ * @route   POST /api/host/tours/:id/departures
+ * @access  Private (host only)
+ * @body    { date: "YYYY-MM-DD", startTime: "HH:mm" (local time), timeZone? (IANA name, defaults to TOUR_TIME_ZONE),
+ *            guide?, seats? (defaults to the tour's max capacity), priceOverride? }
+ */
+export const createHostTourDeparture = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+    const { date, startTime, timeZone, guide, seats, priceOverride } = req.body;
+
+    if (!hostId) {
+      res.status(401).json({ message: "🚫 Unauthorized" });
+      return;
+    }
+
+    const tour = await TourPackage.findOne({ _id: req.params.id, host: hostId });
+    if (!tour) {
+      res.status(404).json({ message: "🚫 Tour not found or not owned by you" });
+      return;
+    }
+
+    const departureDate = parseDepartureDate(date);
+    if (!departureDate || !START_TIME_PATTERN.test(startTime || "")) {
+      res.status(400).json({ message: "❗ Date (YYYY-MM-DD) and start time (HH:mm) are required" });
+      return;
+    }
+
+    if (timeZone !== undefined && timeZone !== "" && !isValidTimeZone(timeZone)) {
+      res.status(400).json({ message: "❗ Time zone must be an IANA name such as America/Asuncion" });
+      return;
+    }
+
+    const departureSeats = Number(seats !== undefined && seats !== "" ? seats : tour.maxCapacity);
+    if (!Number.isInteger(departureSeats) || departureSeats < 1 || departureSeats > 100) {
+      res.status(400).json({ message: "❗ Seats must be a whole number between 1 and 100" });
+      return;
+    }
+
+    if (priceOverride !== undefined && priceOverride !== "" && (isNaN(+priceOverride) || +priceOverride < 0)) {
+      res.status(400).json({ message: "❗ Price override cannot be negative" });
+      return;
+    }
+
+    const departure = new TourDeparture({
+      tourPackage: tour._id,
+      date: departureDate,
+      startTime,
+      timeZone: timeZone || undefined,
+      guide: guide?.trim() || undefined,
+      seats: departureSeats,
+      priceOverride: priceOverride !== undefined && priceOverride !== "" ? +priceOverride : undefined
+    });
+
+    if (departure.startsAt <= new Date()) {
+      res.status(400).json({ message: "❗ Departures must be scheduled in the future" });
+      return;
+    }
+
+    await departure.save();
+    await refreshTourAvailability(tour._id as string);
+
+    res.status(201).json({
+      message: "✅ Departure scheduled successfully",
+      departure
+    });
+  } catch (error: any) {
+    console.error("❌ Error creating tour departure:", error);
+    if (error.name === "ValidationError") {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "❌ Server error while scheduling departure" });
+  }
+};
+
+/**
+ * @desc    Update a departure of one of the host's tours. Seats cannot go
+ *          below the seats already booked, and the date and start time can
+ *          only change while nobody has booked it.
+ * @route   PATCH /api/host/tours/:id/departures/:departureId
+ * @access  Private (host only)
+ * @body    { date?, startTime?, timeZone?, guide?, seats?, priceOverride? (empty to remove) }
+ */
+export const updateHostTourDeparture = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+    const { date, startTime, timeZone, guide, seats, priceOverride } = req.body;
+
+    if (!hostId) {
+      res.status(401).json({ message: "🚫 Unauthorized" });
+      return;
+    }
+
+    const tour = await TourPackage.findOne({ _id: req.params.id, host: hostId });
+    if (!tour) {
+      res.status(404).json({ message: "🚫 Tour not found or not owned by you" });
+      return;
+    }
+
+    const departure = await TourDeparture.findOne({ _id: req.params.departureId, tourPackage: tour._id });
+    if (!departure) {
+      res.status(404).json({ message: "🚫 Departure not found" });
+      return;
+    }
+
+    if (date !== undefined || startTime !== undefined || timeZone !== undefined) {
+      if (departure.seatsBooked > 0) {
+        res.status(409).json({ message: "❗ Guests already booked this departure; schedule a new one instead" });
+        return;
+      }
+
+      const departureDate = date !== undefined ? parseDepartureDate(date) : departure.date;
+      if (!departureDate || (startTime !== undefined && !START_TIME_PATTERN.test(startTime))) {
+        res.status(400).json({ message: "❗ Date must be YYYY-MM-DD and start time HH:mm" });
+        return;
+      }
+      if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+        res.status(400).json({ message: "❗ Time zone must be an IANA name such as America/Asuncion" });
+        return;
+      }
+
+      departure.date = departureDate;
+      if (startTime !== undefined) departure.startTime = startTime;
+      if (timeZone !== undefined) departure.timeZone = timeZone;
+
+      if (departure.startsAt <= new Date()) {
+        res.status(400).json({ message: "❗ Departures must be scheduled in the future" });
+        return;
+      }
+    }
+
+    if (seats !== undefined && seats !== "") {
+      if (!Number.isInteger(+seats) || +seats < 1 || +seats > 100) {
+        res.status(400).json({ message: "❗ Seats must be a whole number between 1 and 100" });
+        return;
+      }
+      if (+seats < departure.seatsBooked) {
+        res.status(409).json({ message: `❗ ${departure.seatsBooked} seats are already booked on this departure` });
+        return;
+      }
+    }
+
+    if (priceOverride !== undefined && priceOverride !== "" && (isNaN(+priceOverride) || +priceOverride < 0)) {
+      res.status(400).json({ message: "❗ Price override cannot be negative" });
+      return;
+    }
+
+    if (guide !== undefined) departure.guide = guide?.trim() || undefined;
+    if (priceOverride !== undefined) {
+      departure.priceOverride = priceOverride === "" || priceOverride === null ? undefined : +priceOverride;
+    }
+
+    // Seats are set with a guarded update, so a booking made meanwhile is never cut off
+    if (seats !== undefined && seats !== "") {
+      const resized = await TourDeparture.findOneAndUpdate(
+        { _id: departure._id, seatsBooked: { $lte: +seats } },
+        { $set: { seats: +seats } },
+        { new: true }
+      );
+      if (!resized) {
+        res.status(409).json({ message: "❗ Seats were booked meanwhile, please try again" });
+        return;
+      }
+      departure.seats = resized.seats;
+      departure.seatsBooked = resized.seatsBooked;
+    }
+
+    // Seat counts were already written by the guarded update above
+    departure.unmarkModified("seats");
+    departure.unmarkModified("seatsBooked");
+    await departure.save();
+    await refreshTourAvailability(tour._id as string);
+
+    res.status(200).json({
+      message: "✅ Departure updated successfully",
+      departure
+    });
+  } catch (error: any) {
+    console.error("❌ Error updating tour departure:", error);
+    if (error.name === "ValidationError") {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "❌ Server error while updating departure" });
+  }
+};
+
+/**
+ * @desc    Remove a departure nobody has booked
+ * @route   DELETE /api/host/tours/:id/departures/:departureId
+ * @access  Private (host only)
+ */
+export const deleteHostTourDeparture = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hostId = req.user?._id;
+
+    if (!hostId) {
+      res.status(401).json({ message: "🚫 Unauthorized" });
+      return;
+    }
+
+    const tour = await TourPackage.findOne({ _id: req.params.id, host: hostId });
+    if (!tour) {
+      res.status(404).json({ message: "🚫 Tour not found or not owned by you" });
+      return;
+    }
+
+    // Only deleted while no seats are booked (checked in the same query)
+    const departure = await TourDeparture.findOneAndDelete({
+      _id: req.params.departureId,
+      tourPackage: tour._id,
+      seatsBooked: 0
+    });
+
+    if (!departure) {
+      const exists = await TourDeparture.exists({ _id: req.params.departureId, tourPackage: tour._id });
+      res.status(exists ? 409 : 404).json({
+        message: exists
+          ? "❗ Guests booked this departure; cancel their bookings first"
+          : "🚫 Departure not found"
+      });
+      return;
+    }
+
+    await refreshTourAvailability(tour._id as string);
+
+    res.status(200).json({
+      message: "✅ Departure deleted successfully",
+      departureId: departure._id
+    });
+  } catch (error) {
+    console.error("❌ Error deleting tour departure:", error);
+    res.status(500).json({ message: "❌ Server error while deleting departure" });
+  }
+};
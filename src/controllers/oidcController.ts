@@ -0,0 +1,254 @@
+import { Request, Response } from "express";
+import { User, IUser } from "../models/User";
+import { OidcState } from "../models/OidcStateModel";
+import { getOidcProviders, getOidcProvider, OidcProviderConfig } from "../config/oidcProviders";
+import {
+  generateAuthorizationParams,
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  isEmailVerified,
+  OidcIdTokenClaims,
+} from "../helpers/oidcHelper";
+import { startSession, revokeAllUserSessions } from "../helpers/sessionHelper";
+import { isTwoFactorRequiredForRole } from "../helpers/securitySettingsHelper";
+import { generateTwoFactorChallengeToken } from "../utils/generateToken";
+import { AccountStatus } from "../@types/express/enums";
+
+// How long the user has to complete the sign-in on the provider
+const STATE_TTL_MINUTES = 10;
+
+// Cookie binding a pending sign-in to the browser that started it (prevents login CSRF)
+const STATE_COOKIE = "oidc_state";
+const STATE_COOKIE_PATH = "/api/auth/oidc";
+
+/**
+ * Reads a cookie from the request headers
+ */
+const readCookie = (req: Request, name: string): string | undefined => {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+};
+
+/**
+ * Redirects the browser back to the web app with the login result in the URL fragment
+ * (the fragment is never sent to servers, so tokens do not end up in access logs)
+ */
+const redirectToClient = (res: Response, params: Record<string, string>): void => {
+  const clientUrl = process.env.CLIENT_URL || "http://localhost:5173";
+  res.redirect(`${clientUrl}/auth/oidc/callback#${new URLSearchParams(params).toString()}`);
+};
+
+/**
+ * Finds the user of an external identity, linking it by verified email
+ * or creating a new account without password when needed
+ * @param provider - The provider the user signed in with
+ * @param claims - The verified ID token claims
+ * @returns The user, or an error message when the identity cannot be used
+ */
+const findOrCreateOidcUser = async (
+  provider: OidcProviderConfig,
+  claims: OidcIdTokenClaims
+): Promise<{ user?: IUser; error?: string }> => {
+  const linkedUser = await User.findOne({
+    identities: { $elemMatch: { provider: provider.name, subject: claims.sub } },
+  });
+  if (linkedUser) return { user: linkedUser };
+
+  // Without a verified email the identity cannot be matched to an account safely
+  if (!isEmailVerified(claims)) {
+    return { error: `Your ${provider.displayName} account has no verified email address` };
+  }
+
+  const email = claims.email!.trim().toLowerCase();
+  const identity = { provider: provider.name, subject: claims.sub, email, linkedAt: new Date() };
+
+  const existingUser = await User.findOne({ email });
+  if (existingUser) {
+    existingUser.identities.push(identity);
+
+    // The provider has verified the address. A self-registered account still waiting for
+    // its verification link was created by someone who never proved they own the address,
+    // so its password and sessions are dropped: only the address owner keeps access.
+    const wasPendingVerification = existingUser.accountStatus === AccountStatus.PENDING_VERIFICATION;
+    if (!existingUser.emailVerifiedAt) {
+      existingUser.emailVerifiedAt = new Date();
+    }
+    if (wasPendingVerification) {
+      existingUser.accountStatus = AccountStatus.ACTIVE;
+      existingUser.set("password", undefined);
+      existingUser.hasPassword = false;
+    }
+    await existingUser.save();
+
+    if (wasPendingVerification) {
+      await revokeAllUserSessions(existingUser._id, "Email verified by social login");
+    }
+    return { user: existingUser };
+  }
+
+  const [firstName, ...lastNames] = (claims.name || "").trim().split(/\s+/);
+  const newUser = await User.create({
+    firstName: claims.given_name || firstName || email.split("@")[0],
+    lastName: claims.family_name || lastNames.join(" ") || "-",
+    email,
+    hasPassword: false,
+    identities: [identity],
+    phone: "Not provided",
+    address: "No address provided",
+    role: "user",
+    accountStatus: AccountStatus.ACTIVE,
+    emailVerifiedAt: new Date(),
+  });
+
+  return { user: newUser };
+};
+
+/* ========================= OIDC CONTROLLERS ========================= */
+
+/**
+ * @desc    List the enabled social login providers
+ * @route   GET /api/auth/oidc/providers
+ * @access  Public
+ */
+export const getOidcProviderList = async (req: Request, res: Response): Promise<void> => {
+  res.status(200).json({
+    message: "✅ Login providers retrieved successfully",
+    providers: getOidcProviders().map((provider) => ({
+      name: provider.name,
+      displayName: provider.displayName,
+      loginUrl: `/api/auth/oidc/${provider.name}`,
+    })),
+  });
+};
+
+/**
+ * @desc    Start the authorization-code flow: redirect to the provider sign-in page
+ * @route   GET /api/auth/oidc/:provider
+ * @access  Public
+ */
+export const startOidcLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const provider = getOidcProvider(req.params.provider);
+    if (!provider) {
+      res.status(404).json({ message: "🚫 Login provider not found" });
+      return;
+    }
+
+    const { state, nonce, codeVerifier, codeChallenge } = generateAuthorizationParams();
+    const authorizationUrl = await buildAuthorizationUrl(provider, { state, nonce, codeChallenge });
+
+    await OidcState.create({
+      state,
+      provider: provider.name,
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + STATE_TTL_MINUTES * 60 * 1000),
+    });
+
+    // Lax so the cookie is sent on the top-level redirect back from the provider
+    res.cookie(STATE_COOKIE, state, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: STATE_COOKIE_PATH,
+      maxAge: STATE_TTL_MINUTES * 60 * 1000,
+    });
+
+    res.redirect(authorizationUrl);
+  } catch (error) {
+    console.error("❌ Error starting OIDC login:", error);
+    res.status(502).json({ message: "❌ Could not reach the login provider" });
+  }
+};
+
+/**
+ * @desc    Provider callback: exchange the code, sign the user in and redirect to the web app
+ * @route   GET /api/auth/oidc/:provider/callback
+ * @access  Public
+ */
+export const oidcCallback = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const provider = getOidcProvider(req.params.provider);
+    if (!provider) {
+      res.status(404).json({ message: "🚫 Login provider not found" });
+      return;
+    }
+
+    const { code, state, error } = req.query as Record<string, string | undefined>;
+    const browserState = readCookie(req, STATE_COOKIE);
+    res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+
+    if (error) {
+      redirectToClient(res, { error: `Sign in with ${provider.displayName} was cancelled` });
+      return;
+    }
+
+    if (!code || !state) {
+      redirectToClient(res, { error: "Invalid login response" });
+      return;
+    }
+
+    // The sign-in must finish in the browser that started it
+    if (!browserState || browserState !== state) {
+      redirectToClient(res, { error: "Login request expired, please try again" });
+      return;
+    }
+
+    // Each state is consumed once, and must belong to this provider and still be valid
+    const pendingState = await OidcState.findOneAndDelete({ state, provider: provider.name });
+    if (!pendingState || pendingState.expiresAt < new Date()) {
+      redirectToClient(res, { error: "Login request expired, please try again" });
+      return;
+    }
+
+    let claims: OidcIdTokenClaims;
+    try {
+      claims = await exchangeAuthorizationCode(provider, code, pendingState.codeVerifier, pendingState.nonce);
+    } catch (exchangeError) {
+      console.error("❌ OIDC code exchange failed:", exchangeError);
+      redirectToClient(res, { error: `Could not sign in with ${provider.displayName}` });
+      return;
+    }
+
+    const { user, error: userError } = await findOrCreateOidcUser(provider, claims);
+    if (!user) {
+      redirectToClient(res, { error: userError || "Could not sign in" });
+      return;
+    }
+
+    if (user.accountStatus === AccountStatus.SUSPENDED || user.accountStatus === AccountStatus.DELETED) {
+      redirectToClient(res, { error: `Account is ${user.accountStatus}` });
+      return;
+    }
+
+    // Same second step as the password login
+    if (user.twoFactorEnabled) {
+      redirectToClient(res, {
+        twoFactorRequired: "true",
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString(), "2fa_login"),
+      });
+      return;
+    }
+
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      redirectToClient(res, {
+        twoFactorSetupRequired: "true",
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString(), "2fa_setup"),
+      });
+      return;
+    }
+
+    const { token, refreshToken } = await startSession(user._id, {
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+
+    redirectToClient(res, { token, refreshToken });
+  } catch (error) {
+    console.error("❌ Error in OIDC callback:", error);
+    redirectToClient(res, { error: "Server error during sign in" });
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { TourPackage } from '../models/TourPackageModel';
+import { TourDeparture } from '../models/TourDepartureModel';
 import { TourPackageStatus } from '../@types/express/enums';
 
 /**
@@ -41,3 +42,45 @@ export const getAvailableTourPackages = async (_req: Request, res: Response): Pr
     res.status(500).json({ message: '❌ Server error while fetching public tour packages' });
   }
 };
+
+/**
+ * @desc Get the upcoming departures of a tour with the seats left
+ * @route GET /tours/:id/departures
+ * @access Public
+ */
+export const getPublicTourDepartures = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tour = await TourPackage.findById(req.params.id).select('title price status');
+    if (!tour) {
+      res.status(404).json({ message: '🚫 Tour package not found' });
+      return;
+    }
+
+    // Dates are local days: start a day early so late departures west of UTC are kept
+    const now = new Date();
+    const yesterday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - 1));
+    const departures = await TourDeparture.find({ tourPackage: tour._id, date: { $gte: yesterday } })
+      .sort({ date: 1, startTime: 1 });
+
+    res.status(200).json({
+      message: '✅ Tour departures retrieved successfully',
+      tour,
+      departures: departures
+        .filter((departure) => departure.startsAt > now)
+        .map((departure) => ({
+          _id: departure._id,
+          date: departure.date,
+          startTime: departure.startTime,
+          timeZone: departure.timeZone,
+          startsAt: departure.startsAt,
+          guide: departure.guide,
+          price: departure.priceOverride ?? tour.price,
+          seats: departure.seats,
+          remainingSeats: departure.remainingSeats
+        }))
+    });
+  } catch (error) {
+    console.error('❌ Error fetching public tour departures:', error);
+    res.status(500).json({ message: '❌ Server error while fetching tour departures' });
+  }
+};
@@ -0,0 +1,83 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Session } from "../models/SessionModel";
+import { revokeSession } from "../helpers/sessionHelper";
+
+/* ========================= USER SESSIONS ========================= */
+
+/**
+ * @desc    List the logged-in user's active sessions (devices)
+ * @route   GET /api/users/sessions
+ * @access  Private (authenticated user)
+ */
+export const getMySessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({ message: "❌ Unauthorized" });
+      return;
+    }
+
+    const sessions = await Session.find({
+      user: userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastSeenAt: -1 });
+
+    res.status(200).json({
+      message: "✅ Sessions retrieved successfully",
+      total: sessions.length,
+      sessions: sessions.map((session) => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        current: session.id === req.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error("❌ Error fetching sessions:", error);
+    res.status(500).json({ message: "❌ Internal server error" });
+  }
+};
+
+/**
+ * @desc    Revoke one of the logged-in user's sessions (e.g. a lost phone)
+ * @route   DELETE /api/users/sessions/:id
+ * @access  Private (authenticated user)
+ */
+export const revokeMySession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const sessionId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ message: "❌ Unauthorized" });
+      return;
+    }
+
+    if (!Types.ObjectId.isValid(sessionId)) {
+      res.status(400).json({ message: "❌ Invalid session ID" });
+      return;
+    }
+
+    const session = await Session.findOne({ _id: sessionId, user: userId });
+    if (!session || session.revokedAt) {
+      res.status(404).json({ message: "❌ Session not found" });
+      return;
+    }
+
+    await revokeSession(session.id, "Revoked by user");
+
+    res.status(200).json({
+      message: "✅ Session revoked successfully",
+      sessionId: session._id,
+      current: session.id === req.sessionId,
+    });
+  } catch (error) {
+    console.error("❌ Error revoking session:", error);
+    res.status(500).json({ message: "❌ Internal server error" });
+  }
+};
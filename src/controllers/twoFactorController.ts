@@ -0,0 +1,358 @@
+import { Request, Response } from "express";
+import { User, IUser } from "../models/User";
+import { verifyTwoFactorChallengeToken } from "../utils/generateToken";
+import { generateTotpSecret, verifyTotpCode, findTotpTimeStep, buildOtpAuthUri } from "../utils/totp";
+import { generateRandomToken, hashToken } from "../utils/cryptoToken";
+import { startSession } from "../helpers/sessionHelper";
+import {
+  checkIpThrottle,
+  checkAccountThrottle,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+} from "../helpers/loginThrottle";
+import { isTwoFactorRequiredForRole } from "../helpers/securitySettingsHelper";
+
+const TWO_FACTOR_ROLES = ["admin", "host"];
+const BACKUP_CODES_COUNT = 10;
+
+/**
+ * Generates a fresh set of backup codes (e.g. "a1b2-c3d4")
+ * @returns The plain codes (shown once) and their hashes (stored)
+ */
+const generateBackupCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: BACKUP_CODES_COUNT }, () => {
+    const raw = generateRandomToken(4);
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  });
+
+  return { codes, hashes: codes.map((code) => hashToken(code)) };
+};
+
+/**
+ * Normalizes a backup code typed by the user before hashing
+ */
+const normalizeBackupCode = (code: string): string => {
+  const cleaned = String(code).trim().toLowerCase().replace(/[^a-f0-9]/g, "");
+  return `${cleaned.slice(0, 4)}-${cleaned.slice(4)}`;
+};
+
+/**
+ * Resolves the user enrolling 2FA: the authenticated user, or the user
+ * identified by a "2fa_setup" challenge token issued by login.
+ */
+const resolveEnrollingUser = async (req: Request): Promise<IUser | null> => {
+  let userId: string | undefined = req.user?._id.toString();
+
+  if (!userId && req.body?.challengeToken) {
+    try {
+      userId = verifyTwoFactorChallengeToken(req.body.challengeToken, "2fa_setup");
+    } catch {
+      return null;
+    }
+  }
+
+  if (!userId) return null;
+
+  return User.findById(userId).select("+twoFactorSecret +twoFactorPendingSecret +twoFactorBackupCodes");
+};
+
+/**
+ * Issues the access and refresh tokens once every login step succeeded
+ */
+const sendLoginSuccess = async (req: Request, res: Response, user: IUser, extra: object = {}): Promise<void> => {
+  const { token, refreshToken } = await startSession(user._id, {
+    ip: req.ip,
+    userAgent: req.get("user-agent"),
+  });
+
+  res.status(200).json({
+    message: "✅ Login successful",
+    user: {
+      id: user._id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      phone: user.phone,
+      address: user.address,
+      role: user.role,
+      accountStatus: user.accountStatus,
+    },
+    token,
+    refreshToken,
+    ...extra,
+  });
+};
+
+/* ==================== TWO-FACTOR CONTROLLERS ==================== */
+
+/**
+ * @desc    Start TOTP enrollment: generate a secret and its provisioning URI
+ * @route   POST /api/auth/2fa/setup (authenticated)
+ * @route   POST /api/auth/2fa/enroll/setup (with a "2fa_setup" challengeToken)
+ * @access  Private (admin and host)
+ */
+export const setupTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await resolveEnrollingUser(req);
+
+    if (!user) {
+      res.status(401).json({ message: "❌ Unauthorized: invalid or expired challenge" });
+      return;
+    }
+
+    if (!TWO_FACTOR_ROLES.includes(user.role)) {
+      res.status(403).json({ message: "❌ Two-factor authentication is available for admins and hosts only" });
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({ message: "❗ Two-factor authentication is already enabled" });
+      return;
+    }
+
+    // The secret only becomes active once a valid code is confirmed
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    res.status(200).json({
+      message: "✅ Scan the QR code with your authenticator app and confirm with a code",
+      secret,
+      otpauthUrl: buildOtpAuthUri(secret, user.email),
+    });
+  } catch (error) {
+    console.error("❌ Error in setupTwoFactor:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
+
+/**
+ * @desc    Confirm TOTP enrollment with a code and receive backup codes
+ * @route   POST /api/auth/2fa/enable (authenticated)
+ * @route   POST /api/auth/2fa/enroll/enable (with a "2fa_setup" challengeToken, completes login)
+ * @access  Private (admin and host)
+ */
+export const enableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const user = await resolveEnrollingUser(req);
+
+    if (!user) {
+      res.status(401).json({ message: "❌ Unauthorized: invalid or expired challenge" });
+      return;
+    }
+
+    if (!code) {
+      res.status(400).json({ message: "❗ Verification code is required" });
+      return;
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      res.status(400).json({ message: "❗ Start the two-factor setup first" });
+      return;
+    }
+
+    if (!verifyTotpCode(user.twoFactorPendingSecret, code)) {
+      res.status(400).json({ message: "❗ Invalid verification code" });
+      return;
+    }
+
+    const { codes, hashes } = generateBackupCodes();
+
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorBackupCodes = hashes;
+    user.twoFactorEnabled = true;
+    await user.save();
+
+    // Enrollment forced at login: finish the login now
+    if (!req.user) {
+      await sendLoginSuccess(req, res, user, { backupCodes: codes });
+      return;
+    }
+
+    res.status(200).json({
+      message: "✅ Two-factor authentication enabled. Store your backup codes safely",
+      backupCodes: codes,
+    });
+  } catch (error) {
+    console.error("❌ Error in enableTwoFactor:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
+
+/**
+ * @desc    Second login step: verify a TOTP or backup code and issue tokens
+ * @route   POST /api/auth/2fa/verify
+ * @access  Public (requires a "2fa_login" challengeToken)
+ */
+export const verifyTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { challengeToken, code, backupCode } = req.body;
+
+    if (!challengeToken || (!code && !backupCode)) {
+      res.status(400).json({ message: "❗ Challenge token and a code are required" });
+      return;
+    }
+
+    let userId: string;
+    try {
+      userId = verifyTwoFactorChallengeToken(challengeToken, "2fa_login");
+    } catch {
+      res.status(401).json({ message: "❌ Invalid or expired challenge, please log in again" });
+      return;
+    }
+
+    const user = await User.findById(userId).select("+twoFactorSecret +twoFactorBackupCodes");
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      res.status(401).json({ message: "❌ Invalid or expired challenge, please log in again" });
+      return;
+    }
+
+    // Same throttling as the password step: a locked account cannot keep guessing codes
+    const clientIp = req.ip || "unknown";
+    const ipThrottle = await checkIpThrottle(clientIp);
+    const accountThrottle = checkAccountThrottle(user);
+    if (!ipThrottle.allowed || !accountThrottle.allowed) {
+      const retryAfterSeconds = Math.max(ipThrottle.retryAfterSeconds || 0, accountThrottle.retryAfterSeconds || 0);
+      res.set("Retry-After", String(retryAfterSeconds));
+      res.status(accountThrottle.locked ? 423 : 429).json({
+        message: accountThrottle.locked
+          ? "🔒 Account is temporarily locked due to too many failed login attempts"
+          : "⏳ Too many login attempts, please try again later",
+        retryAfterSeconds,
+      });
+      return;
+    }
+
+    let verified = false;
+    let remainingBackupCodes: number | undefined;
+
+    if (code) {
+      // A code is accepted once: its time step must be newer than the last one used
+      const step = findTotpTimeStep(user.twoFactorSecret, code);
+      if (step !== null) {
+        const claimed = await User.updateOne(
+          {
+            _id: user._id,
+            $or: [{ twoFactorLastUsedStep: { $exists: false } }, { twoFactorLastUsedStep: { $lt: step } }],
+          },
+          { $set: { twoFactorLastUsedStep: step } }
+        );
+        verified = claimed.modifiedCount === 1;
+      }
+    } else {
+      // Backup codes are single-use: only the request that removes the code succeeds
+      const backupHash = hashToken(normalizeBackupCode(backupCode));
+      const updated = await User.findOneAndUpdate(
+        { _id: user._id, twoFactorBackupCodes: backupHash },
+        { $pull: { twoFactorBackupCodes: backupHash } },
+        { new: true }
+      ).select("+twoFactorBackupCodes");
+      if (updated) {
+        verified = true;
+        remainingBackupCodes = updated.twoFactorBackupCodes?.length || 0;
+      }
+    }
+
+    if (!verified) {
+      await recordFailedLogin(clientIp, user);
+      res.status(401).json({ message: "❗ Invalid verification code" });
+      return;
+    }
+
+    await recordSuccessfulLogin(user);
+
+    await sendLoginSuccess(
+      req,
+      res,
+      user,
+      remainingBackupCodes !== undefined ? { remainingBackupCodes } : {}
+    );
+  } catch (error) {
+    console.error("❌ Error in verifyTwoFactorLogin:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
+
+/**
+ * @desc    Disable two-factor authentication (requires password and a current code)
+ * @route   POST /api/auth/2fa/disable
+ * @access  Private (admin and host)
+ */
+export const disableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password, code } = req.body;
+
+    if (!password || !code) {
+      res.status(400).json({ message: "❗ Password and verification code are required" });
+      return;
+    }
+
+    const user = await User.findById(req.user?._id).select("+twoFactorSecret +twoFactorBackupCodes");
+    if (!user) {
+      res.status(404).json({ message: "❌ User not found" });
+      return;
+    }
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      res.status(400).json({ message: "❗ Two-factor authentication is not enabled" });
+      return;
+    }
+
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      res.status(403).json({ message: `🚫 Two-factor authentication is mandatory for the ${user.role} role` });
+      return;
+    }
+
+    const isMatch = await user.comparePassword(password);
+    if (!isMatch || !verifyTotpCode(user.twoFactorSecret, code)) {
+      res.status(401).json({ message: "❗ Invalid password or verification code" });
+      return;
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorBackupCodes = [];
+    await user.save();
+
+    res.status(200).json({ message: "✅ Two-factor authentication disabled" });
+  } catch (error) {
+    console.error("❌ Error in disableTwoFactor:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
+
+/**
+ * @desc    Replace all backup codes with a new set
+ * @route   POST /api/auth/2fa/backup-codes
+ * @access  Private (admin and host)
+ */
+export const regenerateBackupCodes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    const user = await User.findById(req.user?._id).select("+twoFactorSecret +twoFactorBackupCodes");
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      res.status(400).json({ message: "❗ Two-factor authentication is not enabled" });
+      return;
+    }
+
+    if (!code || !verifyTotpCode(user.twoFactorSecret, code)) {
+      res.status(401).json({ message: "❗ Invalid verification code" });
+      return;
+    }
+
+    const { codes, hashes } = generateBackupCodes();
+    user.twoFactorBackupCodes = hashes;
+    await user.save();
+
+    res.status(200).json({
+      message: "✅ New backup codes generated. Previous codes no longer work",
+      backupCodes: codes,
+    });
+  } catch (error) {
+    console.error("❌ Error in regenerateBackupCodes:", error);
+    res.status(500).json({ message: "❌ Server error" });
+  }
+};
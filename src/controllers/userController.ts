@@ -25,16 +25,21 @@ export const updateUserProfile = async (
       return;
     }
 
+    // Email changes need confirmation from the new address (POST /api/users/email)
+    if (req.body.email !== undefined && String(req.body.email).trim().toLowerCase() !== user.email) {
+      res.status(400).json({ message: "❗ Use POST /api/users/email to change your email" });
+      return;
+    }
+
 //Define fields to be updated
 type UpdatableFields = {
     firstName?: string;
     lastName?: string;
-    email?: string;
     phone?: string;
     address?: string;
   };
 
-  const allowedFields = [ "firstName", "lastName", "email", "phone", "address"];
+  const allowedFields = [ "firstName", "lastName", "phone", "address"];
   const updates : UpdatableFields = {};
 
   //Only assign values that are provided and are allowed
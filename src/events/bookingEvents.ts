@@ -0,0 +1,37 @@
+import { EventEmitter } from "events";
+import { IBooking } from "../models/BookingModel";
+import { BookingEvent } from "../@types/express/enums";
+
+export interface BookingEventPayload {
+  booking: IBooking;
+  reason?: string;
+}
+
+type BookingEventListener = (payload: BookingEventPayload) => void | Promise<void>;
+
+/**
+ * In-process bus for booking lifecycle events.
+ * Features hook into bookings with onBookingEvent() instead of editing the code that changes them.
+ */
+const bookingEvents = new EventEmitter();
+
+/**
+ * Registers a listener for a booking event. Errors thrown by the listener
+ * (sync or async) are logged and never reach the code that emitted the event.
+ * @param event - Event to listen to
+ * @param listener - Called with the booking and optional details
+ */
+export const onBookingEvent = (event: BookingEvent, listener: BookingEventListener): void => {
+  bookingEvents.on(event, (payload: BookingEventPayload) => {
+    Promise.resolve()
+      .then(() => listener(payload))
+      .catch((error) => console.error(`❌ Error in "${event}" listener:`, error));
+  });
+};
+
+/**
+ * Notifies every listener of a booking event
+ */
+export const emitBookingEvent = (event: BookingEvent, payload: BookingEventPayload): void => {
+  bookingEvents.emit(event, payload);
+};
@@ -0,0 +1,186 @@
+import { Types } from "mongoose";
+import { User, IUser } from "../models/User";
+import { Booking } from "../models/BookingModel";
+import { Property } from "../models/PropertyModel";
+import { TourPackage } from "../models/TourPackageModel";
+import { HostApplication } from "../models/HostApplicationModel";
+import { ApiKey } from "../models/ApiKeyModel";
+import { TourDeparture } from "../models/TourDepartureModel";
+import { revokeAllUserSessions } from "./sessionHelper";
+import { deleteImageFromCloudinary } from "./deleteImageFromCloudinary";
+import { AccountStatus, BookingStatus, PropertyStatus, TourPackageStatus } from "../@types/express/enums";
+
+/**
+ * Days during which a requested account deletion can still be cancelled
+ */
+export const getDeletionGraceDays = (): number =>
+  Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 14;
+
+/**
+ * Checks whether an account can be closed now: guests and hosts must not have
+ * upcoming pending or confirmed bookings
+ * @param user - The account to close
+ * @returns Result with an explanation when deletion is not allowed
+ */
+export const canDeleteAccount = async (user: IUser): Promise<{ valid: boolean; message?: string }> => {
+  const upcoming = {
+    status: { $in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] },
+    checkOut: { $gte: new Date() },
+  };
+
+  const guestBookings = await Booking.countDocuments({ user: user._id, ...upcoming });
+  if (guestBookings > 0) {
+    return { valid: false, message: `❗ You have ${guestBookings} upcoming booking(s). Cancel them before closing your account` };
+  }
+
+  if (user.role === "host") {
+    const [properties, tours] = await Promise.all([
+      Property.find({ host: user._id }).distinct("_id"),
+      TourPackage.find({ host: user._id }).distinct("_id"),
+    ]);
+    const hostBookings = await Booking.countDocuments({
+      $or: [{ property: { $in: properties } }, { tourPackage: { $in: tours } }],
+      ...upcoming,
+    });
+    if (hostBookings > 0) {
+      return { valid: false, message: `❗ Your listings have ${hostBookings} upcoming booking(s). Resolve them before closing your account` };
+    }
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Checks that neither the guest nor the listing's host has scheduled the
+ * deletion of their account: bookings made during the grace period would
+ * outlive the account
+ * @param guestId - Who books
+ * @param hostId - Host of the booked property or tour
+ * @returns Result with an explanation when the booking is not allowed
+ */
+export const canBookDuringDeletion = async (
+  guestId: Types.ObjectId | string,
+  hostId?: Types.ObjectId | string
+): Promise<{ valid: boolean; message?: string }> => {
+  const closing = await User.find({
+    _id: { $in: hostId ? [guestId, hostId] : [guestId] },
+    deletionScheduledFor: { $exists: true },
+  }).select("_id");
+
+  if (closing.some((user) => user._id.equals(guestId))) {
+    return { valid: false, message: "❗ Your account is scheduled for deletion. Cancel the deletion to book again" };
+  }
+  if (closing.length > 0) {
+    return { valid: false, message: "❗ This listing is no longer taking bookings" };
+  }
+  return { valid: true };
+};
+
+/**
+ * Takes a host's listings off the market: properties become inactive, tours
+ * cancelled, and their future departures nobody booked are removed
+ * @param hostId - The host whose listings are closed
+ */
+const closeHostListings = async (hostId: Types.ObjectId): Promise<void> => {
+  await Property.updateMany({ host: hostId }, { $set: { status: PropertyStatus.INACTIVE } });
+
+  const tours = await TourPackage.find({ host: hostId }).distinct("_id");
+  await TourPackage.updateMany({ _id: { $in: tours } }, { $set: { status: TourPackageStatus.CANCELLED } });
+
+  const now = new Date();
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  await TourDeparture.deleteMany({ tourPackage: { $in: tours }, date: { $gte: today }, seatsBooked: 0 });
+};
+
+/**
+ * Anonymizes an account: removes personal data and credentials while keeping
+ * the document (and its bookings) for the hosts' accounting records.
+ * A host's listings are closed so nobody can book them anymore
+ * @param userId - The account to anonymize
+ * @returns The anonymized user, or null if not found
+ */
+export const anonymizeUser = async (userId: Types.ObjectId | string): Promise<IUser | null> => {
+  const user = await User.findById(userId);
+  if (!user) return null;
+
+  // Identity documents are only needed while an application is reviewed
+  const applications = await HostApplication.find({ user: user._id });
+  for (const application of applications) {
+    for (const documentUrl of application.identityDocuments) {
+      try {
+        await deleteImageFromCloudinary(documentUrl);
+      } catch (error) {
+        console.error("❌ Error deleting identity document:", error);
+      }
+    }
+  }
+  await HostApplication.deleteMany({ user: user._id });
+
+  if (user.role === "host") {
+    await closeHostListings(user._id);
+  }
+
+  user.firstName = "Deleted";
+  user.lastName = "User";
+  user.email = `deleted-${user._id}@deleted.guaranihost.invalid`;
+  user.phone = "Deleted";
+  user.address = "Deleted";
+  user.set("password", undefined);
+  user.hasPassword = false;
+  user.identities = [];
+  user.emailVerifiedAt = undefined;
+  user.passwordResetTokenHash = undefined;
+  user.passwordResetExpires = undefined;
+  user.pendingEmail = undefined;
+  user.emailChangeTokenHash = undefined;
+  user.emailChangeExpires = undefined;
+  user.previousEmail = undefined;
+  user.emailRevertTokenHash = undefined;
+  user.emailRevertExpires = undefined;
+  user.twoFactorEnabled = false;
+  user.twoFactorSecret = undefined;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorBackupCodes = undefined;
+  user.deletionScheduledFor = undefined;
+  user.accountStatus = AccountStatus.DELETED;
+  user.anonymizedAt = new Date();
+  await user.save();
+
+  await revokeAllUserSessions(user._id, "Account deleted");
+  await ApiKey.updateMany(
+    { user: user._id, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+
+  return user;
+};
+
+/**
+ * Anonymizes every account whose deletion grace period has ended. Accounts
+ * that got upcoming bookings in the meantime are skipped until those are over.
+ * @returns Number of anonymized accounts
+ */
+export const processScheduledDeletions = async (): Promise<number> => {
+  const dueUsers = await User.find({
+    deletionScheduledFor: { $lte: new Date() },
+    anonymizedAt: { $exists: false },
+  });
+
+  let processed = 0;
+  for (const user of dueUsers) {
+    try {
+      const check = await canDeleteAccount(user);
+      if (!check.valid) {
+        console.warn(`⏳ Deletion of user ${user._id} postponed: ${check.message}`);
+        continue;
+      }
+
+      await anonymizeUser(user._id);
+      processed++;
+    } catch (error) {
+      console.error(`❌ Error anonymizing user ${user._id}:`, error);
+    }
+  }
+
+  return processed;
+};
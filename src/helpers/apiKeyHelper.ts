@@ -0,0 +1,82 @@
+import { ApiKey, IApiKey } from "../models/ApiKeyModel";
+import { generateRandomToken, hashToken } from "../utils/cryptoToken";
+
+// Prefix identifying GuaraniHost API keys (helps secret scanners and support)
+const API_KEY_PREFIX = "gh_";
+
+// Number of characters of the key stored in clear to let hosts recognise it
+const VISIBLE_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Rate limiting window shared by every key
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/**
+ * Per-key request counters for the current window.
+ * Kept in memory: limits apply per server instance.
+ */
+const rateLimitWindows = new Map<string, { windowStart: number; count: number }>();
+
+/**
+ * Default requests per minute for new keys, configurable through environment variables
+ */
+export const getDefaultApiKeyRateLimit = (): number =>
+  Number(process.env.API_KEY_RATE_LIMIT_PER_MINUTE) || 60;
+
+/**
+ * Generates a new API key
+ * @returns The plain key (shown once to the host), its hash and visible prefix
+ */
+export const generateApiKey = (): { key: string; keyHash: string; prefix: string } => {
+  const key = `${API_KEY_PREFIX}${generateRandomToken(24)}`;
+  return { key, keyHash: hashToken(key), prefix: key.slice(0, VISIBLE_PREFIX_LENGTH) };
+};
+
+/**
+ * Finds the active API key matching a plain key
+ * @param key - The key sent in the X-API-Key header
+ * @returns The API key document, or null if unknown, revoked or expired
+ */
+export const findActiveApiKey = async (key: string): Promise<IApiKey | null> => {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const apiKey = await ApiKey.findOne({ keyHash: hashToken(key) });
+  if (!apiKey || apiKey.revokedAt) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt < new Date()) return null;
+
+  return apiKey;
+};
+
+/**
+ * Counts a request against the key's per-minute limit
+ * @param apiKey - The authenticated API key
+ * @returns Result with the remaining requests and, when exceeded, the seconds to wait
+ */
+export const consumeApiKeyRateLimit = (
+  apiKey: IApiKey
+): { allowed: boolean; limit: number; remaining: number; retryAfterSeconds: number } => {
+  const now = Date.now();
+  const limit = apiKey.rateLimitPerMinute;
+  let window = rateLimitWindows.get(apiKey.id);
+
+  if (!window || now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    window = { windowStart: now, count: 0 };
+    rateLimitWindows.set(apiKey.id, window);
+  }
+
+  const retryAfterSeconds = Math.ceil((window.windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000);
+
+  if (window.count >= limit) {
+    return { allowed: false, limit, remaining: 0, retryAfterSeconds };
+  }
+
+  window.count += 1;
+  return { allowed: true, limit, remaining: limit - window.count, retryAfterSeconds };
+};
+
+/**
+ * Forgets the rate limit counters of a revoked key
+ * @param apiKeyId - The revoked key ID
+ */
+export const clearApiKeyRateLimit = (apiKeyId: string): void => {
+  rateLimitWindows.delete(apiKeyId);
+};
@@ -0,0 +1,34 @@
+import { Request } from "express";
+import { Types } from "mongoose";
+import { AuditLog } from "../models/AuditLogModel";
+import { AuditAction } from "../@types/express/enums";
+import { MAX_USER_AGENT_LENGTH } from "./refreshTokenHelper";
+
+/**
+ * Writes an audit log entry. Failures are logged and never break the request.
+ * @param req - The request being audited (method, path, IP and user agent are taken from it)
+ * @param entry - Action, actor and optional details
+ */
+export const recordAuditLog = async (
+  req: Request,
+  entry: {
+    action: AuditAction;
+    actor: Types.ObjectId | string;
+    subject?: Types.ObjectId | string;
+    statusCode?: number;
+    blocked?: boolean;
+    reason?: string;
+  }
+): Promise<void> => {
+  try {
+    await AuditLog.create({
+      ...entry,
+      method: req.method,
+      path: req.originalUrl.slice(0, 500),
+      ip: req.ip,
+      userAgent: req.get("user-agent")?.slice(0, MAX_USER_AGENT_LENGTH),
+    });
+  } catch (error) {
+    console.error("❌ Error writing audit log:", error);
+  }
+};
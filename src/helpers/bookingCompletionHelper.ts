@@ -0,0 +1,110 @@
+import { Booking, IBooking } from "../models/BookingModel";
+import { Property } from "../models/PropertyModel";
+import { TourPackage } from "../models/TourPackageModel";
+import { IUser } from "../models/User";
+import { transitionBooking } from "./bookingLifecycle";
+import { emitBookingEvent } from "../events/bookingEvents";
+import { sendEmail } from "../utils/emailService";
+import { BookingEvent, BookingStatus, PaymentStatus } from "../@types/express/enums";
+
+export const UNPAID_AFTER_CHECKOUT_REASON = "Booking is confirmed but still unpaid after check-out";
+
+/**
+ * Emails the host of the booking's property or tour about a booking that needs attention
+ */
+const sendHostAttentionEmail = async (booking: IBooking): Promise<void> => {
+  const propertyId = (booking.property as any)?._id;
+  const tourId = (booking.tourPackage as any)?._id;
+
+  const listing = propertyId
+    ? await Property.findById(propertyId).select("title host").populate("host", "firstName email")
+    : await TourPackage.findById(tourId).select("title host").populate("host", "firstName email");
+
+  const host = listing?.host as unknown as IUser | undefined;
+  if (!listing || !host?.email) return;
+
+  try {
+    await sendEmail(
+      host.email,
+      "Booking Needs Your Attention - GuaraniHost",
+      `
+      <h2>⚠️ Unpaid Booking After Check-out</h2>
+      <p>Hello ${host.firstName},</p>
+      <p>The booking for <strong>${listing.title}</strong> (${booking.checkIn.toLocaleDateString()} - ${booking.checkOut.toLocaleDateString()}) is confirmed but its payment is still <strong>${booking.paymentStatus}</strong>.</p>
+      <p>Please update the payment status or contact the guest. The booking will be completed automatically once it is marked as paid.</p>
+      <p>Total Amount: $${booking.totalPrice}</p>
+      <br>
+      <p>Best regards,<br>GuaraniHost Team</p>
+      `
+    );
+  } catch (error) {
+    console.error("❌ Error sending host attention email:", error);
+  }
+};
+
+/**
+ * Completes confirmed, paid bookings whose check-out has passed, and flags
+ * confirmed bookings that are still unpaid after check-out for the host.
+ * Safe to run repeatedly: completed bookings no longer match and flagged
+ * bookings are only flagged (and emailed) once.
+ * @returns Number of completed or newly flagged bookings
+ */
+export const processCompletedBookings = async (): Promise<number> => {
+  const now = new Date();
+  let processed = 0;
+
+  const finished = await Booking.find({
+    status: BookingStatus.CONFIRMED,
+    paymentStatus: PaymentStatus.PAID,
+    checkOut: { $lte: now },
+  });
+
+  for (const booking of finished) {
+    try {
+      const transition = await transitionBooking(booking, BookingStatus.COMPLETED, "system");
+      if (!transition.valid) continue;
+
+      // Skip the booking if another process changed it since it was loaded
+      booking.$where = { status: BookingStatus.CONFIRMED, paymentStatus: PaymentStatus.PAID };
+      await booking.save();
+      processed++;
+
+      emitBookingEvent(BookingEvent.COMPLETED, { booking });
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") continue;
+      console.error(`❌ Error completing booking ${booking._id}:`, error);
+    }
+  }
+
+  const unpaid = await Booking.find({
+    status: BookingStatus.CONFIRMED,
+    paymentStatus: { $ne: PaymentStatus.PAID },
+    checkOut: { $lte: now },
+    hostAttentionRequired: { $ne: true },
+  });
+
+  for (const booking of unpaid) {
+    try {
+      // Conditional update so two job runs never flag (and email) the same booking twice
+      const flagged = await Booking.updateOne(
+        { _id: booking._id, hostAttentionRequired: { $ne: true } },
+        {
+          $set: {
+            hostAttentionRequired: true,
+            hostAttentionReason: UNPAID_AFTER_CHECKOUT_REASON,
+            hostAttentionFlaggedAt: now,
+          },
+        }
+      );
+      if (flagged.modifiedCount === 0) continue;
+      processed++;
+
+      emitBookingEvent(BookingEvent.ATTENTION_REQUIRED, { booking, reason: UNPAID_AFTER_CHECKOUT_REASON });
+      await sendHostAttentionEmail(booking);
+    } catch (error) {
+      console.error(`❌ Error flagging booking ${booking._id}:`, error);
+    }
+  }
+
+  return processed;
+};
@@ -0,0 +1,192 @@
+import { IBooking } from "../models/BookingModel";
+import { Property } from "../models/PropertyModel";
+import { TourPackage } from "../models/TourPackageModel";
+import { Types } from "mongoose";
+import { calculateRefund } from "./cancellationPolicyHelper";
+import { recordPaymentTransaction, TransactionRecorder } from "./paymentLedgerHelper";
+import { withdrawPendingModification } from "./bookingModificationHelper";
+import { BookingMode, BookingStatus, PaymentStatus, TransactionType } from "../@types/express/enums";
+
+/**
+ * Who is changing the booking status
+ */
+export type BookingActor = "guest" | "host" | "admin" | "system";
+
+/**
+ * Allowed status transitions per actor. CANCELLED and COMPLETED are final;
+ * only admins can move a confirmed booking back to pending.
+ */
+const BOOKING_TRANSITIONS: Record<BookingActor, Partial<Record<BookingStatus, BookingStatus[]>>> = {
+  guest: {
+    [BookingStatus.PENDING]: [BookingStatus.CANCELLED],
+    [BookingStatus.CONFIRMED]: [BookingStatus.CANCELLED],
+  },
+  host: {
+    [BookingStatus.PENDING]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
+    [BookingStatus.CONFIRMED]: [BookingStatus.COMPLETED, BookingStatus.CANCELLED],
+  },
+  admin: {
+    [BookingStatus.PENDING]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
+    [BookingStatus.CONFIRMED]: [BookingStatus.PENDING, BookingStatus.COMPLETED, BookingStatus.CANCELLED],
+  },
+  system: {
+    [BookingStatus.PENDING]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
+    [BookingStatus.CONFIRMED]: [BookingStatus.COMPLETED, BookingStatus.CANCELLED],
+  },
+};
+
+const DEFAULT_CANCELLATION_REASONS: Record<BookingActor, string> = {
+  guest: "Cancelled by guest",
+  host: "Cancelled by host",
+  admin: "Cancelled by admin",
+  system: "Cancelled automatically",
+};
+
+/**
+ * Lists the statuses an actor may move a booking to from its current status
+ */
+export const getAllowedTransitions = (from: BookingStatus, actor: BookingActor): BookingStatus[] =>
+  BOOKING_TRANSITIONS[actor][from] || [];
+
+/**
+ * Reads the listing's "confirm before payment" setting, whether or not the
+ * property/tour reference is populated
+ */
+const listingAllowsUnpaidConfirmation = async (booking: IBooking): Promise<boolean> => {
+  const propertyId = (booking.property as any)?._id;
+  const tourId = (booking.tourPackage as any)?._id;
+
+  const listing = propertyId
+    ? await Property.findById(propertyId).select("allowUnpaidConfirmation")
+    : await TourPackage.findById(tourId).select("allowUnpaidConfirmation");
+
+  return !!listing?.allowUnpaidConfirmation;
+};
+
+/**
+ * Checks whether a booking can move to a new status
+ * @param booking - Booking in its current state
+ * @param to - Requested status
+ * @param actor - Who requests the change
+ * @returns Result with an explanation when the transition is not allowed
+ */
+export const canTransitionBooking = async (
+  booking: IBooking,
+  to: BookingStatus,
+  actor: BookingActor
+): Promise<{ valid: boolean; message?: string }> => {
+  const from = booking.status;
+
+  if (!Object.values(BookingStatus).includes(to)) {
+    return { valid: false, message: "❗ Invalid booking status value" };
+  }
+
+  if (from === to) {
+    return { valid: false, message: `❗ Booking is already ${to}` };
+  }
+
+  if (!getAllowedTransitions(from, actor).includes(to)) {
+    return { valid: false, message: `❗ A ${actor} cannot change a ${from} booking to ${to}` };
+  }
+
+  if (to === BookingStatus.COMPLETED && booking.checkOut.getTime() > Date.now()) {
+    return { valid: false, message: "❗ A booking cannot be completed before its check-out date" };
+  }
+
+  // Instant-book bookings are confirmed on creation and paid before their payment deadline
+  if (
+    to === BookingStatus.CONFIRMED &&
+    booking.bookingMode !== BookingMode.INSTANT &&
+    booking.paymentStatus !== PaymentStatus.PAID &&
+    booking.paymentStatus !== PaymentStatus.PARTIALLY_PAID &&
+    !(await listingAllowsUnpaidConfirmation(booking))
+  ) {
+    return { valid: false, message: "❗ A booking cannot be confirmed until it is paid" };
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Moves a booking to a new status after checking the transition, and applies
+ * the side effects of that status (cancellation details, refund computed
+ * from the listing's cancellation policy, completion time, host approval).
+ * The booking is modified in memory; the caller saves it with a guard on the
+ * previous status, then calls recordCancellationRefund.
+ * @param booking - Booking to update
+ * @param to - Requested status
+ * @param actor - Who requests the change
+ * @param options - Optional cancellation reason and the user making the change
+ * @returns Result with an explanation when the transition is not allowed
+ */
+export const transitionBooking = async (
+  booking: IBooking,
+  to: BookingStatus,
+  actor: BookingActor,
+  options: { reason?: string; userId?: Types.ObjectId | string } = {}
+): Promise<{ valid: boolean; message?: string }> => {
+  const check = await canTransitionBooking(booking, to, actor);
+  if (!check.valid) {
+    return check;
+  }
+
+  booking.status = to;
+
+  if (to === BookingStatus.COMPLETED) {
+    booking.completedAt = new Date();
+  }
+
+  // Confirming a booking request also answers it
+  if (to === BookingStatus.CONFIRMED && booking.hostResponseDeadline && !booking.hostApprovedAt) {
+    booking.hostApprovedAt = new Date();
+  }
+
+  // A finished booking no longer needs the host's attention or a pending change
+  if (to === BookingStatus.COMPLETED || to === BookingStatus.CANCELLED) {
+    booking.hostAttentionRequired = false;
+    booking.hostAttentionReason = undefined;
+    booking.hostAttentionFlaggedAt = undefined;
+    withdrawPendingModification(booking);
+  }
+
+  if (to === BookingStatus.CANCELLED) {
+    booking.cancelledAt = new Date();
+    booking.cancellationReason = options.reason || DEFAULT_CANCELLATION_REASONS[actor];
+
+    // The listing's cancellation policy decides how much of the payment is refunded
+    booking.refund = await calculateRefund(booking, actor, booking.cancelledAt);
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Records the refund computed by a cancellation in the payment ledger and
+ * stores the resulting payment status. Call it only after the cancelled
+ * booking was saved with a guard on its previous status: a cancellation that
+ * is never saved, or loses a race with another one, then leaves no refund.
+ * @param booking - Booking saved as cancelled
+ * @param recorder - Who cancelled it
+ */
+export const recordCancellationRefund = async (
+  booking: IBooking,
+  recorder: TransactionRecorder
+): Promise<void> => {
+  if (booking.status !== BookingStatus.CANCELLED || !booking.refund?.amount) return;
+
+  const result = await recordPaymentTransaction(
+    booking,
+    {
+      type: TransactionType.REFUND,
+      amount: booking.refund.amount,
+      note: `Cancellation refund (${booking.refund.policy} policy, ${booking.refund.refundPercent}%)`,
+    },
+    recorder
+  );
+  if (!result.valid) {
+    console.error(`❌ Could not record the cancellation refund of booking ${booking._id}:`, result.message);
+    return;
+  }
+
+  await booking.updateOne({ $set: { paymentStatus: booking.paymentStatus } });
+};
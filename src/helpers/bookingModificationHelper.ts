@@ -0,0 +1,338 @@
+import { Types } from "mongoose";
+import { IBooking, IBookingModification } from "../models/BookingModel";
+import { TourPackage } from "../models/TourPackageModel";
+import { TourDeparture, ITourDeparture } from "../models/TourDepartureModel";
+import { calculateBookingQuote, pricesMatch, roundPrice, toPriceBreakdown, PriceQuote } from "./pricingHelper";
+import { validateBookingDates } from "./availabilityHelper";
+import { getBookingGuestBreakdown, parseGuestBreakdown, validateListingCapacity } from "./capacityHelper";
+import { reserveNights } from "./nightReservationHelper";
+import { changeBookingSeats, resolveTourDeparture } from "./tourDepartureHelper";
+import {
+  calculatePaymentTotals,
+  derivePaymentStatus,
+  getPaymentSummary,
+  PendingTransaction,
+  preparePaymentTransaction,
+  savePaymentTransaction,
+  TransactionRecorder,
+} from "./paymentLedgerHelper";
+import { BookingStatus, ModificationStatus, TransactionType } from "../@types/express/enums";
+
+/**
+ * Returns the guest's pending change request, if any
+ */
+export const getPendingModification = (booking: IBooking): IBookingModification | undefined =>
+  booking.modifications?.find((modification) => modification.status === ModificationStatus.PENDING);
+
+/**
+ * Closes a pending change request that no longer applies (replaced by a
+ * newer one, or the booking was cancelled or completed)
+ */
+export const withdrawPendingModification = (booking: IBooking): void => {
+  const pending = getPendingModification(booking);
+  if (pending) {
+    pending.status = ModificationStatus.WITHDRAWN;
+    pending.respondedAt = new Date();
+  }
+};
+
+/**
+ * Prices a guest's change of dates or guests (checked against the listing's
+ * capacity) and adds it to the booking as a pending request for the host.
+ * Tour bookings change date by choosing another departure.
+ * A newer request replaces the pending one.
+ * The booking is modified in memory; the caller saves it.
+ * @param booking - Booking the guest wants to change
+ * @param changes - New dates or departure and/or guests (adults, children, infants or a plain count)
+ * @param expectedTotal - Total shown to the guest, checked against the new quote when sent
+ * @returns The new request and its quote, or an explanation when it cannot be made
+ */
+export const requestBookingModification = async (
+  booking: IBooking,
+  changes: {
+    checkIn?: string | Date;
+    checkOut?: string | Date;
+    tourDeparture?: unknown;
+    guests?: unknown;
+    adults?: unknown;
+    children?: unknown;
+    infants?: unknown;
+  },
+  expectedTotal?: number
+): Promise<{ valid: boolean; message?: string; modification?: IBookingModification; quote?: PriceQuote }> => {
+  if (booking.status !== BookingStatus.PENDING && booking.status !== BookingStatus.CONFIRMED) {
+    return { valid: false, message: "❗ Only pending or confirmed bookings can be changed" };
+  }
+
+  const propertyId = (booking.property as any)?._id;
+  const tourId = (booking.tourPackage as any)?._id;
+
+  let checkIn = changes.checkIn ? new Date(changes.checkIn) : booking.checkIn;
+  let checkOut = changes.checkOut ? new Date(changes.checkOut) : booking.checkOut;
+
+  // A departure fixes the tour's dates: moving means choosing another departure
+  let departure: ITourDeparture | undefined;
+  if (tourId && (changes.tourDeparture || booking.tourDeparture)) {
+    if (changes.checkIn || changes.checkOut) {
+      return { valid: false, message: "❗ To change the tour date, choose another departure (tourDeparture)" };
+    }
+
+    if (changes.tourDeparture && String(changes.tourDeparture) !== booking.tourDeparture?.toString()) {
+      const resolved = await resolveTourDeparture(tourId, changes.tourDeparture);
+      if (!resolved.valid) {
+        return { valid: false, message: resolved.message };
+      }
+      departure = resolved.departure;
+      checkIn = resolved.checkIn!;
+      checkOut = resolved.checkOut!;
+    } else {
+      departure = (await TourDeparture.findById(booking.tourDeparture)) || undefined;
+      if (!departure) {
+        return { valid: false, message: "🚫 Departure not found for this tour" };
+      }
+    }
+  }
+  const sameDeparture = !!departure && departure.id === booking.tourDeparture?.toString();
+
+  const current = getBookingGuestBreakdown(booking);
+  const guestInput = parseGuestBreakdown(changes, current);
+  if (!guestInput.valid) {
+    return { valid: false, message: guestInput.message };
+  }
+  const breakdown = guestInput.breakdown!;
+
+  if (
+    (!departure || sameDeparture) &&
+    checkIn.getTime() === booking.checkIn.getTime() &&
+    checkOut.getTime() === booking.checkOut.getTime() &&
+    breakdown.adults === current.adults &&
+    breakdown.children === current.children &&
+    breakdown.infants === current.infants
+  ) {
+    return { valid: false, message: "❗ The requested dates and guests match the current booking" };
+  }
+
+  if (checkIn < new Date()) {
+    return { valid: false, message: "❗ Check-in cannot be in the past" };
+  }
+
+  // Availability is only checked here; the nights are reserved when the host accepts
+  if (propertyId) {
+    const availability = await validateBookingDates(propertyId.toString(), checkIn, checkOut, booking.id);
+    if (!availability.valid) {
+      return { valid: false, message: availability.message || "❗ Property not available for selected dates" };
+    }
+  }
+
+  const pricing = await calculateBookingQuote({
+    property: propertyId?.toString(),
+    tourPackage: tourId?.toString(),
+    checkIn,
+    checkOut,
+    guests: breakdown,
+    tourDeparture: departure,
+    excludeBookingId: booking._id as Types.ObjectId,
+    seatsHeld: sameDeparture ? booking.seatsHeld : 0,
+  });
+
+  if (!pricing.valid || !pricing.quote) {
+    return { valid: false, message: pricing.message || "❗ Unable to price this booking" };
+  }
+
+  if (expectedTotal !== undefined && !pricesMatch(expectedTotal, pricing.quote.total)) {
+    return {
+      valid: false,
+      message: `❗ Price mismatch. The new total is $${pricing.quote.total}`,
+      quote: pricing.quote,
+    };
+  }
+
+  withdrawPendingModification(booking);
+
+  booking.modifications.push({
+    checkIn,
+    checkOut,
+    tourDeparture: departure?._id as Types.ObjectId | undefined,
+    guests: guestInput.guests!,
+    ...breakdown,
+    totalPrice: pricing.quote.total,
+    priceDifference: roundPrice(pricing.quote.total - booking.totalPrice),
+    priceBreakdown: toPriceBreakdown(pricing.quote),
+    previousCheckIn: booking.checkIn,
+    previousCheckOut: booking.checkOut,
+    previousGuests: booking.guests,
+    previousTotalPrice: booking.totalPrice,
+    status: ModificationStatus.PENDING,
+    requestedAt: new Date(),
+  });
+
+  return {
+    valid: true,
+    modification: booking.modifications[booking.modifications.length - 1],
+    quote: pricing.quote,
+  };
+};
+
+/**
+ * Accepts or declines a pending change request and saves the booking.
+ * On acceptance the nights (or departure seats) move to the new dates, and
+ * the dates, guests, price and derived payment status are saved in one
+ * guarded write, so a request can only be answered once. If the guest already paid more than
+ * the new total, the difference is checked before the save and recorded as a
+ * refund once the booking is saved.
+ * @param booking - Booking holding the request
+ * @param modificationId - Request to answer
+ * @param accept - true to accept, false to decline
+ * @param recorder - Who answers (recorded on the refund transaction)
+ * @param note - Optional message for the guest
+ * @returns Result with the refunded amount; conflict is set when the dates
+ *          are taken or the request was answered concurrently
+ */
+export const respondToBookingModification = async (
+  booking: IBooking,
+  modificationId: string,
+  accept: boolean,
+  recorder: TransactionRecorder,
+  note?: string
+): Promise<{ valid: boolean; message?: string; conflict?: boolean; modification?: IBookingModification; refunded?: number }> => {
+  const modification = Types.ObjectId.isValid(modificationId) ? booking.modifications.id(modificationId) : null;
+
+  if (!modification) {
+    return { valid: false, message: "❌ Modification request not found" };
+  }
+  if (modification.status !== ModificationStatus.PENDING) {
+    return { valid: false, message: `❗ This request was already ${modification.status}` };
+  }
+  if (booking.status !== BookingStatus.PENDING && booking.status !== BookingStatus.CONFIRMED) {
+    return { valid: false, message: "❗ Only pending or confirmed bookings can be changed" };
+  }
+
+  modification.respondedAt = new Date();
+  modification.responseNote = note?.trim() || undefined;
+
+  // Only save if nobody answered the request since the booking was loaded
+  const pendingGuard = {
+    modifications: { $elemMatch: { _id: modification._id, status: ModificationStatus.PENDING } },
+  };
+
+  if (!accept) {
+    modification.status = ModificationStatus.DECLINED;
+    booking.$where = pendingGuard;
+    try {
+      await booking.save();
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") {
+        return { valid: false, conflict: true, message: "❗ This request was already answered" };
+      }
+      throw error;
+    }
+    return { valid: true, modification };
+  }
+
+  // Other guests may have booked the tour since the request was made
+  // (departure seats are checked atomically when saving)
+  const tourId = (booking.tourPackage as any)?._id;
+  if (tourId && !modification.tourDeparture) {
+    const tour = await TourPackage.findById(tourId);
+    const capacity = tour
+      ? await validateListingCapacity(
+          { tourPackage: tour },
+          { adults: modification.adults, children: modification.children, infants: modification.infants },
+          modification.checkIn,
+          { bookingId: booking._id as Types.ObjectId }
+        )
+      : { valid: false, message: "🚫 Tour package not found" };
+    if (!capacity.valid) {
+      return { valid: false, conflict: true, message: capacity.message };
+    }
+  }
+
+  // Move the held nights to the new dates (atomic against concurrent bookings)
+  const propertyId = (booking.property as any)?._id;
+  const previousCheckIn = booking.checkIn;
+  const previousCheckOut = booking.checkOut;
+
+  if (propertyId) {
+    const reservation = await reserveNights(
+      propertyId,
+      modification.checkIn,
+      modification.checkOut,
+      booking._id as Types.ObjectId
+    );
+    if (!reservation.valid) {
+      return { valid: false, conflict: true, message: reservation.message };
+    }
+  }
+
+  // Give the booking its previous nights back when the change is not saved
+  const restorePreviousNights = async (): Promise<void> => {
+    if (!propertyId) return;
+    const restored = await reserveNights(propertyId, previousCheckIn, previousCheckOut, booking._id as Types.ObjectId);
+    if (!restored.valid) {
+      console.error(`❌ Could not give booking ${booking._id} its previous nights back:`, restored.message);
+    }
+  };
+
+  const { transactions } = await getPaymentSummary(booking);
+  const totals = calculatePaymentTotals(transactions, modification.totalPrice);
+  const overpaid = roundPrice(Math.max(0, totals.netPaid - modification.totalPrice));
+  const statusWithoutRefund = derivePaymentStatus(totals, booking.paymentStatus);
+
+  modification.status = ModificationStatus.ACCEPTED;
+  booking.checkIn = modification.checkIn;
+  booking.checkOut = modification.checkOut;
+  booking.guests = modification.guests;
+  booking.adults = modification.adults;
+  booking.children = modification.children;
+  booking.infants = modification.infants;
+  booking.totalPrice = modification.totalPrice;
+  booking.priceBreakdown = modification.priceBreakdown;
+  booking.paymentStatus = statusWithoutRefund;
+
+  // The refund of the overpayment is checked now (and sets the status to
+  // "paid"), but only written to the ledger once the booking is saved
+  let pendingRefund: PendingTransaction | undefined;
+  if (overpaid > 0) {
+    const refund = await preparePaymentTransaction(
+      booking,
+      { type: TransactionType.REFUND, amount: overpaid, note: "Price difference after a booking change" },
+      recorder
+    );
+    if (!refund.valid) {
+      await restorePreviousNights();
+      return { valid: false, message: refund.message };
+    }
+    pendingRefund = refund.pending;
+  }
+
+  booking.$where = pendingGuard;
+
+  try {
+    if (modification.tourDeparture) {
+      const seats = await changeBookingSeats(booking, modification.tourDeparture, modification.guests, () => booking.save());
+      if (!seats.valid) {
+        return { valid: false, conflict: true, message: seats.message };
+      }
+    } else {
+      await booking.save();
+    }
+  } catch (error: any) {
+    await restorePreviousNights();
+    if (error?.name === "DocumentNotFoundError") {
+      return { valid: false, conflict: true, message: "❗ This request was already answered" };
+    }
+    throw error;
+  }
+
+  try {
+    await savePaymentTransaction(pendingRefund);
+  } catch (error) {
+    // Keep the saved status in line with the ledger, which has no refund
+    console.error(`❌ Error refunding booking ${booking._id} after a change:`, error);
+    booking.paymentStatus = statusWithoutRefund;
+    await booking.updateOne({ $set: { paymentStatus: statusWithoutRefund } });
+    return { valid: true, modification, refunded: 0 };
+  }
+
+  return { valid: true, modification, refunded: overpaid };
+};
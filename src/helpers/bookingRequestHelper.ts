@@ -0,0 +1,315 @@
+import { Types } from "mongoose";
+import { Booking, IBooking } from "../models/BookingModel";
+import { IProperty, InstantBookRequirements } from "../models/PropertyModel";
+import { ITourPackage } from "../models/TourPackageModel";
+import { User, IUser } from "../models/User";
+import { canTransitionBooking, transitionBooking, recordCancellationRefund } from "./bookingLifecycle";
+import { computePaymentDeadline } from "./paymentDeadlineHelper";
+import { sendEmail } from "../utils/emailService";
+import { BookingMode, BookingStatus, PaymentStatus } from "../@types/express/enums";
+
+export const HOST_RESPONSE_EXPIRED_REASON = "Host did not respond in time";
+
+/**
+ * Hours a host has to answer a booking request, unless the listing sets its own
+ */
+export const getDefaultHostResponseHours = (): number =>
+  Number(process.env.HOST_RESPONSE_HOURS) || 24;
+
+/**
+ * Reads a listing's booking mode settings from a request body (multipart
+ * fields arrive as strings). Omitted fields keep their current value.
+ * @param input - bookingMode, instantBookVerifiedEmail, instantBookMinCompletedStays, hostResponseHours
+ * @param current - Settings of the listing being updated
+ */
+export const resolveBookingModeSettings = (
+  input: {
+    bookingMode?: unknown;
+    instantBookVerifiedEmail?: unknown;
+    instantBookMinCompletedStays?: unknown;
+    hostResponseHours?: unknown;
+  },
+  current?: { bookingMode: BookingMode; instantBookRequirements?: InstantBookRequirements; hostResponseHours?: number }
+): {
+  valid: boolean;
+  message?: string;
+  bookingMode?: BookingMode;
+  instantBookRequirements?: InstantBookRequirements;
+  hostResponseHours?: number;
+} => {
+  const { bookingMode, instantBookVerifiedEmail, instantBookMinCompletedStays, hostResponseHours } = input;
+  const provided = (value: unknown) => value !== undefined && value !== null && value !== "";
+
+  if (bookingMode && !Object.values(BookingMode).includes(bookingMode as BookingMode)) {
+    return { valid: false, message: "❗ Booking mode must be \"instant\" or \"request\"" };
+  }
+
+  const minStays = Number(instantBookMinCompletedStays);
+  if (provided(instantBookMinCompletedStays) && (!Number.isInteger(minStays) || minStays < 0 || minStays > 50)) {
+    return { valid: false, message: "❗ Minimum completed stays must be between 0 and 50" };
+  }
+
+  const responseHours = Number(hostResponseHours);
+  if (provided(hostResponseHours) && (isNaN(responseHours) || responseHours < 1 || responseHours > 168)) {
+    return { valid: false, message: "❗ Host response time must be between 1 and 168 hours" };
+  }
+
+  return {
+    valid: true,
+    bookingMode: (bookingMode as BookingMode) || current?.bookingMode || BookingMode.REQUEST,
+    instantBookRequirements: {
+      verifiedEmail: instantBookVerifiedEmail !== undefined
+        ? instantBookVerifiedEmail === true || instantBookVerifiedEmail === "true"
+        : current?.instantBookRequirements?.verifiedEmail ?? false,
+      minCompletedStays: provided(instantBookMinCompletedStays)
+        ? minStays
+        : current?.instantBookRequirements?.minCompletedStays ?? 0,
+    },
+    // An empty value falls back to the global default
+    hostResponseHours: hostResponseHours === undefined
+      ? current?.hostResponseHours
+      : provided(hostResponseHours) ? responseHours : undefined,
+  };
+};
+
+/**
+ * Lists the instant-book requirements a guest does not meet
+ * @param requirements - The listing's requirements
+ * @param userId - Guest making the booking
+ * @returns Human readable requirements (empty when the guest can book instantly)
+ */
+export const getUnmetInstantBookRequirements = async (
+  requirements: InstantBookRequirements | undefined,
+  userId: Types.ObjectId | string
+): Promise<string[]> => {
+  const unmet: string[] = [];
+  if (!requirements) return unmet;
+
+  if (requirements.verifiedEmail) {
+    const user = await User.findById(userId).select("emailVerifiedAt");
+    if (!user?.emailVerifiedAt) {
+      unmet.push("a verified email address");
+    }
+  }
+
+  if (requirements.minCompletedStays > 0) {
+    const completed = await Booking.countDocuments({ user: userId, status: BookingStatus.COMPLETED });
+    if (completed < requirements.minCompletedStays) {
+      unmet.push(`at least ${requirements.minCompletedStays} completed stays`);
+    }
+  }
+
+  return unmet;
+};
+
+/**
+ * Applies the listing's booking mode to a new booking:
+ * - Instant book: the booking is confirmed right away, if the guest meets
+ *   the listing's requirements
+ * - Request to book (or requirements not met): the booking stays pending and
+ *   the host has until the response deadline (never after check-in) to answer
+ * The booking is modified in memory; the caller saves it.
+ * @returns The mode applied and the requirements the guest did not meet
+ */
+export const applyBookingMode = async (
+  booking: IBooking,
+  listing: IProperty | ITourPackage,
+  now: Date = new Date()
+): Promise<{ mode: BookingMode; unmetRequirements: string[] }> => {
+  let unmetRequirements: string[] = [];
+
+  if (listing.bookingMode === BookingMode.INSTANT) {
+    unmetRequirements = await getUnmetInstantBookRequirements(listing.instantBookRequirements, booking.user);
+
+    if (unmetRequirements.length === 0) {
+      booking.bookingMode = BookingMode.INSTANT;
+      const transition = await transitionBooking(booking, BookingStatus.CONFIRMED, "system");
+      if (transition.valid) {
+        return { mode: BookingMode.INSTANT, unmetRequirements };
+      }
+    }
+  }
+
+  const hours = listing.hostResponseHours || getDefaultHostResponseHours();
+  const deadline = new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  booking.bookingMode = BookingMode.REQUEST;
+  booking.hostResponseDeadline = deadline < booking.checkIn ? deadline : booking.checkIn;
+
+  return { mode: BookingMode.REQUEST, unmetRequirements };
+};
+
+/**
+ * Whether a booking request is still waiting for the host's answer
+ */
+export const isAwaitingHostResponse = (booking: IBooking): boolean =>
+  booking.status === BookingStatus.PENDING && !!booking.hostResponseDeadline && !booking.hostApprovedAt;
+
+/**
+ * Accepts or declines a booking request and saves the booking. Accepting
+ * starts the guest's payment deadline and confirms the booking when it is
+ * paid (or the listing allows unpaid confirmation); declining cancels it with
+ * a full refund. The save is guarded so a request is only answered once.
+ * @param booking - Booking request (property/tour populated or not)
+ * @param accept - true to accept, false to decline
+ * @param userId - Host answering
+ * @param note - Optional message for the guest (stored as the decline reason)
+ * @returns Result; conflict is set when the request was answered or expired concurrently
+ */
+export const respondToBookingRequest = async (
+  booking: IBooking,
+  accept: boolean,
+  userId: Types.ObjectId | string,
+  note?: string
+): Promise<{ valid: boolean; message?: string; conflict?: boolean }> => {
+  if (!isAwaitingHostResponse(booking)) {
+    return { valid: false, message: "❗ This booking is not waiting for an answer" };
+  }
+  if (booking.hostResponseDeadline! <= new Date()) {
+    return { valid: false, conflict: true, message: "❗ The response deadline has passed" };
+  }
+
+  if (accept) {
+    booking.hostApprovedAt = new Date();
+
+    // The guest's time to pay starts once the host accepts
+    if (booking.paymentStatus === PaymentStatus.PENDING) {
+      booking.paymentDeadline = await computePaymentDeadline(
+        {
+          property: (booking.property as any)?._id?.toString(),
+          tourPackage: (booking.tourPackage as any)?._id?.toString(),
+        },
+        booking.checkIn,
+        booking.hostApprovedAt
+      );
+    }
+
+    if ((await canTransitionBooking(booking, BookingStatus.CONFIRMED, "host")).valid) {
+      await transitionBooking(booking, BookingStatus.CONFIRMED, "host", { userId });
+    }
+  } else {
+    const reason = note?.trim() ? `Request declined by host: ${note.trim()}` : "Request declined by host";
+    const transition = await transitionBooking(booking, BookingStatus.CANCELLED, "host", { reason, userId });
+    if (!transition.valid) {
+      return transition;
+    }
+  }
+
+  // Only save if the request was not answered (or expired) since it was loaded
+  booking.$where = { status: BookingStatus.PENDING, hostApprovedAt: { $exists: false } };
+  try {
+    await booking.save();
+  } catch (error: any) {
+    if (error?.name === "DocumentNotFoundError") {
+      return { valid: false, conflict: true, message: "❗ This request was already answered" };
+    }
+    throw error;
+  }
+
+  await recordCancellationRefund(booking, { role: "host", userId });
+
+  return { valid: true };
+};
+
+/**
+ * Tells the host a guest sent a booking request and until when they can answer
+ */
+export const sendBookingRequestEmail = async (
+  booking: IBooking,
+  listing: IProperty | ITourPackage,
+  unmetRequirements: string[] = []
+): Promise<void> => {
+  const host = await User.findById(listing.host).select("firstName email");
+  if (!host?.email || !booking.hostResponseDeadline) return;
+
+  try {
+    await sendEmail(
+      host.email,
+      "New Booking Request - GuaraniHost",
+      `
+      <h2>📨 New Booking Request</h2>
+      <p>Hello ${host.firstName},</p>
+      <p>A guest would like to book <strong>${listing.title}</strong>.</p>
+      <ul>
+        <li>Check-in: ${booking.checkIn.toLocaleDateString()}</li>
+        <li>Check-out: ${booking.checkOut.toLocaleDateString()}</li>
+        <li>Guests: ${booking.guests}</li>
+        <li>Total Price: $${booking.totalPrice}</li>
+      </ul>
+      ${unmetRequirements.length ? `<p>This guest could not book instantly (missing ${unmetRequirements.join(" and ")}).</p>` : ''}
+      <p>Please accept or decline it before <strong>${booking.hostResponseDeadline.toLocaleString()}</strong>, otherwise it is declined automatically.</p>
+      <br>
+      <p>Best regards,<br>GuaraniHost Team</p>
+      `
+    );
+  } catch (error) {
+    console.error("❌ Error sending booking request email:", error);
+  }
+};
+
+/**
+ * Tells the guest their request was declined because the host did not answer
+ */
+const sendRequestExpiredEmail = async (booking: IBooking): Promise<void> => {
+  const user = booking.user as unknown as IUser;
+  if (!user?.email) return;
+
+  const bookingType = booking.property ? "property" : "tour";
+  const bookingTitle = (booking.property as any)?.title || (booking.tourPackage as any)?.title || "N/A";
+
+  try {
+    await sendEmail(
+      user.email,
+      "Booking Request Declined - GuaraniHost",
+      `
+      <h2>⌛ Booking Request Expired</h2>
+      <p>Hello ${user.firstName},</p>
+      <p>The host did not answer your ${bookingType} booking request for <strong>${bookingTitle}</strong> in time, so it was declined.</p>
+      <p>Check-in: ${booking.checkIn.toLocaleDateString()}</p>
+      <p>Check-out: ${booking.checkOut.toLocaleDateString()}</p>
+      ${booking.refund?.amount ? `<p>The $${booking.refund.amount} you paid will be refunded.</p>` : ''}
+      <p>You can book other dates or listings at any time.</p>
+      <br>
+      <p>Best regards,<br>GuaraniHost Team</p>
+      `
+    );
+  } catch (error) {
+    console.error("❌ Error sending booking request expiry email:", error);
+  }
+};
+
+/**
+ * Declines every booking request the host has not answered before its
+ * response deadline
+ * @returns Number of declined requests
+ */
+export const processExpiredBookingRequests = async (): Promise<number> => {
+  const expired = await Booking.find({
+    status: BookingStatus.PENDING,
+    hostResponseDeadline: { $lte: new Date() },
+    hostApprovedAt: { $exists: false },
+  });
+
+  let processed = 0;
+  for (const booking of expired) {
+    try {
+      const transition = await transitionBooking(booking, BookingStatus.CANCELLED, "system", {
+        reason: HOST_RESPONSE_EXPIRED_REASON,
+      });
+      if (!transition.valid) continue;
+
+      // Skip the booking if the host answered since it was loaded
+      booking.$where = { status: BookingStatus.PENDING, hostApprovedAt: { $exists: false } };
+      await booking.save();
+      processed++;
+
+      await recordCancellationRefund(booking, { role: "system" });
+      await sendRequestExpiredEmail(booking);
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") continue;
+      console.error(`❌ Error declining expired booking request ${booking._id}:`, error);
+    }
+  }
+
+  return processed;
+};
@@ -0,0 +1,193 @@
+import { IBooking } from "../models/BookingModel";
+import { Property } from "../models/PropertyModel";
+import { TourPackage } from "../models/TourPackageModel";
+import {
+  CancellationTier,
+  DEFAULT_CANCELLATION_POLICY,
+  STANDARD_CANCELLATION_POLICIES,
+} from "../config/cancellationPolicies";
+import { getPaymentSummary } from "./paymentLedgerHelper";
+import { roundPrice } from "./pricingHelper";
+import { CancellationPolicy } from "../@types/express/enums";
+import type { BookingActor } from "./bookingLifecycle";
+
+/**
+ * Refund computed when a booking is cancelled (stored on the booking)
+ */
+export interface RefundBreakdown {
+  policy: CancellationPolicy;
+  cancelledBy: BookingActor;
+  hoursBeforeCheckIn: number;
+  refundPercent: number;
+  paidAmount: number;
+  amount: number;
+}
+
+const MAX_CUSTOM_TIERS = 5;
+
+/**
+ * Validates host-defined tiers for a custom policy. Accepts an array or a
+ * JSON string (multipart forms) and returns the tiers sorted from the
+ * earliest to the latest cancellation.
+ */
+export const parseCancellationTiers = (
+  input: unknown
+): { valid: boolean; message?: string; tiers?: CancellationTier[] } => {
+  let tiers: any = input;
+  if (typeof input === "string") {
+    try {
+      tiers = JSON.parse(input);
+    } catch {
+      return { valid: false, message: "❗ Cancellation tiers must be valid JSON" };
+    }
+  }
+
+  if (!Array.isArray(tiers) || tiers.length === 0 || tiers.length > MAX_CUSTOM_TIERS) {
+    return { valid: false, message: `❗ A custom policy needs between 1 and ${MAX_CUSTOM_TIERS} tiers` };
+  }
+
+  const parsed: CancellationTier[] = [];
+  for (const tier of tiers) {
+    const hoursBeforeCheckIn = Number(tier?.hoursBeforeCheckIn);
+    const refundPercent = Number(tier?.refundPercent);
+
+    if (!Number.isFinite(hoursBeforeCheckIn) || hoursBeforeCheckIn < 0) {
+      return { valid: false, message: "❗ hoursBeforeCheckIn must be 0 or more" };
+    }
+    if (!Number.isFinite(refundPercent) || refundPercent < 0 || refundPercent > 100) {
+      return { valid: false, message: "❗ refundPercent must be between 0 and 100" };
+    }
+    parsed.push({ hoursBeforeCheckIn, refundPercent });
+  }
+
+  return { valid: true, tiers: parsed.sort((a, b) => b.hoursBeforeCheckIn - a.hoursBeforeCheckIn) };
+};
+
+/**
+ * Returns the tiers that apply to a policy (custom tiers come from the listing)
+ */
+export const getPolicyTiers = (policy: CancellationPolicy, customTiers: CancellationTier[] = []): CancellationTier[] =>
+  policy === CancellationPolicy.CUSTOM
+    ? [...customTiers].sort((a, b) => b.hoursBeforeCheckIn - a.hoursBeforeCheckIn)
+    : STANDARD_CANCELLATION_POLICIES[policy];
+
+/**
+ * Copies the listing's cancellation policy onto a new booking, so the host
+ * changing the policy later does not change the guest's refund
+ */
+export const snapshotCancellationPolicy = (
+  booking: IBooking,
+  listing: { cancellationPolicy?: CancellationPolicy; cancellationTiers?: CancellationTier[] }
+): void => {
+  booking.cancellationPolicy = listing.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+  booking.cancellationTiers = getPolicyTiers(booking.cancellationPolicy, listing.cancellationTiers);
+};
+
+/**
+ * Reads the cancellation policy the booking was made under. Bookings made
+ * before policies were copied onto them use the listing's current policy.
+ */
+const getBookingPolicy = async (
+  booking: IBooking
+): Promise<{ policy: CancellationPolicy; tiers: CancellationTier[] }> => {
+  if (booking.cancellationPolicy) {
+    return { policy: booking.cancellationPolicy, tiers: booking.cancellationTiers || [] };
+  }
+
+  const propertyId = (booking.property as any)?._id;
+  const tourId = (booking.tourPackage as any)?._id;
+
+  const listing = propertyId
+    ? await Property.findById(propertyId).select("cancellationPolicy cancellationTiers")
+    : await TourPackage.findById(tourId).select("cancellationPolicy cancellationTiers");
+
+  const policy = listing?.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+  return { policy, tiers: getPolicyTiers(policy, listing?.cancellationTiers) };
+};
+
+/**
+ * Computes the refund of a cancelled booking from the amount paid so far
+ * (payment ledger). Guests get the percentage of the first tier they still
+ * meet; cancellations by the host, an admin or the system always refund
+ * the full amount paid.
+ * @param booking - Booking being cancelled (before its status changes)
+ * @param actor - Who cancels
+ * @param at - Cancellation time
+ */
+export const calculateRefund = async (
+  booking: IBooking,
+  actor: BookingActor,
+  at: Date = new Date()
+): Promise<RefundBreakdown> => {
+  const { policy, tiers } = await getBookingPolicy(booking);
+
+  const hoursBeforeCheckIn = Math.max(0, (booking.checkIn.getTime() - at.getTime()) / (1000 * 3600));
+  const { totals } = await getPaymentSummary(booking);
+  const paidAmount = Math.max(0, totals.netPaid);
+
+  const refundPercent = actor === "guest"
+    ? tiers.find((tier) => hoursBeforeCheckIn >= tier.hoursBeforeCheckIn)?.refundPercent ?? 0
+    : 100;
+
+  return {
+    policy,
+    cancelledBy: actor,
+    hoursBeforeCheckIn: Math.floor(hoursBeforeCheckIn),
+    refundPercent,
+    paidAmount,
+    amount: roundPrice((paidAmount * refundPercent) / 100),
+  };
+};
+
+/**
+ * Refund section for cancellation emails
+ */
+export const buildRefundBreakdownHtml = (refund?: IBooking["refund"]): string => {
+  if (!refund || refund.paidAmount === 0) {
+    return `<p><strong>Refund:</strong> No payment was made, nothing to refund.</p>`;
+  }
+
+  return `
+    <p><strong>Refund Breakdown:</strong></p>
+    <ul>
+      <li>Cancellation policy: ${refund.policy}</li>
+      <li>Cancelled ${refund.hoursBeforeCheckIn} hours before check-in</li>
+      <li>Amount paid: $${refund.paidAmount}</li>
+      <li>Refund: ${refund.refundPercent}% ($${refund.amount})</li>
+    </ul>
+  `;
+};
+
+/**
+ * Validates the cancellation settings sent when a host creates or edits a listing
+ * @param policyInput - Requested policy (optional on updates)
+ * @param tiersInput - Requested custom tiers (optional)
+ * @param current - The listing's current settings, for updates
+ * @returns The settings to store, or an explanation when they are invalid
+ */
+export const resolveCancellationSettings = (
+  policyInput: unknown,
+  tiersInput: unknown,
+  current?: { policy: CancellationPolicy; tiers: CancellationTier[] }
+): { valid: boolean; message?: string; policy?: CancellationPolicy; tiers?: CancellationTier[] } => {
+  if (policyInput && !Object.values(CancellationPolicy).includes(policyInput as CancellationPolicy)) {
+    return { valid: false, message: "❗ Invalid cancellation policy" };
+  }
+
+  const policy = (policyInput as CancellationPolicy) || current?.policy || DEFAULT_CANCELLATION_POLICY;
+  let tiers = current?.tiers || [];
+
+  if (tiersInput !== undefined && tiersInput !== "") {
+    const parsed = parseCancellationTiers(tiersInput);
+    if (!parsed.valid) {
+      return { valid: false, message: parsed.message };
+    }
+    tiers = parsed.tiers!;
+  }
+
+  if (policy === CancellationPolicy.CUSTOM && tiers.length === 0) {
+    return { valid: false, message: "❗ A custom cancellation policy needs cancellationTiers" };
+  }
+
+  return { valid: true, policy, tiers };
+};
@@ -0,0 +1,172 @@
+import { Types } from "mongoose";
+import { Booking } from "../models/BookingModel";
+import { IProperty } from "../models/PropertyModel";
+import { ITourPackage } from "../models/TourPackageModel";
+import { ITourDeparture } from "../models/TourDepartureModel";
+import { BookingStatus } from "../@types/express/enums";
+
+/**
+ * Who is coming. Adults and children count towards the listing's occupancy;
+ * infants have their own per-booking limit.
+ */
+export interface GuestBreakdown {
+  adults: number;
+  children: number;
+  infants: number;
+}
+
+const isCount = (value: number): boolean => Number.isInteger(value) && value >= 0;
+
+/**
+ * Reads adults, children and infants from a request body. Clients that only
+ * send "guests" (older apps) book that many adults.
+ * @param input - Request body fields
+ * @param fallback - Current breakdown, for partial updates
+ */
+export const parseGuestBreakdown = (
+  input: { guests?: unknown; adults?: unknown; children?: unknown; infants?: unknown },
+  fallback?: GuestBreakdown
+): { valid: boolean; message?: string; breakdown?: GuestBreakdown; guests?: number } => {
+  const provided = (value: unknown) => value !== undefined && value !== null && value !== "";
+  const hasSplit = provided(input.adults) || provided(input.children) || provided(input.infants);
+
+  let breakdown: GuestBreakdown;
+  if (hasSplit) {
+    breakdown = {
+      adults: provided(input.adults) ? Number(input.adults) : fallback?.adults ?? 1,
+      children: provided(input.children) ? Number(input.children) : fallback?.children ?? 0,
+      infants: provided(input.infants) ? Number(input.infants) : fallback?.infants ?? 0,
+    };
+  } else if (provided(input.guests)) {
+    breakdown = { adults: Number(input.guests), children: 0, infants: fallback?.infants ?? 0 };
+  } else if (fallback) {
+    breakdown = fallback;
+  } else {
+    return { valid: false, message: "❗ Number of guests is required" };
+  }
+
+  if (!isCount(breakdown.adults) || !isCount(breakdown.children) || !isCount(breakdown.infants)) {
+    return { valid: false, message: "❗ Adults, children and infants must be whole numbers" };
+  }
+  if (breakdown.adults < 1) {
+    return { valid: false, message: "❗ At least 1 adult is required" };
+  }
+
+  return { valid: true, breakdown, guests: breakdown.adults + breakdown.children };
+};
+
+/**
+ * Returns the stored breakdown of a booking (bookings made before the split
+ * only have "guests", read as adults)
+ */
+export const getBookingGuestBreakdown = (booking: {
+  guests: number;
+  adults?: number;
+  children?: number;
+  infants?: number;
+}): GuestBreakdown => ({
+  adults: booking.adults ?? booking.guests,
+  children: booking.adults === undefined ? 0 : booking.children ?? 0,
+  infants: booking.infants ?? 0,
+});
+
+/**
+ * Sums the guests of the active bookings of a tour starting on the same day
+ * @param tourId - Tour package
+ * @param date - Any time on the tour date (UTC day)
+ * @param excludeBookingId - Booking being changed, not counted
+ */
+export const getBookedTourGuests = async (
+  tourId: Types.ObjectId | string,
+  date: Date,
+  excludeBookingId?: Types.ObjectId | string
+): Promise<number> => {
+  const dayStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const dayEnd = new Date(dayStart.getTime() + 24 * 3600 * 1000);
+
+  const match: Record<string, any> = {
+    tourPackage: new Types.ObjectId(String(tourId)),
+    status: { $in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] },
+    checkIn: { $gte: dayStart, $lt: dayEnd },
+  };
+  if (excludeBookingId) {
+    match._id = { $ne: new Types.ObjectId(String(excludeBookingId)) };
+  }
+
+  const [result] = await Booking.aggregate([
+    { $match: match },
+    { $group: { _id: null, guests: { $sum: "$guests" } } },
+  ]);
+
+  return result?.guests || 0;
+};
+
+/**
+ * Checks a guest breakdown against the listing's limits:
+ * - Property: adults + children up to its "guests", infants up to maxInfants
+ * - Tour departure: adults + children up to the seats left, infants up to
+ *   maxInfants per booking
+ * - Tour without departure (older bookings): adults + children of all active
+ *   bookings on that date up to maxCapacity
+ * This is a read-only check; departure seats are taken atomically when booking.
+ * @param listing - The booked property, or tour and departure
+ * @param breakdown - Guests of this booking
+ * @param checkIn - Stay or tour date
+ * @param exclude - Booking being changed (not counted against the tour) and the seats it holds
+ */
+export const validateListingCapacity = async (
+  listing: { property?: IProperty; tourPackage?: ITourPackage; tourDeparture?: ITourDeparture },
+  breakdown: GuestBreakdown,
+  checkIn: Date,
+  exclude: { bookingId?: Types.ObjectId | string; seatsHeld?: number } = {}
+): Promise<{ valid: boolean; message?: string }> => {
+  const occupants = breakdown.adults + breakdown.children;
+
+  if (listing.property) {
+    const { guests: maxGuests, maxInfants } = listing.property;
+
+    if (maxGuests && occupants > maxGuests) {
+      return { valid: false, message: `❗ This property allows at most ${maxGuests} guests (adults and children)` };
+    }
+    if (maxInfants !== undefined && breakdown.infants > maxInfants) {
+      return { valid: false, message: `❗ This property allows at most ${maxInfants} infants` };
+    }
+    return { valid: true };
+  }
+
+  if (listing.tourPackage) {
+    const tour = listing.tourPackage;
+
+    if (tour.maxInfants !== undefined && breakdown.infants > tour.maxInfants) {
+      return { valid: false, message: `❗ This tour allows at most ${tour.maxInfants} infants per booking` };
+    }
+    if (listing.tourDeparture) {
+      const { seats, seatsBooked } = listing.tourDeparture;
+      const remaining = Math.max(0, seats - seatsBooked + (exclude.seatsHeld || 0));
+
+      if (occupants > remaining) {
+        return {
+          valid: false,
+          message: remaining === 0
+            ? "❗ This departure is fully booked"
+            : `❗ Only ${remaining} seats left on this departure`,
+        };
+      }
+    } else if (tour.maxCapacity) {
+      const booked = await getBookedTourGuests(tour._id as Types.ObjectId, checkIn, exclude.bookingId);
+      const remaining = Math.max(0, tour.maxCapacity - booked);
+
+      if (occupants > remaining) {
+        return {
+          valid: false,
+          message: remaining === 0
+            ? "❗ This tour is fully booked on that date"
+            : `❗ Only ${remaining} places left on this tour for that date`,
+        };
+      }
+    }
+    return { valid: true };
+  }
+
+  return { valid: false, message: "❗ Either property or tour package must be specified" };
+};
@@ -0,0 +1,348 @@
+import { Types } from "mongoose";
+import { Conversation, IConversation, ConversationParticipant } from "../models/ConversationModel";
+import { Message, IMessage } from "../models/MessageModel";
+import { IBooking } from "../models/BookingModel";
+import { Property } from "../models/PropertyModel";
+import { TourPackage } from "../models/TourPackageModel";
+import { User } from "../models/User";
+import { sendEmail } from "../utils/emailService";
+import { escapeHtml } from "../utils/escapeHtml";
+import { ConversationType } from "../@types/express/enums";
+
+type Id = Types.ObjectId | string;
+
+export const MAX_MESSAGE_IMAGES = 5;
+const PREVIEW_LENGTH = 120;
+
+/**
+ * Reads the id of a reference whether or not it is populated
+ */
+const refId = (ref: unknown): Types.ObjectId | undefined =>
+  ((ref as any)?._id ?? ref) as Types.ObjectId | undefined;
+
+/**
+ * Finds or creates a conversation. Two concurrent requests may both try to
+ * create it; the unique index lets only one insert, the other reads it.
+ */
+const upsertConversation = async (
+  filter: Record<string, unknown>,
+  fields: Partial<IConversation>
+): Promise<IConversation> => {
+  try {
+    return (await Conversation.findOneAndUpdate(
+      filter,
+      { $setOnInsert: fields },
+      { upsert: true, new: true }
+    ))!;
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+    return (await Conversation.findOne(filter))!;
+  }
+};
+
+/**
+ * Returns the conversation of a booking, creating it on first use
+ * @returns The conversation, or null when the booked listing no longer exists
+ */
+export const getOrCreateBookingConversation = async (booking: IBooking): Promise<IConversation | null> => {
+  const propertyId = refId(booking.property);
+  const tourId = refId(booking.tourPackage);
+
+  const listing = propertyId
+    ? await Property.findById(propertyId).select("host")
+    : await TourPackage.findById(tourId).select("host");
+  if (!listing) return null;
+
+  return upsertConversation(
+    { type: ConversationType.BOOKING, booking: booking._id },
+    {
+      type: ConversationType.BOOKING,
+      booking: booking._id as Types.ObjectId,
+      property: propertyId,
+      tourPackage: tourId,
+      guest: refId(booking.user)!,
+      host: listing.host,
+    }
+  );
+};
+
+/**
+ * Returns a guest's inquiry thread about a property or tour, creating it on first use
+ * @param guestId - Guest asking
+ * @param listing - Property or tour package (exactly one)
+ * @returns The conversation, or an explanation when it cannot be opened
+ */
+export const getOrCreateInquiryConversation = async (
+  guestId: Id,
+  listing: { property?: unknown; tourPackage?: unknown }
+): Promise<{ valid: boolean; message?: string; conversation?: IConversation }> => {
+  const { property, tourPackage } = listing;
+
+  if (!property === !tourPackage) {
+    return { valid: false, message: "❗ Choose either a property or a tour package" };
+  }
+  if (!Types.ObjectId.isValid(String(property || tourPackage))) {
+    return { valid: false, message: "❌ Invalid listing ID" };
+  }
+
+  const found = property
+    ? await Property.findById(property).select("host")
+    : await TourPackage.findById(tourPackage).select("host");
+
+  if (!found) {
+    return { valid: false, message: `🚫 ${property ? "Property" : "Tour package"} not found` };
+  }
+  if (found.host.toString() === guestId.toString()) {
+    return { valid: false, message: "❗ You cannot send an inquiry about your own listing" };
+  }
+
+  const listingField = property ? { property: found._id } : { tourPackage: found._id };
+  const conversation = await upsertConversation(
+    { type: ConversationType.INQUIRY, guest: guestId, ...listingField },
+    {
+      type: ConversationType.INQUIRY,
+      ...listingField,
+      guest: new Types.ObjectId(guestId.toString()),
+      host: found.host,
+    } as Partial<IConversation>
+  );
+
+  return { valid: true, conversation };
+};
+
+/**
+ * Emails a participant about a new message
+ */
+const sendNewMessageEmail = async (
+  conversation: IConversation,
+  recipient: ConversationParticipant,
+  message: IMessage,
+  senderName: string
+): Promise<void> => {
+  const user = await User.findById(refId(conversation[recipient])).select("firstName email");
+  if (!user?.email) return;
+
+  const listing = conversation.property
+    ? await Property.findById(refId(conversation.property)).select("title")
+    : await TourPackage.findById(refId(conversation.tourPackage)).select("title");
+  const about = conversation.type === ConversationType.BOOKING ? "your booking for" : "an inquiry about";
+
+  try {
+    await sendEmail(
+      user.email,
+      "New Message - GuaraniHost",
+      `
+      <h2>💬 New Message</h2>
+      <p>Hello ${escapeHtml(user.firstName)},</p>
+      <p>${escapeHtml(senderName)} sent you a message about ${about} <strong>${escapeHtml(listing?.title || 'N/A')}</strong>:</p>
+      ${message.body ? `<blockquote>${escapeHtml(message.body)}</blockquote>` : ''}
+      ${message.imageUrls.length ? `<p>📷 ${message.imageUrls.length} image(s) attached</p>` : ''}
+      <p>Reply from your messages inbox.</p>
+      <br>
+      <p>Best regards,<br>GuaraniHost Team</p>
+      `
+    );
+  } catch (error) {
+    console.error("❌ Error sending new message email:", error);
+  }
+};
+
+/**
+ * Checks the text and the number of images of a message. Controllers call it
+ * before uploading the images, so a rejected message leaves no files behind.
+ * @param body - Text of the message (optional)
+ * @param imageCount - Number of attached images
+ * @returns The trimmed text, or an explanation when it is empty or too long
+ */
+export const validateMessageInput = (
+  body: unknown,
+  imageCount: number
+): { valid: boolean; message?: string; body?: string } => {
+  const text = typeof body === "string" ? body.trim() : "";
+
+  if (!text && imageCount === 0) {
+    return { valid: false, message: "❗ Write a message or attach an image" };
+  }
+  if (text.length > 2000) {
+    return { valid: false, message: "❗ Messages cannot exceed 2000 characters" };
+  }
+  if (imageCount > MAX_MESSAGE_IMAGES) {
+    return { valid: false, message: `❗ You can attach up to ${MAX_MESSAGE_IMAGES} images` };
+  }
+
+  return { valid: true, body: text };
+};
+
+/**
+ * Adds a message to a conversation, raises the recipients' unread counts and
+ * emails them. A recipient who already has unread messages in the thread is
+ * not emailed again, so a burst of messages sends a single email.
+ * Admins write as support: both participants receive their messages.
+ * @param conversation - Conversation to write in
+ * @param sender - Who writes and as which role
+ * @param input - Text and/or uploaded image URLs
+ * @returns The new message, or an explanation when it is empty or too long
+ */
+export const postMessage = async (
+  conversation: IConversation,
+  sender: { userId: Id; role: ConversationParticipant | "admin"; name: string },
+  input: { body?: unknown; imageUrls?: string[] }
+): Promise<{ valid: boolean; message?: string; sent?: IMessage }> => {
+  const imageUrls = input.imageUrls || [];
+
+  const check = validateMessageInput(input.body, imageUrls.length);
+  if (!check.valid) {
+    return { valid: false, message: check.message };
+  }
+  const body = check.body!;
+
+  const sent = await Message.create({
+    conversation: conversation._id,
+    sender: sender.userId,
+    senderRole: sender.role,
+    body: body || undefined,
+    imageUrls,
+    readBy: [{ user: sender.userId, readAt: new Date() }],
+  });
+
+  const recipients: ConversationParticipant[] = sender.role === "admin"
+    ? ["guest", "host"]
+    : [sender.role === "guest" ? "host" : "guest"];
+
+  const preview = body
+    ? body.length > PREVIEW_LENGTH ? `${body.slice(0, PREVIEW_LENGTH - 3)}...` : body
+    : `📷 ${imageUrls.length} image(s)`;
+
+  // The previous state tells who had nothing unread (and gets an email)
+  const previous = await Conversation.findByIdAndUpdate(
+    conversation._id,
+    {
+      $set: { lastMessageAt: sent.createdAt, lastMessagePreview: preview },
+      $inc: Object.fromEntries(recipients.map((recipient) => [`unreadCounts.${recipient}`, 1])),
+    },
+    { new: false }
+  );
+
+  for (const recipient of recipients) {
+    if (previous && previous.unreadCounts[recipient] === 0) {
+      await sendNewMessageEmail(conversation, recipient, sent, sender.name);
+    }
+  }
+
+  return { valid: true, sent };
+};
+
+/**
+ * Marks the messages of the other side as read by a participant (read
+ * receipts) and recomputes their unread count
+ * @returns Number of messages newly marked as read
+ */
+export const markConversationRead = async (
+  conversation: IConversation,
+  role: ConversationParticipant,
+  userId: Id
+): Promise<number> => {
+  const now = new Date();
+  const unread = {
+    conversation: conversation._id,
+    sender: { $ne: userId },
+    "readBy.user": { $ne: userId },
+  };
+
+  const result = await Message.updateMany(unread, { $push: { readBy: { user: userId, readAt: now } } });
+
+  // Counted again rather than reset, so a message sent meanwhile stays unread
+  const remaining = await Message.countDocuments(unread);
+  await Conversation.updateOne(
+    { _id: conversation._id },
+    { $set: { [`unreadCounts.${role}`]: remaining, [`lastReadAt.${role}`]: now } }
+  );
+
+  return result.modifiedCount;
+};
+
+/**
+ * Total unread messages of a user across their conversations on one side
+ */
+export const getUnreadTotal = async (userId: Id, role: ConversationParticipant): Promise<number> => {
+  const [result] = await Conversation.aggregate([
+    { $match: { [role]: new Types.ObjectId(userId.toString()) } },
+    { $group: { _id: null, unread: { $sum: `$unreadCounts.${role}` } } },
+  ]);
+
+  return result?.unread || 0;
+};
+
+/**
+ * Lists conversations (latest activity first) with the pagination block used
+ * by the booking endpoints
+ */
+export const listConversations = async (
+  filter: Record<string, unknown>,
+  page: number,
+  limit: number
+) => {
+  const [conversations, totalCount] = await Promise.all([
+    Conversation.find(filter)
+      .populate("guest", "firstName lastName")
+      .populate("host", "firstName lastName")
+      .populate("property", "title imageUrls")
+      .populate("tourPackage", "title imageUrls")
+      .populate("booking", "checkIn checkOut status")
+      .sort({ lastMessageAt: -1, createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Conversation.countDocuments(filter),
+  ]);
+
+  return {
+    conversations,
+    pagination: {
+      current: page,
+      total: Math.ceil(totalCount / limit),
+      totalCount,
+      hasNext: page * limit < totalCount,
+      hasPrev: page > 1,
+    },
+  };
+};
+
+/**
+ * Lists the messages of a conversation, newest first, with read receipts
+ */
+export const listMessages = async (conversationId: Id, page: number, limit: number) => {
+  const filter = { conversation: conversationId };
+
+  const [messages, totalCount] = await Promise.all([
+    Message.find(filter)
+      .populate("sender", "firstName lastName")
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Message.countDocuments(filter),
+  ]);
+
+  return {
+    messages,
+    pagination: {
+      current: page,
+      total: Math.ceil(totalCount / limit),
+      totalCount,
+      hasNext: page * limit < totalCount,
+      hasPrev: page > 1,
+    },
+  };
+};
+
+/**
+ * Loads a conversation only if the user is on the given side of it
+ * @returns The conversation, or null when missing or not theirs
+ */
+export const findParticipantConversation = async (
+  conversationId: string,
+  userId: Id,
+  role: ConversationParticipant
+): Promise<IConversation | null> => {
+  if (!Types.ObjectId.isValid(conversationId)) return null;
+  return Conversation.findOne({ _id: conversationId, [role]: userId });
+};
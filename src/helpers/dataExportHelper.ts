@@ -0,0 +1,94 @@
+import path from "path";
+import { IUser } from "../models/User";
+import { Booking } from "../models/BookingModel";
+import { Property } from "../models/PropertyModel";
+import { TourPackage } from "../models/TourPackageModel";
+import { HostApplication } from "../models/HostApplicationModel";
+import { Session } from "../models/SessionModel";
+import { ApiKey } from "../models/ApiKeyModel";
+import { Message } from "../models/MessageModel";
+import { createZipArchive, ZipEntry } from "../utils/zipArchive";
+
+/**
+ * Collects the personal data held about a user (GDPR-style data portability).
+ * Credentials and secrets (password hash, 2FA secrets, token hashes) are never included.
+ * @param user - The user requesting the export
+ * @returns A JSON-serializable object
+ */
+export const buildPersonalDataExport = async (user: IUser) => {
+  const [bookings, hostApplications, sessions, messages, properties, tours, apiKeys] = await Promise.all([
+    Booking.find({ user: user._id })
+      .populate("property", "title location")
+      .populate("tourPackage", "title location")
+      .sort({ createdAt: -1 })
+      .lean(),
+    HostApplication.find({ user: user._id }).sort({ createdAt: -1 }).lean(),
+    Session.find({ user: user._id }).select("userAgent ip lastSeenAt createdAt revokedAt").lean(),
+    Message.find({ sender: user._id }).select("conversation body imageUrls createdAt").sort({ createdAt: -1 }).lean(),
+    user.role === "host" ? Property.find({ host: user._id }).lean() : [],
+    user.role === "host" ? TourPackage.find({ host: user._id }).lean() : [],
+    user.role === "host" ? ApiKey.find({ user: user._id }).lean() : [],
+  ]);
+
+  return {
+    exportedAt: new Date(),
+    profile: {
+      id: user._id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      phone: user.phone,
+      address: user.address,
+      role: user.role,
+      accountStatus: user.accountStatus,
+      emailVerifiedAt: user.emailVerifiedAt,
+      twoFactorEnabled: user.twoFactorEnabled,
+      linkedAccounts: user.identities.map(({ provider, email, linkedAt }) => ({ provider, email, linkedAt })),
+      deletionScheduledFor: user.deletionScheduledFor,
+      createdAt: user.createdAt,
+    },
+    bookings,
+    hostApplications,
+    sessions,
+    messages,
+    properties,
+    tours,
+    apiKeys,
+  };
+};
+
+/**
+ * Packs a personal data export and the user's uploaded payment images in a ZIP archive
+ * @param data - The export built by buildPersonalDataExport
+ * @returns The ZIP file contents
+ */
+export const buildPersonalDataArchive = async (
+  data: Awaited<ReturnType<typeof buildPersonalDataExport>>
+): Promise<Buffer> => {
+  const entries: ZipEntry[] = [];
+  const missingImages: string[] = [];
+
+  for (const booking of data.bookings) {
+    const images = booking.paymentImages || [];
+    for (let index = 0; index < images.length; index++) {
+      const imageUrl = images[index];
+      try {
+        const response = await fetch(imageUrl);
+        if (!response.ok) throw new Error(response.statusText);
+        const extension = path.extname(new URL(imageUrl).pathname) || ".jpg";
+        entries.push({
+          name: `payment-images/${booking._id}-${index + 1}${extension}`,
+          data: Buffer.from(await response.arrayBuffer()),
+        });
+      } catch (error) {
+        console.error("❌ Error downloading payment image for export:", error);
+        missingImages.push(imageUrl);
+      }
+    }
+  }
+
+  const manifest = { ...data, missingPaymentImages: missingImages };
+  entries.unshift({ name: "data.json", data: Buffer.from(JSON.stringify(manifest, null, 2)) });
+
+  return createZipArchive(entries);
+};
@@ -0,0 +1,193 @@
+import { IUser, User } from "../models/User";
+import { LoginAttempt } from "../models/LoginAttemptModel";
+import { sendEmail } from "../utils/emailService";
+
+/**
+ * Login throttling settings, configurable through environment variables
+ */
+const getThrottleConfig = () => ({
+  maxAccountAttempts: Number(process.env.LOGIN_MAX_ATTEMPTS) || 5,
+  maxIpAttempts: Number(process.env.LOGIN_IP_MAX_ATTEMPTS) || 20,
+  lockoutMinutes: Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15,
+  baseDelaySeconds: Number(process.env.LOGIN_DELAY_BASE_SECONDS) || 1,
+  maxDelaySeconds: 60,
+});
+
+/**
+ * Progressive delay required after a number of consecutive failures (exponential backoff)
+ * @param failedAttempts - Consecutive failed attempts
+ * @returns Delay in seconds before the next attempt is accepted
+ */
+const getProgressiveDelaySeconds = (failedAttempts: number): number => {
+  const { baseDelaySeconds, maxDelaySeconds } = getThrottleConfig();
+  if (failedAttempts <= 0) return 0;
+  return Math.min(baseDelaySeconds * 2 ** (failedAttempts - 1), maxDelaySeconds);
+};
+
+/**
+ * Seconds remaining until a given date (rounded up)
+ */
+const secondsUntil = (date: Date): number => Math.ceil((date.getTime() - Date.now()) / 1000);
+
+/**
+ * Checks whether a login attempt from an IP is currently allowed
+ * @param ip - Client IP address
+ * @returns Result with the number of seconds to wait when not allowed
+ */
+export const checkIpThrottle = async (
+  ip: string
+): Promise<{ allowed: boolean; retryAfterSeconds?: number }> => {
+  const attempt = await LoginAttempt.findOne({ ip });
+  if (!attempt) return { allowed: true };
+
+  if (attempt.blockedUntil && attempt.blockedUntil > new Date()) {
+    return { allowed: false, retryAfterSeconds: secondsUntil(attempt.blockedUntil) };
+  }
+
+  const nextAllowedAt = new Date(
+    attempt.lastFailedAt.getTime() + getProgressiveDelaySeconds(attempt.failedAttempts) * 1000
+  );
+  if (nextAllowedAt > new Date()) {
+    return { allowed: false, retryAfterSeconds: secondsUntil(nextAllowedAt) };
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Checks whether a login attempt for an account is currently allowed
+ * @param user - The account being logged into
+ * @returns Result telling whether the account is locked and how long to wait
+ */
+export const checkAccountThrottle = (
+  user: IUser
+): { allowed: boolean; locked: boolean; retryAfterSeconds?: number } => {
+  if (user.lockUntil && user.lockUntil > new Date()) {
+    return { allowed: false, locked: true, retryAfterSeconds: secondsUntil(user.lockUntil) };
+  }
+
+  if (user.lastFailedLoginAt && user.failedLoginAttempts > 0) {
+    const nextAllowedAt = new Date(
+      user.lastFailedLoginAt.getTime() + getProgressiveDelaySeconds(user.failedLoginAttempts) * 1000
+    );
+    if (nextAllowedAt > new Date()) {
+      return { allowed: false, locked: false, retryAfterSeconds: secondsUntil(nextAllowedAt) };
+    }
+  }
+
+  return { allowed: true, locked: false };
+};
+
+/**
+ * Records a failed login for the IP and, when known, for the account.
+ * Locks the account and emails the owner once the threshold is reached.
+ * @param ip - Client IP address
+ * @param user - The targeted account, if the email exists
+ * @returns Whether the account was locked by this attempt
+ */
+export const recordFailedLogin = async (ip: string, user?: IUser | null): Promise<{ locked: boolean }> => {
+  const { maxAccountAttempts, maxIpAttempts, lockoutMinutes } = getThrottleConfig();
+  const now = new Date();
+  const lockoutMs = lockoutMinutes * 60 * 1000;
+
+  // Per-IP counter
+  const attempt = await LoginAttempt.findOneAndUpdate(
+    { ip },
+    {
+      $inc: { failedAttempts: 1 },
+      $set: { lastFailedAt: now, expiresAt: new Date(now.getTime() + lockoutMs) },
+    },
+    { upsert: true, new: true }
+  );
+
+  if (attempt && attempt.failedAttempts >= maxIpAttempts) {
+    attempt.blockedUntil = new Date(now.getTime() + lockoutMs);
+    attempt.expiresAt = attempt.blockedUntil;
+    await attempt.save();
+  }
+
+  if (!user) return { locked: false };
+
+  // Per-account counter, updated in a single operation so parallel attempts
+  // cannot lose increments (an expired lock starts a fresh count)
+  const lockExpired = {
+    $and: [{ $eq: [{ $type: "$lockUntil" }, "date"] }, { $lte: ["$lockUntil", now] }],
+  };
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id },
+    [
+      {
+        $set: {
+          failedLoginAttempts: {
+            $add: [{ $cond: [lockExpired, 0, { $ifNull: ["$failedLoginAttempts", 0] }] }, 1],
+          },
+          lastFailedLoginAt: now,
+          lockUntil: { $cond: [lockExpired, "$$REMOVE", "$lockUntil"] },
+        },
+      },
+      {
+        $set: {
+          lockUntil: {
+            $cond: [
+              { $gte: ["$failedLoginAttempts", maxAccountAttempts] },
+              new Date(now.getTime() + lockoutMs),
+              "$lockUntil",
+            ],
+          },
+        },
+      },
+    ],
+    { new: true }
+  );
+  if (!updated) return { locked: false };
+
+  const locked = updated.failedLoginAttempts >= maxAccountAttempts;
+
+  // Only the attempt that reached the threshold emails the owner
+  if (updated.failedLoginAttempts === maxAccountAttempts) {
+    try {
+      await sendEmail(
+        user.email,
+        "Account temporarily locked - GuaraniHost",
+        `
+        <h2>🔒 Account temporarily locked</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>We detected ${updated.failedLoginAttempts} failed login attempts on your account, so it has been locked for ${lockoutMinutes} minutes.</p>
+        <p>If this was not you, we recommend resetting your password once the lock expires.</p>
+        <br>
+        <p>Best regards,<br>GuaraniHost Team</p>
+        `
+      );
+    } catch (emailError) {
+      console.error("❌ Error sending lockout email:", emailError);
+    }
+  }
+
+  return { locked };
+};
+
+/**
+ * Clears the account's failed login counter after a successful login.
+ * The per-IP counter is kept: logging into one's own account must not
+ * reset the guesses made against other accounts from the same IP.
+ * @param user - The account that logged in
+ */
+export const recordSuccessfulLogin = async (user: IUser): Promise<void> => {
+  if (user.failedLoginAttempts > 0 || user.lockUntil) {
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { failedLoginAttempts: 0 }, $unset: { lastFailedLoginAt: "", lockUntil: "" } }
+    );
+  }
+};
+
+/**
+ * Clears the lock and counters of an account (admin unlock)
+ * @param user - The account to unlock
+ */
+export const unlockAccount = async (user: IUser): Promise<void> => {
+  user.failedLoginAttempts = 0;
+  user.lastFailedLoginAt = undefined;
+  user.lockUntil = undefined;
+  await user.save();
+};
@@ -0,0 +1,39 @@
+import { Migration } from "../models/MigrationModel";
+import { User } from "../models/User";
+import { AccountStatus } from "../@types/express/enums";
+
+/**
+ * Runs a data migration unless it was already applied to this database.
+ * The migration is recorded only once it finishes, so a failed run is
+ * retried on the next startup (migrations must be safe to run again).
+ * @param name - Unique name of the migration
+ * @param migrate - The migration; may return a count to log
+ */
+export const runMigrationOnce = async (
+  name: string,
+  migrate: () => Promise<number | void>
+): Promise<void> => {
+  if (await Migration.exists({ name })) return;
+
+  const result = await migrate();
+  await Migration.updateOne({ name }, { $setOnInsert: { name, appliedAt: new Date() } }, { upsert: true });
+
+  console.log(`🛠️ Migration '${name}' applied${typeof result === "number" ? ` (${result} documents)` : ""}`);
+};
+
+/**
+ * One-time migration: accounts created before email verification existed
+ * never got emailVerifiedAt. Every account that is not waiting for its
+ * verification link is marked as verified (anonymized accounts are skipped).
+ * @returns Number of accounts updated
+ */
+export const markExistingEmailsVerified = async (): Promise<number> => {
+  const result = await User.updateMany(
+    {
+      emailVerifiedAt: { $exists: false },
+      accountStatus: { $nin: [AccountStatus.PENDING_VERIFICATION, AccountStatus.DELETED] },
+    },
+    { $set: { emailVerifiedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
@@ -0,0 +1,164 @@
+import { Types } from "mongoose";
+import { PropertyNight } from "../models/PropertyNightModel";
+import { Booking } from "../models/BookingModel";
+import { BookingStatus } from "../@types/express/enums";
+
+type Id = string | Types.ObjectId;
+
+/**
+ * Nights held by a booking whose document was never saved (e.g. the server
+ * stopped between reserving and saving) can be reclaimed after this delay
+ */
+const STALE_RESERVATION_MINUTES = 10;
+
+const DAY_MS = 1000 * 3600 * 24;
+
+/**
+ * Lists the nights of a stay as UTC midnights, from check-in (included)
+ * to check-out (excluded). A same-day stay counts as one night.
+ */
+export const getStayNights = (checkIn: Date, checkOut: Date): Date[] => {
+  const start = Date.UTC(checkIn.getUTCFullYear(), checkIn.getUTCMonth(), checkIn.getUTCDate());
+  const end = Date.UTC(checkOut.getUTCFullYear(), checkOut.getUTCMonth(), checkOut.getUTCDate());
+
+  const nights: Date[] = [];
+  for (let time = start; time < Math.max(end, start + DAY_MS); time += DAY_MS) {
+    nights.push(new Date(time));
+  }
+  return nights;
+};
+
+/**
+ * Inserts night documents for a booking. On a unique index conflict the
+ * nights inserted by this call are removed again and false is returned.
+ */
+const insertNights = async (propertyId: Id, nights: Date[], bookingId: Id): Promise<boolean> => {
+  try {
+    await PropertyNight.insertMany(
+      nights.map((night) => ({ property: propertyId, night, booking: bookingId })),
+      { ordered: true }
+    );
+    return true;
+  } catch (error: any) {
+    if (error?.code !== 11000) {
+      throw error;
+    }
+    await PropertyNight.deleteMany({ property: propertyId, booking: bookingId, night: { $in: nights } });
+    return false;
+  }
+};
+
+/**
+ * Frees nights held by bookings that are no longer pending or confirmed, or
+ * that were never saved. Recent nights are left alone: their booking may
+ * still be in the middle of being created.
+ * @returns True when at least one night was freed
+ */
+const reclaimStaleNights = async (propertyId: Id, nights: Date[], bookingId: Id): Promise<boolean> => {
+  const cutoff = new Date(Date.now() - STALE_RESERVATION_MINUTES * 60 * 1000);
+  const held = await PropertyNight.find({
+    property: propertyId,
+    night: { $in: nights },
+    booking: { $ne: bookingId },
+    createdAt: { $lt: cutoff },
+  });
+
+  if (held.length === 0) {
+    return false;
+  }
+
+  const activeBookings = await Booking.distinct("_id", {
+    _id: { $in: held.map((night) => night.booking) },
+    status: { $in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] },
+  });
+  const active = new Set(activeBookings.map((id) => String(id)));
+  const stale = held.filter((night) => !active.has(night.booking.toString()));
+
+  if (stale.length === 0) {
+    return false;
+  }
+
+  await PropertyNight.deleteMany({ _id: { $in: stale.map((night) => night._id) } });
+  return true;
+};
+
+/**
+ * Atomically reserves the nights of a stay for a booking. Nights the booking
+ * already holds are kept, missing ones are inserted and nights outside the
+ * new range are released, so the same call handles date changes.
+ * Concurrent reservations of the same night cannot both succeed.
+ * @param propertyId - Property being booked
+ * @param checkIn - Check-in date
+ * @param checkOut - Check-out date
+ * @param bookingId - Booking that will hold the nights (may not be saved yet)
+ * @returns Result with an explanation when a night is already taken
+ */
+export const reserveNights = async (
+  propertyId: Id,
+  checkIn: Date,
+  checkOut: Date,
+  bookingId: Id
+): Promise<{ valid: boolean; message?: string }> => {
+  const nights = getStayNights(checkIn, checkOut);
+
+  const owned = await PropertyNight.find({ property: propertyId, booking: bookingId }).select("night");
+  const ownedTimes = new Set(owned.map((entry) => entry.night.getTime()));
+  const missing = nights.filter((night) => !ownedTimes.has(night.getTime()));
+
+  if (missing.length > 0) {
+    let reserved = await insertNights(propertyId, missing, bookingId);
+
+    if (!reserved && (await reclaimStaleNights(propertyId, missing, bookingId))) {
+      reserved = await insertNights(propertyId, missing, bookingId);
+    }
+
+    if (!reserved) {
+      return { valid: false, message: "❗ Property is already booked for some of the selected dates" };
+    }
+  }
+
+  const nightTimes = new Set(nights.map((night) => night.getTime()));
+  const released = owned.filter((entry) => !nightTimes.has(entry.night.getTime()));
+  if (released.length > 0) {
+    await PropertyNight.deleteMany({ _id: { $in: released.map((entry) => entry._id) } });
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Releases every night held by a booking (cancellation, deletion)
+ */
+export const releaseNights = async (bookingId: Id): Promise<void> => {
+  await PropertyNight.deleteMany({ booking: bookingId });
+};
+
+/**
+ * One-time migration: bookings made before nights were reserved hold no
+ * night documents, so reserveNights alone would let new bookings (or date
+ * changes) overlap them. Reserves the nights of every upcoming pending or
+ * confirmed property booking. Bookings that already overlap each other are
+ * logged for an admin to resolve.
+ * @returns Number of bookings whose nights were reserved
+ */
+export const backfillPropertyNights = async (): Promise<number> => {
+  const bookings = await Booking.find({
+    property: { $exists: true, $ne: null },
+    status: { $in: [BookingStatus.PENDING, BookingStatus.CONFIRMED] },
+    checkOut: { $gt: new Date() },
+  })
+    .select("property checkIn checkOut")
+    .sort({ createdAt: 1 });
+
+  let reserved = 0;
+  for (const booking of bookings) {
+    const result = await reserveNights(booking.property!, booking.checkIn, booking.checkOut, booking._id as Types.ObjectId);
+    if (result.valid) {
+      reserved++;
+    } else {
+      console.warn(`⚠️ Booking ${booking._id} overlaps an earlier booking, its nights could not be reserved`);
+    }
+  }
+
+  return reserved;
+};
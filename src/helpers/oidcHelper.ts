@@ -0,0 +1,223 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { OidcProviderConfig } from "../config/oidcProviders";
+
+/**
+ * Subset of the OpenID Provider metadata used by the authorization-code flow
+ */
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Claims read from a verified ID token
+ */
+export interface OidcIdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  nonce?: string;
+}
+
+// How long discovery documents and signing keys are cached
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: crypto.JsonWebKey[]; fetchedAt: number }>();
+
+/**
+ * Encodes a buffer as base64url (RFC 4648 §5, no padding)
+ */
+const base64Url = (buffer: Buffer): string => buffer.toString("base64url");
+
+/**
+ * Fetches a JSON document and fails on non-2xx responses
+ */
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const detail = body?.error_description || body?.error || response.statusText;
+    throw new Error(`❗ OIDC request to ${url} failed: ${detail}`);
+  }
+  return body;
+};
+
+/**
+ * Loads the provider metadata from its discovery document (cached)
+ * @param provider - The provider configuration
+ * @returns The provider metadata
+ */
+export const discoverProvider = async (provider: OidcProviderConfig): Promise<OidcProviderMetadata> => {
+  const cached = metadataCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson(`${provider.issuer}/.well-known/openid-configuration`);
+
+  if (String(metadata.issuer).replace(/\/$/, "") !== provider.issuer) {
+    throw new Error("❗ OIDC discovery document issuer does not match the configured issuer");
+  }
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error("❗ OIDC discovery document is missing required endpoints");
+  }
+
+  metadataCache.set(provider.issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+/**
+ * Returns the provider signing keys, refreshing them when a key ID is unknown (key rotation)
+ */
+const getSigningKey = async (jwksUri: string, kid?: string): Promise<crypto.JsonWebKey | undefined> => {
+  const findKey = (keys: crypto.JsonWebKey[]) =>
+    keys.find((key) => (!kid || key.kid === kid) && key.kty === "RSA" && (!key.use || key.use === "sig"));
+
+  const cached = jwksCache.get(jwksUri);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+    const key = findKey(cached.keys);
+    if (key) return key;
+  }
+
+  const { keys = [] } = await fetchJson(jwksUri);
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+  return findKey(keys);
+};
+
+/**
+ * Generates the random values protecting one authorization request
+ * @returns state (CSRF), nonce (ID token replay) and the PKCE verifier/challenge pair
+ */
+export const generateAuthorizationParams = (): {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  codeChallenge: string;
+} => {
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  return {
+    state: base64Url(crypto.randomBytes(24)),
+    nonce: base64Url(crypto.randomBytes(24)),
+    codeVerifier,
+    codeChallenge: base64Url(crypto.createHash("sha256").update(codeVerifier).digest()),
+  };
+};
+
+/**
+ * Builds the URL the browser is redirected to in order to sign in with the provider
+ * @param provider - The provider configuration
+ * @param params - state, nonce and PKCE challenge of this request
+ */
+export const buildAuthorizationUrl = async (
+  provider: OidcProviderConfig,
+  params: { state: string; nonce: string; codeChallenge: string }
+): Promise<string> => {
+  const metadata = await discoverProvider(provider);
+  const url = new URL(metadata.authorization_endpoint);
+
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", provider.redirectUri);
+  url.searchParams.set("scope", provider.scopes.join(" "));
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("nonce", params.nonce);
+  url.searchParams.set("code_challenge", params.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return url.toString();
+};
+
+/**
+ * Verifies an ID token signature (RS256 via the provider JWKS) and its claims
+ * @param provider - The provider configuration
+ * @param idToken - The ID token returned by the token endpoint
+ * @param nonce - The nonce sent in the authorization request
+ * @returns The verified claims
+ */
+export const verifyIdToken = async (
+  provider: OidcProviderConfig,
+  idToken: string,
+  nonce: string
+): Promise<OidcIdTokenClaims> => {
+  const metadata = await discoverProvider(provider);
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new Error("❗ Malformed ID token");
+  }
+
+  const jwk = await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+  if (!jwk) {
+    throw new Error("❗ No matching signing key found for the ID token");
+  }
+
+  const publicKey = crypto.createPublicKey({ key: jwk, format: "jwk" });
+  const claims = jwt.verify(idToken, publicKey, {
+    algorithms: ["RS256"],
+    issuer: metadata.issuer,
+    audience: provider.clientId,
+  }) as OidcIdTokenClaims;
+
+  if (!claims.sub) {
+    throw new Error("❗ ID token has no subject");
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error("❗ ID token nonce mismatch");
+  }
+
+  return claims;
+};
+
+/**
+ * Exchanges an authorization code for tokens and verifies the returned ID token
+ * @param provider - The provider configuration
+ * @param code - The authorization code received on the callback
+ * @param codeVerifier - The PKCE verifier of the authorization request
+ * @param nonce - The nonce of the authorization request
+ * @returns The verified ID token claims
+ */
+export const exchangeAuthorizationCode = async (
+  provider: OidcProviderConfig,
+  code: string,
+  codeVerifier: string,
+  nonce: string
+): Promise<OidcIdTokenClaims> => {
+  const metadata = await discoverProvider(provider);
+
+  const tokens = await fetchJson(metadata.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: provider.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: codeVerifier,
+    }),
+  });
+
+  if (!tokens.id_token) {
+    throw new Error("❗ Token response did not include an ID token");
+  }
+
+  return verifyIdToken(provider, tokens.id_token, nonce);
+};
+
+/**
+ * Whether the provider vouches for the email address of the identity
+ * (some providers send email_verified as a string)
+ */
+export const isEmailVerified = (claims: OidcIdTokenClaims): boolean => {
+  return !!claims.email && (claims.email_verified === true || claims.email_verified === "true");
+};
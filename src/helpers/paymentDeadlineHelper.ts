@@ -0,0 +1,122 @@
+import { Booking, IBooking } from "../models/BookingModel";
+import { Property } from "../models/PropertyModel";
+import { TourPackage } from "../models/TourPackageModel";
+import { IUser } from "../models/User";
+import { transitionBooking } from "./bookingLifecycle";
+import { sendEmail } from "../utils/emailService";
+import { BookingMode, BookingStatus, PaymentStatus } from "../@types/express/enums";
+
+export const PAYMENT_DEADLINE_EXPIRED_REASON = "Payment deadline expired";
+
+/**
+ * Hours a guest has to pay a booking, unless the listing sets its own deadline
+ */
+export const getDefaultPaymentDeadlineHours = (): number =>
+  Number(process.env.PAYMENT_DEADLINE_HOURS) || 24;
+
+/**
+ * Computes the payment deadline of a new booking from the listing's setting
+ * (or the global default). The deadline never falls after check-in.
+ * @param listing - Property or tour package being booked
+ * @param checkIn - Check-in date of the booking
+ * @param from - Booking creation time
+ */
+export const computePaymentDeadline = async (
+  listing: { property?: string; tourPackage?: string },
+  checkIn: Date,
+  from: Date = new Date()
+): Promise<Date> => {
+  const found = listing.property
+    ? await Property.findById(listing.property).select("paymentDeadlineHours")
+    : await TourPackage.findById(listing.tourPackage).select("paymentDeadlineHours");
+
+  const hours = found?.paymentDeadlineHours || getDefaultPaymentDeadlineHours();
+  const deadline = new Date(from.getTime() + hours * 60 * 60 * 1000);
+
+  return deadline < checkIn ? deadline : checkIn;
+};
+
+/**
+ * Tells the guest their unpaid booking was cancelled
+ */
+const sendExpiryEmail = async (booking: IBooking): Promise<void> => {
+  const user = booking.user as unknown as IUser;
+  if (!user?.email) return;
+
+  const bookingType = booking.property ? "property" : "tour";
+  const bookingTitle = (booking.property as any)?.title || (booking.tourPackage as any)?.title || "N/A";
+
+  try {
+    await sendEmail(
+      user.email,
+      "Booking Cancelled - Payment Not Received - GuaraniHost",
+      `
+      <h2>⌛ Booking Expired</h2>
+      <p>Hello ${user.firstName},</p>
+      <p>Your ${bookingType} booking for <strong>${bookingTitle}</strong> was cancelled because the payment was not received before the deadline.</p>
+      <p>Check-in: ${booking.checkIn.toLocaleDateString()}</p>
+      <p>Check-out: ${booking.checkOut.toLocaleDateString()}</p>
+      <p>Total Amount: $${booking.totalPrice}</p>
+      <p>The dates are available again. You can make a new booking at any time.</p>
+      <br>
+      <p>Best regards,<br>GuaraniHost Team</p>
+      `
+    );
+  } catch (error) {
+    console.error("❌ Error sending booking expiry email:", error);
+  }
+};
+
+/**
+ * Cancels every unpaid booking whose payment deadline has passed: pending
+ * bookings, and instant-book bookings (confirmed before payment). Requests
+ * still waiting for the host are left to the host response deadline.
+ * Bookings created before deadlines existed expire after the default delay.
+ * @returns Number of cancelled bookings
+ */
+export const processExpiredBookings = async (): Promise<number> => {
+  const now = new Date();
+  const legacyCutoff = new Date(now.getTime() - getDefaultPaymentDeadlineHours() * 60 * 60 * 1000);
+
+  const expired = await Booking.find({
+    paymentStatus: PaymentStatus.PENDING,
+    $and: [
+      {
+        $or: [
+          { status: BookingStatus.PENDING },
+          { status: BookingStatus.CONFIRMED, bookingMode: BookingMode.INSTANT },
+        ],
+      },
+      {
+        $or: [
+          { paymentDeadline: { $lte: now } },
+          { paymentDeadline: { $exists: false }, createdAt: { $lte: legacyCutoff } },
+        ],
+      },
+    ],
+    $nor: [{ hostResponseDeadline: { $exists: true }, hostApprovedAt: { $exists: false } }],
+  });
+
+  let processed = 0;
+  for (const booking of expired) {
+    const previousStatus = booking.status;
+    try {
+      const transition = await transitionBooking(booking, BookingStatus.CANCELLED, "system", {
+        reason: PAYMENT_DEADLINE_EXPIRED_REASON,
+      });
+      if (!transition.valid) continue;
+
+      // Skip the booking if it was paid or changed since it was loaded
+      booking.$where = { status: previousStatus, paymentStatus: PaymentStatus.PENDING };
+      await booking.save();
+      processed++;
+
+      await sendExpiryEmail(booking);
+    } catch (error: any) {
+      if (error?.name === "DocumentNotFoundError") continue;
+      console.error(`❌ Error expiring booking ${booking._id}:`, error);
+    }
+  }
+
+  return processed;
+};
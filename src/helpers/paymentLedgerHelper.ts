@@ -0,0 +1,257 @@
+import { Types } from "mongoose";
+import { IBooking } from "../models/BookingModel";
+import { PaymentTransaction, IPaymentTransaction } from "../models/PaymentTransactionModel";
+import { roundPrice } from "./pricingHelper";
+import { PaymentMethod, PaymentStatus, TransactionType } from "../@types/express/enums";
+import type { BookingActor } from "./bookingLifecycle";
+
+/**
+ * Amounts derived from a booking's transactions
+ */
+export interface PaymentTotals {
+  charged: number;
+  refunded: number;
+  adjusted: number;
+  paid: number;       // charged + adjusted
+  netPaid: number;    // paid - refunded
+  balanceDue: number; // what the guest still owes (totalPrice - netPaid)
+}
+
+export interface TransactionInput {
+  type: TransactionType;
+  amount: number;
+  method?: PaymentMethod;
+  reference?: string;
+  note?: string;
+}
+
+export interface TransactionRecorder {
+  role: BookingActor;
+  userId?: Types.ObjectId | string;
+}
+
+/**
+ * Sums a booking's transactions
+ * @param transactions - Transactions of one booking
+ * @param totalPrice - Booking total, to compute the balance due
+ */
+export const calculatePaymentTotals = (
+  transactions: Array<Pick<IPaymentTransaction, "type" | "amount">>,
+  totalPrice: number
+): PaymentTotals => {
+  const sum = (type: TransactionType) =>
+    roundPrice(transactions.filter((tx) => tx.type === type).reduce((total, tx) => total + tx.amount, 0));
+
+  const charged = sum(TransactionType.CHARGE);
+  const refunded = sum(TransactionType.REFUND);
+  const adjusted = sum(TransactionType.ADJUSTMENT);
+  const paid = roundPrice(charged + adjusted);
+
+  return {
+    charged,
+    refunded,
+    adjusted,
+    paid,
+    netPaid: roundPrice(paid - refunded),
+    balanceDue: Math.max(0, roundPrice(totalPrice - (paid - refunded))),
+  };
+};
+
+/**
+ * Derives the payment status from the totals. FAILED is kept while nothing
+ * has been paid, since a failed attempt leaves no transaction. A booking
+ * whose overpayment was refunded (e.g. after a cheaper change) stays paid.
+ */
+export const derivePaymentStatus = (totals: PaymentTotals, current?: PaymentStatus): PaymentStatus => {
+  if (totals.paid <= 0) {
+    return current === PaymentStatus.FAILED ? PaymentStatus.FAILED : PaymentStatus.PENDING;
+  }
+  if (totals.balanceDue === 0) {
+    return PaymentStatus.PAID;
+  }
+  if (totals.refunded > 0) {
+    return totals.refunded >= totals.paid ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED;
+  }
+  return PaymentStatus.PARTIALLY_PAID;
+};
+
+/**
+ * Bookings paid or refunded before the ledger existed have no transactions.
+ * Records an opening balance for them so their totals match their status.
+ */
+const ensureOpeningBalance = async (booking: IBooking): Promise<void> => {
+  if (booking.paymentStatus !== PaymentStatus.PAID && booking.paymentStatus !== PaymentStatus.REFUNDED) return;
+  if (await PaymentTransaction.exists({ booking: booking._id })) return;
+
+  const note = "Opening balance recorded before the payment ledger";
+  const entries: Array<Partial<IPaymentTransaction>> = [
+    { booking: booking._id as Types.ObjectId, type: TransactionType.CHARGE, amount: booking.totalPrice, note, recordedByRole: "system" },
+  ];
+  if (booking.paymentStatus === PaymentStatus.REFUNDED) {
+    entries.push({ booking: booking._id as Types.ObjectId, type: TransactionType.REFUND, amount: booking.totalPrice, note, recordedByRole: "system" });
+  }
+  await PaymentTransaction.insertMany(entries);
+};
+
+/**
+ * Loads a booking's transactions (oldest first) and their totals
+ */
+export const getPaymentSummary = async (
+  booking: IBooking
+): Promise<{ transactions: IPaymentTransaction[]; totals: PaymentTotals }> => {
+  await ensureOpeningBalance(booking);
+
+  const transactions = await PaymentTransaction.find({ booking: booking._id })
+    .sort({ createdAt: 1 })
+    .populate("recordedBy", "firstName lastName email");
+
+  return { transactions, totals: calculatePaymentTotals(transactions, booking.totalPrice) };
+};
+
+/**
+ * A checked transaction that is not saved yet (see preparePaymentTransaction)
+ */
+export type PendingTransaction = Partial<IPaymentTransaction>;
+
+/**
+ * Checks a charge, refund or adjustment and updates the booking's payment
+ * status in memory, without writing to the ledger. The caller saves the
+ * booking first and then the transaction (savePaymentTransaction), so a
+ * booking update that fails leaves nothing in the ledger.
+ * @param booking - Booking the money belongs to
+ * @param input - Transaction details
+ * @param recorder - Who records it
+ * @returns The transaction to save, or an explanation when it is not allowed
+ */
+export const preparePaymentTransaction = async (
+  booking: IBooking,
+  input: TransactionInput,
+  recorder: TransactionRecorder
+): Promise<{ valid: boolean; message?: string; pending?: PendingTransaction; totals?: PaymentTotals }> => {
+  const amount = roundPrice(Number(input.amount));
+
+  if (!Object.values(TransactionType).includes(input.type)) {
+    return { valid: false, message: "❗ Invalid transaction type" };
+  }
+  if (input.method && !Object.values(PaymentMethod).includes(input.method)) {
+    return { valid: false, message: "❗ Invalid payment method" };
+  }
+  if (!Number.isFinite(amount) || amount === 0 || (input.type !== TransactionType.ADJUSTMENT && amount < 0)) {
+    return { valid: false, message: "❗ Amount must be greater than zero (adjustments can be negative)" };
+  }
+
+  const { totals } = await getPaymentSummary(booking);
+
+  if (input.type === TransactionType.REFUND && amount > totals.netPaid) {
+    return { valid: false, message: `❗ Cannot refund more than the $${totals.netPaid} paid` };
+  }
+  if (input.type === TransactionType.ADJUSTMENT && roundPrice(totals.paid + amount) < totals.refunded) {
+    return { valid: false, message: "❗ Adjustment would leave less paid than already refunded" };
+  }
+
+  const pending: PendingTransaction = {
+    booking: booking._id as Types.ObjectId,
+    type: input.type,
+    amount,
+    method: input.method,
+    reference: input.reference?.trim(),
+    note: input.note?.trim(),
+    recordedBy: recorder.userId as Types.ObjectId | undefined,
+    recordedByRole: recorder.role,
+  };
+
+  const newTotals = calculatePaymentTotals(
+    [
+      { type: TransactionType.CHARGE, amount: totals.charged },
+      { type: TransactionType.REFUND, amount: totals.refunded },
+      { type: TransactionType.ADJUSTMENT, amount: totals.adjusted },
+      { type: input.type, amount },
+    ],
+    booking.totalPrice
+  );
+  booking.paymentStatus = derivePaymentStatus(newTotals, booking.paymentStatus);
+
+  return { valid: true, pending, totals: newTotals };
+};
+
+/**
+ * Saves a transaction checked by preparePaymentTransaction or applyPaymentStatus
+ * (nothing to do when no money moves)
+ */
+export const savePaymentTransaction = async (pending?: PendingTransaction): Promise<IPaymentTransaction | undefined> =>
+  pending ? PaymentTransaction.create(pending) : undefined;
+
+/**
+ * Records a charge, refund or adjustment right away and updates the booking's
+ * payment status in memory; the caller saves the booking. Use it when the
+ * booking save cannot fail in a way that should undo the transaction.
+ * @returns The new transaction, or an explanation when it is not allowed
+ */
+export const recordPaymentTransaction = async (
+  booking: IBooking,
+  input: TransactionInput,
+  recorder: TransactionRecorder
+): Promise<{ valid: boolean; message?: string; transaction?: IPaymentTransaction; totals?: PaymentTotals }> => {
+  const { pending, ...result } = await preparePaymentTransaction(booking, input, recorder);
+  if (!result.valid) return result;
+
+  return { ...result, transaction: await savePaymentTransaction(pending) };
+};
+
+/**
+ * Applies a payment status chosen by hand (older endpoints) through the ledger:
+ * "paid" charges the balance due and "refunded" refunds what was paid.
+ * "pending" and "failed" are only accepted while no money has moved.
+ * Like preparePaymentTransaction, nothing is written: the caller saves the
+ * booking, then the pending transaction.
+ * @returns The transaction to save (if money moves), or an explanation when
+ *          the status cannot be set this way
+ */
+export const applyPaymentStatus = async (
+  booking: IBooking,
+  status: PaymentStatus,
+  recorder: TransactionRecorder
+): Promise<{ valid: boolean; message?: string; pending?: PendingTransaction }> => {
+  if (status === booking.paymentStatus) {
+    return { valid: true };
+  }
+
+  const { transactions, totals } = await getPaymentSummary(booking);
+
+  switch (status) {
+    case PaymentStatus.PAID:
+      if (totals.refunded > 0) {
+        return { valid: false, message: "❗ This booking has refunds, record a charge transaction instead" };
+      }
+      if (totals.balanceDue === 0) {
+        booking.paymentStatus = derivePaymentStatus(totals, booking.paymentStatus);
+        return { valid: true };
+      }
+      return preparePaymentTransaction(
+        booking,
+        { type: TransactionType.CHARGE, amount: totals.balanceDue, note: "Marked as paid" },
+        recorder
+      );
+
+    case PaymentStatus.REFUNDED:
+      if (totals.netPaid <= 0) {
+        return { valid: false, message: "❗ Nothing has been paid, there is nothing to refund" };
+      }
+      return preparePaymentTransaction(
+        booking,
+        { type: TransactionType.REFUND, amount: totals.netPaid, note: "Marked as refunded" },
+        recorder
+      );
+
+    case PaymentStatus.PENDING:
+    case PaymentStatus.FAILED:
+      if (transactions.length > 0) {
+        return { valid: false, message: "❗ Payments were recorded, use a refund or adjustment transaction instead" };
+      }
+      booking.paymentStatus = status;
+      return { valid: true };
+
+    default:
+      return { valid: false, message: "❗ Partial payment statuses are set by recording a transaction with the amount" };
+  }
+};
@@ -0,0 +1,51 @@
+import { Role } from "../models/RoleModel";
+import { IUser, User } from "../models/User";
+import { DEFAULT_ROLES, SUPER_ADMIN_ROLE } from "../config/defaultRoles";
+import { Permission } from "../@types/express/enums";
+
+/**
+ * Creates the system roles if missing and keeps their permissions up to date
+ */
+export const seedDefaultRoles = async (): Promise<void> => {
+  for (const role of DEFAULT_ROLES) {
+    await Role.updateOne(
+      { name: role.name },
+      {
+        $set: { permissions: role.permissions, isSystem: true },
+        $setOnInsert: { name: role.name, description: role.description },
+      },
+      { upsert: true }
+    );
+  }
+};
+
+/**
+ * One-time migration: admins created before roles existed had every
+ * permission, so they are given the super_admin role explicitly.
+ * Admins created afterwards always get a role on creation.
+ * @returns Number of admins updated
+ */
+export const assignSuperAdminToLegacyAdmins = async (): Promise<number> => {
+  const superAdmin = await Role.findOne({ name: SUPER_ADMIN_ROLE });
+  if (!superAdmin) throw new Error(`Role '${SUPER_ADMIN_ROLE}' is missing, seed the default roles first`);
+
+  const result = await User.updateMany(
+    { role: "admin", adminRole: { $exists: false } },
+    { $set: { adminRole: superAdmin._id } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Resolves the permissions of a user.
+ * Only admins have permissions, through their assigned role; an admin
+ * without a role has none.
+ * @param user - The authenticated user
+ * @returns List of granted permissions
+ */
+export const getUserPermissions = async (user: IUser): Promise<Permission[]> => {
+  if (user.role !== "admin" || !user.adminRole) return [];
+
+  const role = await Role.findById(user.adminRole);
+  return role ? role.permissions : [];
+};
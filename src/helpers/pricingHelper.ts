@@ -0,0 +1,158 @@
+import { Property } from "../models/PropertyModel";
+import { TourPackage } from "../models/TourPackageModel";
+import { Types } from "mongoose";
+import { ITourDeparture } from "../models/TourDepartureModel";
+import { GuestBreakdown, validateListingCapacity } from "./capacityHelper";
+import { PropertyStatus, TourPackageStatus } from "../@types/express/enums";
+
+/**
+ * Price breakdown computed by the server for a property stay or a tour
+ */
+export interface PriceQuote {
+  type: "property" | "tour";
+  unitPrice: number;        // Price per night (property) or per guest (tour)
+  units: number;            // Nights (property) or adults + children (tour, infants are free)
+  subtotal: number;
+  cleaningFee: number;
+  serviceFeePercent: number;
+  serviceFee: number;
+  total: number;
+}
+
+export interface QuoteInput {
+  property?: string;
+  tourPackage?: string;
+  checkIn: Date;
+  checkOut: Date;
+  guests: GuestBreakdown;
+  tourDeparture?: ITourDeparture; // Departure being booked (its price override applies)
+  excludeBookingId?: Types.ObjectId | string; // Booking being changed, not counted against tour capacity
+  seatsHeld?: number; // Seats the booking being changed already holds on the departure
+}
+
+/**
+ * Percentage of the subtotal charged as platform service fee
+ */
+export const getServiceFeePercent = (): number => {
+  const percent = Number(process.env.SERVICE_FEE_PERCENT);
+  return process.env.SERVICE_FEE_PERCENT && !isNaN(percent) && percent >= 0 ? percent : 10;
+};
+
+/**
+ * Rounds an amount to cents
+ */
+export const roundPrice = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Number of nights between two dates, counted the same way as the Booking `nights` virtual
+ */
+export const countNights = (checkIn: Date, checkOut: Date): number =>
+  Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 3600 * 24));
+
+/**
+ * Compares a client-provided total with the server quote (cent tolerance)
+ */
+export const pricesMatch = (clientTotal: number, serverTotal: number): boolean =>
+  Math.abs(Number(clientTotal) - serverTotal) < 0.01;
+
+/**
+ * Keeps the quote fields stored on the booking (the total lives in totalPrice)
+ */
+export const toPriceBreakdown = (quote: PriceQuote) => ({
+  unitPrice: quote.unitPrice,
+  units: quote.units,
+  subtotal: quote.subtotal,
+  cleaningFee: quote.cleaningFee,
+  serviceFeePercent: quote.serviceFeePercent,
+  serviceFee: quote.serviceFee,
+});
+
+/**
+ * Computes the price of a booking from the listing's current prices:
+ * - Property: pricePerNight × nights + cleaningFee
+ * - Tour: price (or the departure's price override) × (adults + children)
+ * A service fee is added on top of the subtotal and cleaning fee.
+ * The guests are checked against the listing's capacity first.
+ * @param input - Listing reference, dates and guests
+ * @returns Quote or an explanation when the listing cannot be priced
+ */
+export const calculateBookingQuote = async (
+  input: QuoteInput
+): Promise<{ valid: boolean; message?: string; quote?: PriceQuote }> => {
+  const { property, tourPackage, tourDeparture, checkIn, checkOut, guests, excludeBookingId, seatsHeld } = input;
+
+  if (isNaN(checkIn.getTime()) || isNaN(checkOut.getTime()) || checkIn >= checkOut) {
+    return { valid: false, message: "❗ Check-out date must be after check-in date" };
+  }
+
+  let type: PriceQuote["type"];
+  let unitPrice: number;
+  let units: number;
+  let cleaningFee = 0;
+
+  if (property) {
+    const listing = await Property.findById(property);
+    if (!listing) {
+      return { valid: false, message: "🚫 Property not found" };
+    }
+    if (listing.status !== PropertyStatus.AVAILABLE) {
+      return { valid: false, message: "❗ Property is not available for booking" };
+    }
+
+    const capacity = await validateListingCapacity({ property: listing }, guests, checkIn);
+    if (!capacity.valid) {
+      return capacity;
+    }
+
+    type = "property";
+    unitPrice = listing.pricePerNight;
+    units = countNights(checkIn, checkOut);
+    cleaningFee = listing.cleaningFee || 0;
+  } else if (tourPackage) {
+    const tour = await TourPackage.findById(tourPackage);
+    if (!tour) {
+      return { valid: false, message: "🚫 Tour package not found" };
+    }
+    // A sold-out tour can still reprice its own bookings (e.g. fewer guests or
+    // another departure): the seats are checked atomically when saving
+    const bookable = tour.status === TourPackageStatus.AVAILABLE ||
+      (excludeBookingId !== undefined && tour.status === TourPackageStatus.SOLD_OUT);
+    if (!bookable) {
+      return { valid: false, message: "❗ Tour package is not available for booking" };
+    }
+
+    const capacity = await validateListingCapacity(
+      { tourPackage: tour, tourDeparture },
+      guests,
+      checkIn,
+      { bookingId: excludeBookingId, seatsHeld }
+    );
+    if (!capacity.valid) {
+      return capacity;
+    }
+
+    type = "tour";
+    unitPrice = tourDeparture?.priceOverride ?? tour.price;
+    units = guests.adults + guests.children;
+  } else {
+    return { valid: false, message: "❗ Either property or tour package must be specified" };
+  }
+
+  const subtotal = roundPrice(unitPrice * units);
+  const serviceFeePercent = getServiceFeePercent();
+  const serviceFee = roundPrice(((subtotal + cleaningFee) * serviceFeePercent) / 100);
+
+  return {
+    valid: true,
+    quote: {
+      type,
+      unitPrice,
+      units,
+      subtotal,
+      cleaningFee,
+      serviceFeePercent,
+      serviceFee,
+      total: roundPrice(subtotal + cleaningFee + serviceFee),
+    },
+  };
+};
@@ -0,0 +1,127 @@
+import { Types } from "mongoose";
+import { RefreshToken } from "../models/RefreshTokenModel";
+import { Session } from "../models/SessionModel";
+import { generateRandomToken, hashToken } from "../utils/cryptoToken";
+
+/**
+ * Client information recorded with each session
+ */
+export interface TokenClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
+
+// Longest user agent stored (the models reject longer values, so they are cut)
+export const MAX_USER_AGENT_LENGTH = 500;
+
+/**
+ * Returns the refresh token lifetime in milliseconds (REFRESH_TOKEN_EXPIRES_DAYS, default 30 days)
+ */
+export const getRefreshTokenTtl = (): number => {
+  const days = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || 30;
+  return days * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Issues a new refresh token for a session and persists its hash
+ * @param userId - Owner of the token
+ * @param sessionId - Session the token belongs to
+ * @returns The plain refresh token to send to the client
+ */
+export const issueRefreshToken = async (
+  userId: Types.ObjectId | string,
+  sessionId: Types.ObjectId | string
+): Promise<string> => {
+  const token = generateRandomToken(48);
+
+  await RefreshToken.create({
+    user: userId,
+    session: sessionId,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + getRefreshTokenTtl()),
+  });
+
+  return token;
+};
+
+/**
+ * Exchanges a refresh token for a new one (rotation).
+ * Presenting an already rotated or revoked token is treated as theft:
+ * the whole session and its tokens are revoked.
+ * @param token - The plain refresh token sent by the client
+ * @param client - IP and user agent of the requesting client
+ * @returns Validation result with the user ID, session ID and the new refresh token
+ */
+export const rotateRefreshToken = async (
+  token: string,
+  client: TokenClientInfo
+): Promise<{
+  valid: boolean;
+  message?: string;
+  userId?: string;
+  sessionId?: string;
+  refreshToken?: string;
+}> => {
+  const tokenHash = hashToken(token);
+  const now = new Date();
+
+  // Revoke the token in the same operation that reads it, so of two concurrent
+  // refreshes with the same token only one gets a new token
+  const stored = await RefreshToken.findOneAndUpdate(
+    { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+    { $set: { revokedAt: now } }
+  );
+
+  if (!stored) {
+    const existing = await RefreshToken.findOne({ tokenHash });
+    if (!existing || existing.expiresAt <= now) {
+      return { valid: false, message: "Invalid or expired refresh token" };
+    }
+
+    // Reuse detected: revoke the whole session
+    await Promise.all([
+      Session.updateOne(
+        { _id: existing.session, revokedAt: { $exists: false } },
+        { $set: { revokedAt: now, revokedReason: "Refresh token reuse detected" } }
+      ),
+      RefreshToken.updateMany(
+        { session: existing.session, revokedAt: { $exists: false } },
+        { $set: { revokedAt: now } }
+      ),
+    ]);
+    console.warn(`⚠️ Refresh token reuse detected for user ${existing.user}`);
+    return { valid: false, message: "Refresh token reuse detected, please log in again" };
+  }
+
+  const session = await Session.findById(stored.session);
+  if (!session || session.revokedAt) {
+    return { valid: false, message: "Session has been revoked, please log in again" };
+  }
+
+  const refreshToken = await issueRefreshToken(stored.user, session._id as Types.ObjectId);
+  await RefreshToken.updateOne({ _id: stored._id }, { $set: { replacedByHash: hashToken(refreshToken) } });
+
+  // Keep the session alive as long as its refresh tokens
+  session.lastSeenAt = new Date();
+  session.expiresAt = new Date(Date.now() + getRefreshTokenTtl());
+  if (client.ip) session.ip = client.ip;
+  if (client.userAgent) session.userAgent = client.userAgent.slice(0, MAX_USER_AGENT_LENGTH);
+  await session.save();
+
+  return {
+    valid: true,
+    userId: stored.user.toString(),
+    sessionId: session.id,
+    refreshToken,
+  };
+};
+
+/**
+ * Finds the session a refresh token belongs to (used by logout)
+ * @param token - The plain refresh token sent by the client
+ * @returns The session ID, if the token exists
+ */
+export const findRefreshTokenSession = async (token: string): Promise<string | undefined> => {
+  const stored = await RefreshToken.findOne({ tokenHash: hashToken(token) });
+  return stored?.session.toString();
+};
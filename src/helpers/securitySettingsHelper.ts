@@ -0,0 +1,25 @@
+import { SecuritySettings, ISecuritySettings } from "../models/SecuritySettingsModel";
+
+/**
+ * Returns the global security settings, creating them with defaults if missing
+ * @returns The security settings document
+ */
+export const getSecuritySettings = async (): Promise<ISecuritySettings> => {
+  const settings = await SecuritySettings.findOneAndUpdate(
+    { key: "global" },
+    { $setOnInsert: { key: "global" } },
+    { upsert: true, new: true }
+  );
+
+  return settings as ISecuritySettings;
+};
+
+/**
+ * Checks whether two-factor authentication is mandatory for a role
+ * @param role - The user's role
+ * @returns Boolean indicating if the role must use 2FA
+ */
+export const isTwoFactorRequiredForRole = async (role: string): Promise<boolean> => {
+  const settings = await getSecuritySettings();
+  return (settings.twoFactorRequiredRoles as string[]).includes(role);
+};
@@ -0,0 +1,87 @@
+import { Types } from "mongoose";
+import { Session } from "../models/SessionModel";
+import { RefreshToken } from "../models/RefreshTokenModel";
+import { generateToken } from "../utils/generateToken";
+import { issueRefreshToken, getRefreshTokenTtl, TokenClientInfo, MAX_USER_AGENT_LENGTH } from "./refreshTokenHelper";
+
+/**
+ * Creates a session for a successful login and issues its tokens
+ * @param userId - The user logging in
+ * @param client - IP and user agent of the requesting client
+ * @returns The access token, refresh token and session ID
+ */
+export const startSession = async (
+  userId: Types.ObjectId | string,
+  client: TokenClientInfo
+): Promise<{ token: string; refreshToken: string; sessionId: string }> => {
+  const session = await Session.create({
+    user: userId,
+    ip: client.ip,
+    userAgent: client.userAgent?.slice(0, MAX_USER_AGENT_LENGTH),
+    lastSeenAt: new Date(),
+    expiresAt: new Date(Date.now() + getRefreshTokenTtl()),
+  });
+
+  const refreshToken = await issueRefreshToken(userId, session._id as Types.ObjectId);
+
+  return {
+    token: generateToken(userId.toString(), session.id),
+    refreshToken,
+    sessionId: session.id,
+  };
+};
+
+/**
+ * Revokes a session and all of its refresh tokens
+ * @param sessionId - The session to revoke
+ * @param reason - Why the session was revoked
+ */
+export const revokeSession = async (
+  sessionId: Types.ObjectId | string,
+  reason = "Signed out"
+): Promise<void> => {
+  await Promise.all([
+    Session.updateOne(
+      { _id: sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    ),
+    RefreshToken.updateMany(
+      { session: sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    ),
+  ]);
+};
+
+/**
+ * Revokes every active session of a user
+ * @param userId - The user whose sessions are revoked
+ * @param reason - Why the sessions were revoked
+ * @param exceptSessionId - Optional session to keep (e.g. the current one)
+ * @returns Number of sessions revoked
+ */
+export const revokeAllUserSessions = async (
+  userId: Types.ObjectId | string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const query: any = { user: userId, revokedAt: { $exists: false } };
+  if (exceptSessionId) query._id = { $ne: exceptSessionId };
+
+  const sessions = await Session.find(query).select("_id");
+  const sessionIds = sessions.map((session) => session._id);
+
+  if (sessionIds.length === 0) return 0;
+
+  await Promise.all([
+    Session.updateMany(
+      { _id: { $in: sessionIds } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    ),
+    RefreshToken.updateMany(
+      { session: { $in: sessionIds }, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    ),
+  ]);
+
+  return sessionIds.length;
+};
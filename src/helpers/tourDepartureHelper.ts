@@ -0,0 +1,174 @@
+import { Types } from "mongoose";
+import { TourDeparture, ITourDeparture } from "../models/TourDepartureModel";
+import { TourPackage, ITourPackage } from "../models/TourPackageModel";
+import type { IBooking } from "../models/BookingModel";
+import { TourPackageStatus } from "../@types/express/enums";
+
+type Id = Types.ObjectId | string;
+
+const DEFAULT_TOUR_HOURS = 24;
+
+/**
+ * Parses a "YYYY-MM-DD" departure date into UTC midnight
+ */
+export const parseDepartureDate = (value: unknown): Date | null => {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Start and end of a departure, used as the booking's check-in and check-out
+ * (the end is the start plus the tour's duration in hours, or one day)
+ */
+export const getDepartureSchedule = (
+  departure: ITourDeparture,
+  tour: ITourPackage
+): { checkIn: Date; checkOut: Date } => {
+  const checkIn = departure.startsAt;
+  const hours = tour.duration || DEFAULT_TOUR_HOURS;
+  return { checkIn, checkOut: new Date(checkIn.getTime() + hours * 3600 * 1000) };
+};
+
+/**
+ * Loads a departure a guest wants to book and checks it belongs to the tour
+ * and has not started yet
+ * @returns The departure, its tour and schedule, or an explanation
+ */
+export const resolveTourDeparture = async (
+  tourId: unknown,
+  departureId: unknown
+): Promise<{
+  valid: boolean;
+  message?: string;
+  departure?: ITourDeparture;
+  tour?: ITourPackage;
+  checkIn?: Date;
+  checkOut?: Date;
+}> => {
+  if (!departureId || !Types.ObjectId.isValid(String(departureId))) {
+    return { valid: false, message: "❗ Choose a departure (tourDeparture) for this tour" };
+  }
+
+  const departure = await TourDeparture.findById(departureId);
+  if (!departure || departure.tourPackage.toString() !== String(tourId)) {
+    return { valid: false, message: "🚫 Departure not found for this tour" };
+  }
+
+  const tour = await TourPackage.findById(departure.tourPackage);
+  if (!tour) {
+    return { valid: false, message: "🚫 Tour package not found" };
+  }
+
+  const schedule = getDepartureSchedule(departure, tour);
+  if (schedule.checkIn <= new Date()) {
+    return { valid: false, message: "❗ This departure has already left" };
+  }
+
+  return { valid: true, departure, tour, ...schedule };
+};
+
+/**
+ * Marks a tour sold out when it has upcoming departures and all of them are
+ * full, and available again as soon as one has a free seat. Other statuses
+ * (cancelled, upcoming) are left to the host.
+ */
+export const refreshTourAvailability = async (tourId: Id): Promise<void> => {
+  const now = new Date();
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const upcoming = { tourPackage: tourId, date: { $gte: today } };
+
+  const [total, open] = await Promise.all([
+    TourDeparture.countDocuments(upcoming),
+    TourDeparture.countDocuments({ ...upcoming, $expr: { $lt: ["$seatsBooked", "$seats"] } }),
+  ]);
+
+  if (total > 0 && open === 0) {
+    await TourPackage.updateOne({ _id: tourId, status: TourPackageStatus.AVAILABLE }, { status: TourPackageStatus.SOLD_OUT });
+  } else if (open > 0) {
+    await TourPackage.updateOne({ _id: tourId, status: TourPackageStatus.SOLD_OUT }, { status: TourPackageStatus.AVAILABLE });
+  }
+};
+
+/**
+ * Takes seats on a departure in a single conditional update: it only
+ * succeeds while enough seats are left, so concurrent bookings cannot oversell
+ * @returns Whether the seats were taken
+ */
+export const reserveDepartureSeats = async (departureId: Id, seats: number): Promise<boolean> => {
+  const departure = await TourDeparture.findOneAndUpdate(
+    { _id: departureId, $expr: { $lte: [{ $add: ["$seatsBooked", seats] }, "$seats"] } },
+    { $inc: { seatsBooked: seats } },
+    { new: true }
+  );
+
+  if (!departure) return false;
+
+  if (departure.seatsBooked >= departure.seats) {
+    await refreshTourAvailability(departure.tourPackage);
+  }
+  return true;
+};
+
+/**
+ * Gives seats back to a departure
+ */
+export const releaseDepartureSeats = async (departureId: Id, seats: number): Promise<void> => {
+  if (seats <= 0) return;
+
+  const departure = await TourDeparture.findOneAndUpdate(
+    { _id: departureId, seatsBooked: { $gte: seats } },
+    { $inc: { seatsBooked: -seats } },
+    { new: true }
+  );
+
+  if (departure) {
+    await refreshTourAvailability(departure.tourPackage);
+  }
+};
+
+/**
+ * Moves a booking to a departure and seat count: takes the extra seats
+ * first, saves the booking, then gives back the seats it no longer holds.
+ * If the save fails, the seats taken are released again.
+ * @param booking - Booking being created or changed
+ * @param departureId - Departure the booking should hold
+ * @param seats - Seats it should hold (adults + children)
+ * @param save - Saves the booking
+ * @returns Result with an explanation when the seats are not available
+ */
+export const changeBookingSeats = async (
+  booking: IBooking,
+  departureId: Id,
+  seats: number,
+  save: () => Promise<unknown>
+): Promise<{ valid: boolean; message?: string }> => {
+  const previousDeparture = booking.tourDeparture;
+  const previousSeats = booking.seatsHeld || 0;
+  const sameDeparture = !!previousDeparture && previousDeparture.toString() === departureId.toString();
+  const extra = sameDeparture ? seats - previousSeats : seats;
+
+  if (extra > 0 && !(await reserveDepartureSeats(departureId, extra))) {
+    return { valid: false, message: "❗ Not enough seats left on this departure" };
+  }
+
+  booking.tourDeparture = new Types.ObjectId(departureId.toString());
+  booking.seatsHeld = seats;
+
+  try {
+    await save();
+  } catch (error) {
+    if (extra > 0) await releaseDepartureSeats(departureId, extra);
+    booking.tourDeparture = previousDeparture;
+    booking.seatsHeld = previousSeats;
+    throw error;
+  }
+
+  if (sameDeparture && extra < 0) {
+    await releaseDepartureSeats(departureId, -extra);
+  } else if (!sameDeparture && previousDeparture && previousSeats > 0) {
+    await releaseDepartureSeats(previousDeparture, previousSeats);
+  }
+
+  return { valid: true };
+};
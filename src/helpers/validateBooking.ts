@@ -62,9 +62,9 @@ export const validateBookingData = (data: {
   // Validate dates
   validateCheckInOut(checkIn, checkOut);
 
-  // Validate guests
-  if (!guests || guests <= 0 || guests > 20) {
-    throw new Error("❗ Number of guests must be between 1 and 20");
+  // Validate guests (the listing's own limits are checked when pricing)
+  if (!Number.isInteger(Number(guests)) || Number(guests) <= 0) {
+    throw new Error("❗ At least 1 guest is required");
   }
 
   // Validate total price
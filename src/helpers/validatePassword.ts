@@ -0,0 +1,16 @@
+/**
+ * Message returned when a password does not meet the strength requirements.
+ */
+export const PASSWORD_REQUIREMENTS_MESSAGE =
+  "❗ Password must contain at least 8 characters, one uppercase, one lowercase, and one number.";
+
+/**
+ * Checks that a password has at least 8 characters, one uppercase,
+ * one lowercase letter and one number.
+ * @param password - The password to validate
+ * @returns Boolean indicating if the password is strong enough
+ */
+export const isStrongPassword = (password: string): boolean => {
+  const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/;
+  return typeof password === "string" && passwordRegex.test(password);
+};
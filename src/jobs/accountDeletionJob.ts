@@ -0,0 +1,11 @@
+import { ScheduledJob } from "./scheduler";
+import { processScheduledDeletions } from "../helpers/accountDeletionHelper";
+
+/**
+ * Anonymizes accounts whose deletion grace period has ended (hourly)
+ */
+export const accountDeletionJob: ScheduledJob = {
+  name: "account-deletion",
+  intervalMs: 60 * 60 * 1000,
+  run: processScheduledDeletions,
+};
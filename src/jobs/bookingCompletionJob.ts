@@ -0,0 +1,11 @@
+import { ScheduledJob } from "./scheduler";
+import { processCompletedBookings } from "../helpers/bookingCompletionHelper";
+
+/**
+ * Completes paid bookings after check-out and flags unpaid ones (hourly)
+ */
+export const bookingCompletionJob: ScheduledJob = {
+  name: "booking-completion",
+  intervalMs: 60 * 60 * 1000,
+  run: processCompletedBookings,
+};
@@ -0,0 +1,11 @@
+import { ScheduledJob } from "./scheduler";
+import { processExpiredBookings } from "../helpers/paymentDeadlineHelper";
+
+/**
+ * Cancels unpaid pending bookings past their payment deadline (every 5 minutes)
+ */
+export const bookingExpiryJob: ScheduledJob = {
+  name: "booking-expiry",
+  intervalMs: 5 * 60 * 1000,
+  run: processExpiredBookings,
+};
@@ -0,0 +1,11 @@
+import { ScheduledJob } from "./scheduler";
+import { processExpiredBookingRequests } from "../helpers/bookingRequestHelper";
+
+/**
+ * Declines booking requests the host did not answer in time (every 5 minutes)
+ */
+export const bookingRequestJob: ScheduledJob = {
+  name: "booking-request-expiry",
+  intervalMs: 5 * 60 * 1000,
+  run: processExpiredBookingRequests,
+};
@@ -0,0 +1,23 @@
+import { scheduleJob } from "./scheduler";
+import { accountDeletionJob } from "./accountDeletionJob";
+import { bookingExpiryJob } from "./bookingExpiryJob";
+import { bookingCompletionJob } from "./bookingCompletionJob";
+import { bookingRequestJob } from "./bookingRequestJob";
+
+/**
+ * Starts the background jobs.
+ * Set JOBS_ENABLED=false on instances that must not run them (e.g. extra API replicas).
+ */
+export const startJobs = (): void => {
+  if (process.env.JOBS_ENABLED === "false") {
+    console.log("⏸️ Background jobs are disabled (JOBS_ENABLED=false)");
+    return;
+  }
+
+  scheduleJob(accountDeletionJob);
+  scheduleJob(bookingExpiryJob);
+  scheduleJob(bookingCompletionJob);
+  scheduleJob(bookingRequestJob);
+
+  console.log("🕒 Background jobs started");
+};
@@ -0,0 +1,53 @@
+/**
+ * Minimal in-process job scheduler.
+ * Each job runs at a fixed interval; a run is skipped while the previous one is still going.
+ */
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  // Returns the number of processed items (logged when greater than 0)
+  run: () => Promise<number | void>;
+}
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Runs a job once, logging its result and any error
+ */
+const runJob = async (job: ScheduledJob, state: { running: boolean }): Promise<void> => {
+  if (state.running) return;
+  state.running = true;
+
+  try {
+    const processed = await job.run();
+    if (processed) {
+      console.log(`🕒 Job "${job.name}" processed ${processed} item(s)`);
+    }
+  } catch (error) {
+    console.error(`❌ Job "${job.name}" failed:`, error);
+  } finally {
+    state.running = false;
+  }
+};
+
+/**
+ * Starts a job: runs it immediately and then at every interval
+ * @param job - The job to schedule
+ */
+export const scheduleJob = (job: ScheduledJob): void => {
+  const state = { running: false };
+
+  void runJob(job, state);
+  const timer = setInterval(() => void runJob(job, state), job.intervalMs);
+  // Scheduled jobs must not keep the process alive on shutdown
+  timer.unref();
+  timers.push(timer);
+};
+
+/**
+ * Stops every scheduled job
+ */
+export const stopJobs = (): void => {
+  timers.splice(0).forEach((timer) => clearInterval(timer));
+};
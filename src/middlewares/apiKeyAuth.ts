@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from "express";
+import { User } from "../models/User";
+import { AccountStatus, ApiKeyScope } from "../@types/express/enums";
+import { findActiveApiKey, consumeApiKeyRateLimit } from "../helpers/apiKeyHelper";
+import { protect } from "./protect";
+
+// Minimum interval between two lastUsedAt writes for the same key
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+// HTTP methods allowed for read-only keys
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Middleware to authenticate host integrations with an API key (X-API-Key header).
+ * Checks the key scope against the HTTP method, applies the per-key rate limit
+ * and attaches the key owner and the key to the request.
+ */
+export const apiKeyAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.header("X-API-Key");
+
+  if (!key) {
+    res.status(401).json({ message: "❌ Unauthorized: API key missing" });
+    return;
+  }
+
+  try {
+    const apiKey = await findActiveApiKey(key);
+    if (!apiKey) {
+      res.status(401).json({ message: "❌ Unauthorized: invalid or revoked API key" });
+      return;
+    }
+
+    const rateLimit = consumeApiKeyRateLimit(apiKey);
+    res.setHeader("X-RateLimit-Limit", rateLimit.limit);
+    res.setHeader("X-RateLimit-Remaining", rateLimit.remaining);
+    if (!rateLimit.allowed) {
+      res.setHeader("Retry-After", rateLimit.retryAfterSeconds);
+      res.status(429).json({
+        message: `⏳ API key rate limit exceeded. Try again in ${rateLimit.retryAfterSeconds} seconds`,
+        retryAfterSeconds: rateLimit.retryAfterSeconds,
+      });
+      return;
+    }
+
+    if (apiKey.scope === ApiKeyScope.READ && !READ_METHODS.includes(req.method)) {
+      res.status(403).json({ message: "🚫 This API key is read-only" });
+      return;
+    }
+
+    // Keys only act for active hosts
+    const user = await User.findById(apiKey.user).select("-password");
+    if (!user || user.role !== "host") {
+      res.status(401).json({ message: "❌ Unauthorized: API key owner is not a host" });
+      return;
+    }
+
+    if (
+      user.accountStatus === AccountStatus.SUSPENDED ||
+      user.accountStatus === AccountStatus.DELETED
+    ) {
+      res.status(403).json({ message: `🚫 Account is ${user.accountStatus}` });
+      return;
+    }
+
+    // Track key usage without writing on every request
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+      apiKey.lastUsedAt = new Date();
+      if (req.ip) apiKey.lastUsedIp = req.ip;
+      await apiKey.save();
+    }
+
+    req.user = user;
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    console.error("❌ Error authenticating API key:", error);
+    res.status(500).json({ message: "❌ Server error while authenticating API key" });
+  }
+};
+
+/**
+ * Middleware accepting either an API key (X-API-Key header) or a JWT (Authorization header).
+ * Used on /api/host routes that integrations may call.
+ */
+export const protectOrApiKey = (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (req.header("X-API-Key")) {
+    return apiKeyAuth(req, res, next);
+  }
+  return protect(req, res, next);
+};
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from "express";
+
+/**
+ * Middleware to block sensitive actions (credentials, 2FA, API keys, personal data)
+ * when the request is made with an impersonation token.
+ * Must run after protect.
+ */
+export const forbidImpersonation = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.impersonator) {
+    res.locals.impersonationBlocked = true;
+    res.status(403).json({ message: "🚫 This action is not allowed while impersonating" });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware to let an impersonating admin make changes on a route
+ * (impersonation is read-only everywhere else).
+ * Must run before protect.
+ */
+export const allowImpersonatedWrites = (req: Request, res: Response, next: NextFunction): void => {
+  res.locals.impersonatedWritesAllowed = true;
+  next();
+};
@@ -1,16 +1,33 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { User } from "../models/User";
+import { Session } from "../models/SessionModel";
+import { AccountStatus, AuditAction, Permission } from "../@types/express/enums";
+import { getUserPermissions } from "../helpers/permissionHelper";
+import { recordAuditLog } from "../helpers/auditLogHelper";
 
 interface DecodedToken {
   id: string;
+  sid?: string;
+  imp?: string;
+  purpose?: string;
   iat: number;
   exp: number;
 }
 
+// Minimum interval between two lastSeenAt writes for the same session
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+
+// HTTP methods an impersonating admin may use on any route
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
 /**
  * Middleware to protect routes and attach authenticated user to the request.
- * Verifies the JWT and fetches user from the database.
+ * Verifies the JWT and its session, fetches user from the database and rejects
+ * suspended or deleted accounts.
+ * Impersonation tokens ("imp" claim) attach the target as req.user and the admin
+ * as req.impersonator; they are read-only unless the route opts in with
+ * allowImpersonatedWrites, and every request is audited.
  */
 export const protect = async (
   req: Request,
@@ -32,14 +49,85 @@ export const protect = async (
         process.env.JWT_SECRET || ""
       ) as DecodedToken;
 
+      // Every access token belongs to a session; single-purpose tokens (email
+      // verification, 2FA challenges) are never accepted as access tokens
+      if (!decoded.sid || decoded.purpose) {
+        res.status(401).json({ message: "❌ Unauthorized: invalid token" });
+        return;
+      }
+
+      // Impersonation tokens are tied to the admin's session
+      const sessionOwnerId = decoded.imp || decoded.id;
+      const session = await Session.findById(decoded.sid);
+      if (!session || session.revokedAt || session.user.toString() !== sessionOwnerId) {
+        res.status(401).json({ message: "❌ Unauthorized: session has been revoked" });
+        return;
+      }
+
       const user = await User.findById(decoded.id).select("-password");
       if (!user) {
         res.status(401).json({ message: "❌ Unauthorized: user not found" });
         return;
       }
 
-      // Attach user to the request
+      // Suspended or deleted accounts lose access immediately
+      if (
+        user.accountStatus === AccountStatus.SUSPENDED ||
+        user.accountStatus === AccountStatus.DELETED
+      ) {
+        res.status(403).json({ message: `🚫 Account is ${user.accountStatus}` });
+        return;
+      }
+
+      // Reject tokens issued before the last password change
+      if (user.passwordChangedAt && decoded.iat * 1000 < user.passwordChangedAt.getTime()) {
+        res.status(401).json({ message: "❌ Unauthorized: password was changed, please log in again" });
+        return;
+      }
+
+      if (decoded.imp) {
+        // The admin must still be active and allowed to impersonate
+        const impersonator = await User.findById(decoded.imp).select("-password");
+        if (
+          !impersonator ||
+          impersonator.role !== "admin" ||
+          impersonator.accountStatus !== AccountStatus.ACTIVE ||
+          !(await getUserPermissions(impersonator)).includes(Permission.USERS_IMPERSONATE)
+        ) {
+          res.status(401).json({ message: "❌ Unauthorized: impersonation is no longer allowed" });
+          return;
+        }
+
+        req.impersonator = impersonator;
+
+        // Every impersonated request is recorded once the response is sent
+        res.on("finish", () => {
+          void recordAuditLog(req, {
+            action: AuditAction.IMPERSONATED_REQUEST,
+            actor: impersonator._id,
+            subject: user._id,
+            statusCode: res.statusCode,
+            blocked: res.locals.impersonationBlocked === true,
+          });
+        });
+
+        if (!READ_METHODS.includes(req.method) && res.locals.impersonatedWritesAllowed !== true) {
+          res.locals.impersonationBlocked = true;
+          res.status(403).json({ message: "🚫 Only read access is allowed while impersonating" });
+          return;
+        }
+      }
+
+      // Track device activity without writing on every request
+      if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+        session.lastSeenAt = new Date();
+        if (req.ip) session.ip = req.ip;
+        await session.save();
+      }
+
+      // Attach user and session to the request
       req.user = user;
+      req.sessionId = session.id;
       next();
     } catch (error) {
       res.status(401).json({ message: "❌ Unauthorized: invalid token" });
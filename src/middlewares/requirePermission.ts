@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from "express";
+import { Permission } from "../@types/express/enums";
+import { getUserPermissions } from "../helpers/permissionHelper";
+
+/**
+ * Middleware to allow access only to admins holding every given permission.
+ * Resolved permissions are cached on the request (req.permissions).
+ * @param permissions Permissions required for the route
+ * @returns Middleware function that checks the admin's role permissions
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ message: "❌ Unauthorized: no user in request" });
+      return;
+    }
+
+    if (req.user.role !== "admin") {
+      res.status(403).json({ message: "❌ Access denied: insufficient permissions" });
+      return;
+    }
+
+    try {
+      if (!req.permissions) {
+        req.permissions = await getUserPermissions(req.user);
+      }
+
+      const missing = permissions.filter((permission) => !req.permissions?.includes(permission));
+      if (missing.length > 0) {
+        res.status(403).json({
+          message: "❌ Access denied: insufficient permissions",
+          missingPermissions: missing,
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error("❌ Error checking permissions:", error);
+      res.status(500).json({ message: "❌ Server error while checking permissions" });
+    }
+  };
+};
+
+/**
+ * Checks a permission already resolved by requirePermission (for checks inside controllers)
+ * @param req - The current request
+ * @param permission - The permission to check
+ * @returns Boolean indicating if the admin holds the permission
+ */
+export const hasPermission = (req: Request, permission: Permission): boolean => {
+  return !!req.permissions?.includes(permission);
+};
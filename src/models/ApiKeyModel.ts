@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { ApiKeyScope } from "../@types/express/enums";
+
+/**
+ * API key interface - lets a host connect external tools (spreadsheets,
+ * channel managers) to /api/host resources without sharing the password.
+ * Only the SHA-256 hash of the key is stored.
+ */
+export interface IApiKey extends Document {
+  user: mongoose.Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scope: ApiKeyScope;
+  rateLimitPerMinute: number;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * API key schema definition
+ */
+const ApiKeySchema: Schema = new Schema<IApiKey>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, 'User is required']
+    },
+    name: {
+      type: String,
+      required: [true, 'Key name is required'],
+      trim: true,
+      maxlength: [100, 'Key name cannot exceed 100 characters']
+    },
+    prefix: {
+      type: String,
+      required: true
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false
+    },
+    scope: {
+      type: String,
+      enum: {
+        values: Object.values(ApiKeyScope),
+        message: 'Scope must be read or read_write'
+      },
+      default: ApiKeyScope.READ
+    },
+    rateLimitPerMinute: {
+      type: Number,
+      min: [1, 'Rate limit must be at least 1 request per minute'],
+      max: [1000, 'Rate limit cannot exceed 1000 requests per minute'],
+      default: 60
+    },
+    lastUsedAt: {
+      type: Date
+    },
+    lastUsedIp: {
+      type: String,
+      trim: true
+    },
+    expiresAt: {
+      type: Date
+    },
+    revokedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes for better performance
+ApiKeySchema.index({ user: 1, revokedAt: 1 });
+
+export const ApiKey = mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { AuditAction } from "../@types/express/enums";
+
+/**
+ * Audit log interface - records sensitive admin activity
+ * (e.g. every request made while impersonating a user)
+ */
+export interface IAuditLog extends Document {
+  action: AuditAction;
+  actor: mongoose.Types.ObjectId;
+  subject?: mongoose.Types.ObjectId;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  blocked?: boolean;
+  reason?: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+/**
+ * Audit log schema definition
+ */
+const AuditLogSchema: Schema = new Schema<IAuditLog>(
+  {
+    action: {
+      type: String,
+      enum: {
+        values: Object.values(AuditAction),
+        message: 'Invalid audit action'
+      },
+      required: [true, 'Action is required']
+    },
+    actor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, 'Actor is required']
+    },
+    subject: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User"
+    },
+    method: {
+      type: String
+    },
+    path: {
+      type: String,
+      maxlength: [500, 'Path cannot exceed 500 characters']
+    },
+    statusCode: {
+      type: Number
+    },
+    blocked: {
+      type: Boolean,
+      default: false
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters']
+    },
+    ip: {
+      type: String,
+      trim: true
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'User agent cannot exceed 500 characters']
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// Indexes for better performance
+AuditLogSchema.index({ actor: 1, createdAt: -1 });
+AuditLogSchema.index({ subject: 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+
+export const AuditLog = mongoose.model<IAuditLog>("AuditLog", AuditLogSchema);
@@ -1,5 +1,34 @@
 import mongoose, { Schema, Document } from "mongoose";
-import { BookingStatus, PaymentStatus } from "../@types/express/enums";
+import { BookingStatus, PaymentStatus, CancellationPolicy, ModificationStatus, BookingMode } from "../@types/express/enums";
+import { PropertyNight } from "./PropertyNightModel";
+import { releaseDepartureSeats } from "../helpers/tourDepartureHelper";
+import { CancellationTier } from "../config/cancellationPolicies";
+
+/**
+ * Change of dates or guests asked by the guest, answered by the host.
+ * "previous*" values are the booking as it was when the request was made.
+ */
+export interface IBookingModification {
+  _id: mongoose.Types.ObjectId;
+  checkIn: Date;
+  checkOut: Date;
+  tourDeparture?: mongoose.Types.ObjectId; // Departure the tour booking moves to
+  guests: number;
+  adults: number;
+  children: number;
+  infants: number;
+  totalPrice: number;
+  priceDifference: number; // New total minus the previous total
+  priceBreakdown?: IBooking["priceBreakdown"];
+  previousCheckIn: Date;
+  previousCheckOut: Date;
+  previousGuests: number;
+  previousTotalPrice: number;
+  status: ModificationStatus;
+  requestedAt: Date;
+  respondedAt?: Date;
+  responseNote?: string;
+}
 
 /**
  * Booking interface
@@ -8,16 +37,48 @@ export interface IBooking extends Document {
   user: mongoose.Types.ObjectId;
   property?: mongoose.Types.ObjectId;
   tourPackage?: mongoose.Types.ObjectId;
+  tourDeparture?: mongoose.Types.ObjectId;
+  seatsHeld: number; // Seats taken on the tour departure (released on cancellation)
   checkIn: Date;
   checkOut: Date;
-  guests: number;
+  guests: number; // Adults + children (infants don't count towards occupancy)
+  adults?: number; // Missing on bookings made before the split
+  children: number;
+  infants: number;
   totalPrice: number;
+  priceBreakdown?: {
+    unitPrice: number;
+    units: number;
+    subtotal: number;
+    cleaningFee: number;
+    serviceFeePercent: number;
+    serviceFee: number;
+  };
   status: BookingStatus;
+  bookingMode: BookingMode; // How the booking was made (instant or request to book)
+  hostResponseDeadline?: Date; // Request to book: declined automatically if the host hasn't answered by then
+  hostApprovedAt?: Date; // Request to book: when the host accepted it
   paymentStatus: PaymentStatus;
+  paymentDeadline?: Date;
   paymentDetails?: string;
   paymentImages?: string[];
+  cancellationPolicy?: CancellationPolicy; // Listing policy when the booking was made (refunds use this copy)
+  cancellationTiers?: CancellationTier[];
   cancellationReason?: string;  
   cancelledAt?: Date;           
+  refund?: {
+    policy: CancellationPolicy;
+    cancelledBy: string;
+    hoursBeforeCheckIn: number;
+    refundPercent: number;
+    paidAmount: number;
+    amount: number;
+  };
+  completedAt?: Date;
+  hostAttentionRequired: boolean;
+  hostAttentionReason?: string;
+  hostAttentionFlaggedAt?: Date;
+  modifications: mongoose.Types.DocumentArray<IBookingModification & mongoose.Types.Subdocument>;
   createdAt: Date;
   updatedAt: Date;
   // Virtual properties
@@ -49,6 +110,15 @@ const BookingSchema: Schema = new Schema<IBooking>(
         return !this.property; 
       } 
     },
+    tourDeparture: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "TourDeparture"
+    },
+    seatsHeld: {
+      type: Number,
+      default: 0,
+      min: [0, 'Seats held cannot be negative']
+    },
     checkIn: { 
       type: Date, 
       required: [true, 'Check-in date is required'] 
@@ -60,14 +130,35 @@ const BookingSchema: Schema = new Schema<IBooking>(
     guests: { 
       type: Number, 
       required: [true, 'Number of guests is required'], 
-      min: [1, 'At least 1 guest is required'], 
-      max: [20, 'Maximum 20 guests allowed'] 
+      min: [1, 'At least 1 guest is required']
+    },
+    adults: {
+      type: Number,
+      min: [1, 'At least 1 adult is required']
+    },
+    children: {
+      type: Number,
+      min: [0, 'Children cannot be negative'],
+      default: 0
+    },
+    infants: {
+      type: Number,
+      min: [0, 'Infants cannot be negative'],
+      default: 0
     },
     totalPrice: { 
       type: Number, 
       required: [true, 'Total price is required'], 
       min: [0, 'Total price cannot be negative'] 
     },
+    priceBreakdown: {
+      unitPrice: { type: Number, min: 0 },
+      units: { type: Number, min: 0 },
+      subtotal: { type: Number, min: 0 },
+      cleaningFee: { type: Number, min: 0, default: 0 },
+      serviceFeePercent: { type: Number, min: 0, default: 0 },
+      serviceFee: { type: Number, min: 0, default: 0 }
+    },
     status: { 
       type: String, 
       enum: { 
@@ -84,6 +175,23 @@ const BookingSchema: Schema = new Schema<IBooking>(
       }, 
       default: PaymentStatus.PENDING
     },
+    bookingMode: {
+      type: String,
+      enum: {
+        values: Object.values(BookingMode),
+        message: 'Invalid booking mode'
+      },
+      default: BookingMode.REQUEST
+    },
+    hostResponseDeadline: {
+      type: Date
+    },
+    hostApprovedAt: {
+      type: Date
+    },
+    paymentDeadline: {
+      type: Date
+    },
     paymentDetails: { 
       type: String, 
       trim: true,
@@ -98,6 +206,18 @@ const BookingSchema: Schema = new Schema<IBooking>(
         message: 'Cannot have more than 5 payment images'
       }
     },
+    cancellationPolicy: {
+      type: String,
+      enum: Object.values(CancellationPolicy)
+    },
+    cancellationTiers: {
+      type: [{
+        _id: false,
+        hoursBeforeCheckIn: { type: Number, required: true, min: 0 },
+        refundPercent: { type: Number, required: true, min: 0, max: 100 }
+      }],
+      default: undefined
+    },
     cancellationReason: { 
       type: String, 
       trim: true, 
@@ -105,7 +225,74 @@ const BookingSchema: Schema = new Schema<IBooking>(
     },
     cancelledAt: { 
       type: Date 
-    }
+    },
+    refund: {
+      type: {
+        _id: false,
+        policy: { type: String, enum: Object.values(CancellationPolicy) },
+        cancelledBy: { type: String },
+        hoursBeforeCheckIn: { type: Number, min: 0 },
+        refundPercent: { type: Number, min: 0, max: 100 },
+        paidAmount: { type: Number, min: 0 },
+        amount: { type: Number, min: 0 }
+      },
+      default: undefined
+    },
+    completedAt: {
+      type: Date
+    },
+    hostAttentionRequired: {
+      type: Boolean,
+      default: false
+    },
+    hostAttentionReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Attention reason cannot exceed 500 characters']
+    },
+    hostAttentionFlaggedAt: {
+      type: Date
+    },
+    modifications: [
+      {
+        checkIn: { type: Date, required: true },
+        checkOut: { type: Date, required: true },
+        tourDeparture: { type: mongoose.Schema.Types.ObjectId, ref: "TourDeparture" },
+        guests: { type: Number, required: true, min: 1 },
+        adults: { type: Number, required: true, min: 1 },
+        children: { type: Number, default: 0, min: 0 },
+        infants: { type: Number, default: 0, min: 0 },
+        totalPrice: { type: Number, required: true, min: 0 },
+        priceDifference: { type: Number, required: true },
+        priceBreakdown: {
+          unitPrice: { type: Number, min: 0 },
+          units: { type: Number, min: 0 },
+          subtotal: { type: Number, min: 0 },
+          cleaningFee: { type: Number, min: 0, default: 0 },
+          serviceFeePercent: { type: Number, min: 0, default: 0 },
+          serviceFee: { type: Number, min: 0, default: 0 }
+        },
+        previousCheckIn: { type: Date, required: true },
+        previousCheckOut: { type: Date, required: true },
+        previousGuests: { type: Number, required: true },
+        previousTotalPrice: { type: Number, required: true },
+        status: {
+          type: String,
+          enum: {
+            values: Object.values(ModificationStatus),
+            message: 'Invalid modification status'
+          },
+          default: ModificationStatus.PENDING
+        },
+        requestedAt: { type: Date, default: Date.now },
+        respondedAt: { type: Date },
+        responseNote: {
+          type: String,
+          trim: true,
+          maxlength: [500, 'Response note cannot exceed 500 characters']
+        }
+      }
+    ]
   },
   { 
     timestamps: true,
@@ -118,9 +305,13 @@ const BookingSchema: Schema = new Schema<IBooking>(
 BookingSchema.index({ user: 1 });
 BookingSchema.index({ property: 1 });
 BookingSchema.index({ tourPackage: 1 });
+BookingSchema.index({ tourDeparture: 1 });
 BookingSchema.index({ status: 1 });
 BookingSchema.index({ checkIn: 1, checkOut: 1 });
 BookingSchema.index({ paymentStatus: 1 });
+BookingSchema.index({ status: 1, paymentStatus: 1, paymentDeadline: 1 });
+BookingSchema.index({ status: 1, hostResponseDeadline: 1 });
+BookingSchema.index({ "modifications.status": 1 });
 
 // Virtual for booking duration in nights
 BookingSchema.virtual('nights').get(function(this: IBooking) {
@@ -153,6 +344,36 @@ BookingSchema.pre('save', function(this: IBooking, next) {
   next();
 });
 
+// Cancelled or deleted bookings give their nights back to the property
+// and their seats back to the tour departure
+BookingSchema.post('save', async function(this: IBooking) {
+  if (this.property && this.status === BookingStatus.CANCELLED) {
+    await PropertyNight.deleteMany({ booking: this._id });
+  }
+
+  if (this.tourDeparture && this.status === BookingStatus.CANCELLED && this.seatsHeld > 0) {
+    // Conditional update so the seats are only given back once
+    const held = await Booking.findOneAndUpdate(
+      { _id: this._id, seatsHeld: { $gt: 0 } },
+      { $set: { seatsHeld: 0 } }
+    ).select("seatsHeld tourDeparture");
+
+    if (held?.tourDeparture) {
+      await releaseDepartureSeats(held.tourDeparture, held.seatsHeld);
+    }
+  }
+});
+
+BookingSchema.post('findOneAndDelete', async function(doc: IBooking | null) {
+  if (doc) {
+    await PropertyNight.deleteMany({ booking: doc._id });
+
+    if (doc.tourDeparture && doc.seatsHeld > 0) {
+      await releaseDepartureSeats(doc.tourDeparture, doc.seatsHeld);
+    }
+  }
+});
+
 // Pre-find middleware to populate references
 BookingSchema.pre(/^find/, function(this: mongoose.Query<any, any>) {
   this.populate({
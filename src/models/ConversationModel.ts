@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { ConversationType } from "../@types/express/enums";
+
+/**
+ * Side of a conversation (admins write as support without being a participant)
+ */
+export type ConversationParticipant = "guest" | "host";
+
+/**
+ * Conversation interface - one thread between a guest and a host, either
+ * about a booking or an inquiry on a property or tour before booking.
+ * Unread counts are kept per participant and updated with $inc / $set,
+ * so listing conversations doesn't need to count messages.
+ */
+export interface IConversation extends Document {
+  type: ConversationType;
+  booking?: mongoose.Types.ObjectId; // Booking threads (one per booking)
+  property?: mongoose.Types.ObjectId;
+  tourPackage?: mongoose.Types.ObjectId;
+  guest: mongoose.Types.ObjectId;
+  host: mongoose.Types.ObjectId;
+  lastMessageAt?: Date;
+  lastMessagePreview?: string;
+  unreadCounts: { guest: number; host: number };
+  lastReadAt: { guest?: Date; host?: Date };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Conversation schema definition
+ */
+const ConversationSchema: Schema = new Schema<IConversation>(
+  {
+    type: {
+      type: String,
+      enum: {
+        values: Object.values(ConversationType),
+        message: 'Invalid conversation type'
+      },
+      required: [true, 'Conversation type is required']
+    },
+    booking: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Booking"
+    },
+    property: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Property"
+    },
+    tourPackage: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "TourPackage"
+    },
+    guest: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, 'Guest is required']
+    },
+    host: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, 'Host is required']
+    },
+    lastMessageAt: {
+      type: Date
+    },
+    lastMessagePreview: {
+      type: String,
+      trim: true,
+      maxlength: [120, 'Preview cannot exceed 120 characters']
+    },
+    unreadCounts: {
+      guest: { type: Number, default: 0, min: 0 },
+      host: { type: Number, default: 0, min: 0 }
+    },
+    lastReadAt: {
+      guest: { type: Date },
+      host: { type: Date }
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// One thread per booking, and one inquiry per guest and listing
+ConversationSchema.index({ booking: 1 }, { unique: true, partialFilterExpression: { type: ConversationType.BOOKING } });
+ConversationSchema.index(
+  { guest: 1, property: 1, tourPackage: 1 },
+  { unique: true, partialFilterExpression: { type: ConversationType.INQUIRY } }
+);
+ConversationSchema.index({ guest: 1, lastMessageAt: -1 });
+ConversationSchema.index({ host: 1, lastMessageAt: -1 });
+
+export const Conversation = mongoose.model<IConversation>("Conversation", ConversationSchema);
@@ -0,0 +1,117 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { HostApplicationStatus } from "../@types/express/enums";
+
+/**
+ * Host application interface
+ */
+export interface IHostApplication extends Document {
+  user: mongoose.Types.ObjectId;
+  businessName: string;
+  businessType: "individual" | "company";
+  taxId: string;
+  businessAddress: string;
+  phone: string;
+  listingType: "property" | "tour" | "both";
+  description?: string;
+  identityDocuments: string[];
+  status: HostApplicationStatus;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Host application schema definition
+ */
+const HostApplicationSchema: Schema = new Schema<IHostApplication>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, 'User is required']
+    },
+    businessName: {
+      type: String,
+      required: [true, 'Business name is required'],
+      trim: true,
+      maxlength: [150, 'Business name cannot exceed 150 characters']
+    },
+    businessType: {
+      type: String,
+      enum: {
+        values: ["individual", "company"],
+        message: 'Invalid business type'
+      },
+      default: "individual"
+    },
+    taxId: {
+      type: String,
+      required: [true, 'Tax ID is required'],
+      trim: true,
+      maxlength: [50, 'Tax ID cannot exceed 50 characters']
+    },
+    businessAddress: {
+      type: String,
+      required: [true, 'Business address is required'],
+      trim: true
+    },
+    phone: {
+      type: String,
+      required: [true, 'Phone is required'],
+      trim: true
+    },
+    listingType: {
+      type: String,
+      enum: {
+        values: ["property", "tour", "both"],
+        message: 'Invalid listing type'
+      },
+      default: "property"
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Description cannot exceed 1000 characters']
+    },
+    identityDocuments: {
+      type: [String],
+      validate: {
+        validator: function(urls: string[]) {
+          return urls.length > 0 && urls.length <= 5; // 1-5 documents
+        },
+        message: 'Application must include 1-5 identity documents'
+      }
+    },
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(HostApplicationStatus),
+        message: 'Invalid application status'
+      },
+      default: HostApplicationStatus.PENDING
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User"
+    },
+    reviewedAt: {
+      type: Date
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Rejection reason cannot exceed 500 characters']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes for better performance
+HostApplicationSchema.index({ user: 1 });
+HostApplicationSchema.index({ status: 1 });
+
+export const HostApplication = mongoose.model<IHostApplication>("HostApplication", HostApplicationSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Login attempt interface - failed login counters per client IP
+ */
+export interface ILoginAttempt extends Document {
+  ip: string;
+  failedAttempts: number;
+  lastFailedAt: Date;
+  blockedUntil?: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Login attempt schema definition
+ */
+const LoginAttemptSchema: Schema = new Schema<ILoginAttempt>(
+  {
+    ip: {
+      type: String,
+      required: [true, 'IP address is required'],
+      unique: true,
+      trim: true
+    },
+    failedAttempts: {
+      type: Number,
+      default: 0,
+      min: [0, 'Failed attempts cannot be negative']
+    },
+    lastFailedAt: {
+      type: Date,
+      default: Date.now
+    },
+    blockedUntil: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    }
+  },
+  {
+    versionKey: false
+  }
+);
+
+// Counters are removed automatically once the tracking window is over
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>("LoginAttempt", LoginAttemptSchema);
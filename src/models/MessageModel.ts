@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Message interface - one message in a conversation. readBy holds the read
+ * receipts of everyone who saw it (the sender reads their own message).
+ */
+export interface IMessage extends Document {
+  conversation: mongoose.Types.ObjectId;
+  sender: mongoose.Types.ObjectId;
+  senderRole: "guest" | "host" | "admin";
+  body?: string;
+  imageUrls: string[];
+  readBy: Array<{ user: mongoose.Types.ObjectId; readAt: Date }>;
+  createdAt: Date;
+}
+
+/**
+ * Message schema definition
+ */
+const MessageSchema: Schema = new Schema<IMessage>(
+  {
+    conversation: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Conversation",
+      required: [true, 'Conversation is required']
+    },
+    sender: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, 'Sender is required']
+    },
+    senderRole: {
+      type: String,
+      enum: ["guest", "host", "admin"],
+      required: true
+    },
+    body: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Message cannot exceed 2000 characters']
+    },
+    imageUrls: {
+      type: [String],
+      default: [],
+      validate: {
+        validator: function(urls: string[]) {
+          return urls.length <= 5;
+        },
+        message: 'Cannot attach more than 5 images'
+      }
+    },
+    readBy: {
+      type: [{
+        _id: false,
+        user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+        readAt: { type: Date, default: Date.now }
+      }],
+      default: []
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// A message needs text or at least one image
+MessageSchema.pre('validate', function(this: IMessage, next) {
+  if (!this.body && this.imageUrls.length === 0) {
+    next(new Error('A message needs text or an image'));
+  } else {
+    next();
+  }
+});
+
+// Indexes for better performance
+MessageSchema.index({ conversation: 1, createdAt: -1 });
+
+export const Message = mongoose.model<IMessage>("Message", MessageSchema);
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Migration interface - a one-time data migration that has been applied.
+ * Lets startup migrations run exactly once per database.
+ */
+export interface IMigration extends Document {
+  name: string;
+  appliedAt: Date;
+}
+
+/**
+ * Migration schema definition
+ */
+const MigrationSchema: Schema = new Schema<IMigration>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Migration name is required'],
+      unique: true
+    },
+    appliedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  {
+    versionKey: false
+  }
+);
+
+export const Migration = mongoose.model<IMigration>("Migration", MigrationSchema);
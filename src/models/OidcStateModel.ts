@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * OIDC state interface - one pending "Sign in with ..." request.
+ * Holds the values that must match on the provider callback
+ * (state, nonce and PKCE verifier). Each state can be used once.
+ */
+export interface IOidcState extends Document {
+  state: string;
+  provider: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * OIDC state schema definition
+ */
+const OidcStateSchema: Schema = new Schema<IOidcState>(
+  {
+    state: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    provider: {
+      type: String,
+      required: true
+    },
+    nonce: {
+      type: String,
+      required: true
+    },
+    codeVerifier: {
+      type: String,
+      required: true
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// Abandoned sign-in attempts are removed automatically by MongoDB
+OidcStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OidcState = mongoose.model<IOidcState>("OidcState", OidcStateSchema);
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { PaymentMethod, TransactionType } from "../@types/express/enums";
+
+/**
+ * Payment transaction interface - one movement of money on a booking.
+ * Transactions are append-only: mistakes are corrected with an adjustment,
+ * never by editing or deleting a transaction. The booking's paymentStatus
+ * is derived from them (see paymentLedgerHelper).
+ */
+export interface IPaymentTransaction extends Document {
+  booking: mongoose.Types.ObjectId;
+  type: TransactionType;
+  amount: number; // Positive for charges and refunds, signed for adjustments
+  method?: PaymentMethod;
+  reference?: string; // Bank transfer number, receipt ID, ...
+  note?: string;
+  recordedBy?: mongoose.Types.ObjectId; // Empty for system transactions
+  recordedByRole: "guest" | "host" | "admin" | "system";
+  createdAt: Date;
+}
+
+/**
+ * Payment transaction schema definition
+ */
+const PaymentTransactionSchema: Schema = new Schema<IPaymentTransaction>(
+  {
+    booking: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Booking",
+      required: [true, 'Booking is required']
+    },
+    type: {
+      type: String,
+      enum: {
+        values: Object.values(TransactionType),
+        message: 'Invalid transaction type'
+      },
+      required: [true, 'Transaction type is required']
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      validate: {
+        validator: function(this: IPaymentTransaction, amount: number) {
+          return this.type === TransactionType.ADJUSTMENT ? amount !== 0 : amount > 0;
+        },
+        message: 'Charges and refunds must be positive, adjustments cannot be zero'
+      }
+    },
+    method: {
+      type: String,
+      enum: {
+        values: Object.values(PaymentMethod),
+        message: 'Invalid payment method'
+      }
+    },
+    reference: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Reference cannot exceed 100 characters']
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters']
+    },
+    recordedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User"
+    },
+    recordedByRole: {
+      type: String,
+      enum: ["guest", "host", "admin", "system"],
+      required: true
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// Indexes for better performance
+PaymentTransactionSchema.index({ booking: 1, createdAt: 1 });
+
+export const PaymentTransaction = mongoose.model<IPaymentTransaction>("PaymentTransaction", PaymentTransactionSchema);
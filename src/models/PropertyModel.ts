@@ -1,5 +1,15 @@
 import mongoose, { Schema, Document } from "mongoose";
-import { PropertyStatus } from "../@types/express/enums";
+import { PropertyStatus, CancellationPolicy, BookingMode } from "../@types/express/enums";
+import { CancellationTier } from "../config/cancellationPolicies";
+
+/**
+ * Conditions a guest must meet to book an instant-book listing without the
+ * host's approval (guests who don't meet them send a request instead)
+ */
+export interface InstantBookRequirements {
+  verifiedEmail: boolean;
+  minCompletedStays: number; // Completed bookings on the platform
+}
 
 /**
  * Property interface - Only property-specific fields
@@ -10,9 +20,18 @@ export interface IProperty extends Document {
   address: string;
   city: string;
   pricePerNight: number;
+  cleaningFee: number;
   amenities: string[];
-  guests: number;
+  guests?: number; // Max adults + children (infants are counted separately)
+  maxInfants: number;
   status: PropertyStatus;
+  allowUnpaidConfirmation: boolean; // Host may confirm bookings before payment
+  paymentDeadlineHours?: number; // Hours guests have to pay (global default when unset)
+  bookingMode: BookingMode;
+  instantBookRequirements: InstantBookRequirements; // Only used in instant mode
+  hostResponseHours?: number; // Hours the host has to answer a request (global default when unset)
+  cancellationPolicy: CancellationPolicy;
+  cancellationTiers: CancellationTier[]; // Only used by the custom policy
   host: mongoose.Types.ObjectId;
   imageUrls: string[];
   createdAt: Date;
@@ -51,6 +70,11 @@ const PropertySchema: Schema = new Schema<IProperty>(
       required: [true, 'Price per night is required'],
       min: [0, 'Price cannot be negative']
     },
+    cleaningFee: {
+      type: Number,
+      default: 0,
+      min: [0, 'Cleaning fee cannot be negative']
+    },
     amenities: { 
       type: [String], 
       default: [],
@@ -59,12 +83,18 @@ const PropertySchema: Schema = new Schema<IProperty>(
           return amenities.length <= 20; // Max 20 amenities
         },
         message: 'Cannot have more than 20 amenities'
-      },
+      }
+    },
+    // Not required at schema level: listings saved before this field was stored have none
     guests: {
       type: Number,
-      required: [true, 'Maximum number of guests is required'],
       min: [1, 'There must be at least one guest']
     },
+    maxInfants: {
+      type: Number,
+      min: [0, 'Max infants cannot be negative'],
+      max: [10, 'Max infants cannot exceed 10'],
+      default: 5
     },
     status: {
       type: String,
@@ -74,6 +104,53 @@ const PropertySchema: Schema = new Schema<IProperty>(
       },
       default: PropertyStatus.AVAILABLE,
     },
+    allowUnpaidConfirmation: {
+      type: Boolean,
+      default: false
+    },
+    paymentDeadlineHours: {
+      type: Number,
+      min: [1, 'Payment deadline must be at least 1 hour'],
+      max: [720, 'Payment deadline cannot exceed 720 hours (30 days)']
+    },
+    bookingMode: {
+      type: String,
+      enum: {
+        values: Object.values(BookingMode),
+        message: 'Invalid booking mode'
+      },
+      default: BookingMode.REQUEST
+    },
+    instantBookRequirements: {
+      verifiedEmail: { type: Boolean, default: false },
+      minCompletedStays: {
+        type: Number,
+        min: [0, 'Minimum completed stays cannot be negative'],
+        max: [50, 'Minimum completed stays cannot exceed 50'],
+        default: 0
+      }
+    },
+    hostResponseHours: {
+      type: Number,
+      min: [1, 'Host response time must be at least 1 hour'],
+      max: [168, 'Host response time cannot exceed 168 hours (7 days)']
+    },
+    cancellationPolicy: {
+      type: String,
+      enum: {
+        values: Object.values(CancellationPolicy),
+        message: 'Invalid cancellation policy'
+      },
+      default: CancellationPolicy.FLEXIBLE
+    },
+    cancellationTiers: {
+      type: [{
+        _id: false,
+        hoursBeforeCheckIn: { type: Number, required: true, min: 0 },
+        refundPercent: { type: Number, required: true, min: 0, max: 100 }
+      }],
+      default: []
+    },
     host: { 
       type: mongoose.Schema.Types.ObjectId, 
       ref: "User", 
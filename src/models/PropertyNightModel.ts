@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Property night interface - one night of a property held by a booking.
+ * The unique index on (property, night) lets MongoDB reject a second booking
+ * for the same night, even when both requests arrive at the same time.
+ */
+export interface IPropertyNight extends Document {
+  property: mongoose.Types.ObjectId;
+  night: Date; // UTC midnight of the night's date
+  booking: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * Property night schema definition
+ */
+const PropertyNightSchema: Schema = new Schema<IPropertyNight>(
+  {
+    property: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Property",
+      required: [true, 'Property is required']
+    },
+    night: {
+      type: Date,
+      required: [true, 'Night is required']
+    },
+    booking: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Booking",
+      required: [true, 'Booking is required']
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// A night can only be held by one booking
+PropertyNightSchema.index({ property: 1, night: 1 }, { unique: true });
+
+// Indexes for better performance
+PropertyNightSchema.index({ booking: 1 });
+
+export const PropertyNight = mongoose.model<IPropertyNight>("PropertyNight", PropertyNightSchema);
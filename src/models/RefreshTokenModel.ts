@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Refresh token interface
+ * Only a SHA-256 hash of the token is stored. Tokens rotated from the same login
+ * belong to one session so that reuse of a rotated token can revoke the whole chain.
+ */
+export interface IRefreshToken extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string;
+  session: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedByHash?: string;
+  createdByIp?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Refresh token schema definition
+ */
+const RefreshTokenSchema: Schema = new Schema<IRefreshToken>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, 'User is required']
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true
+    },
+    session: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Session",
+      required: [true, 'Session is required']
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    },
+    revokedAt: {
+      type: Date
+    },
+    replacedByHash: {
+      type: String
+    },
+    createdByIp: {
+      type: String,
+      trim: true
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'User agent cannot exceed 500 characters']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes for better performance
+RefreshTokenSchema.index({ user: 1 });
+RefreshTokenSchema.index({ session: 1 });
+// Expired tokens are removed automatically by MongoDB
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>("RefreshToken", RefreshTokenSchema);
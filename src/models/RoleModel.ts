@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { Permission } from "../@types/express/enums";
+
+/**
+ * Role interface - a named group of admin permissions (e.g. finance, support)
+ */
+export interface IRole extends Document {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  isSystem: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Role schema definition
+ */
+const RoleSchema: Schema = new Schema<IRole>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Role name is required'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z0-9_]+$/, 'Role name can only contain lowercase letters, numbers and underscores'],
+      maxlength: [50, 'Role name cannot exceed 50 characters']
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Description cannot exceed 300 characters']
+    },
+    permissions: {
+      type: [String],
+      enum: {
+        values: Object.values(Permission),
+        message: 'Invalid permission'
+      },
+      default: []
+    },
+    isSystem: {
+      type: Boolean,
+      default: false
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const Role = mongoose.model<IRole>("Role", RoleSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Security settings interface - a single document holding platform-wide security rules
+ */
+export interface ISecuritySettings extends Document {
+  key: string;
+  twoFactorRequiredRoles: Array<"admin" | "host">;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Security settings schema definition
+ */
+const SecuritySettingsSchema: Schema = new Schema<ISecuritySettings>(
+  {
+    key: {
+      type: String,
+      default: "global",
+      unique: true
+    },
+    twoFactorRequiredRoles: {
+      type: [String],
+      enum: {
+        values: ["admin", "host"],
+        message: 'Invalid role for two-factor requirement'
+      },
+      default: []
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User"
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const SecuritySettings = mongoose.model<ISecuritySettings>("SecuritySettings", SecuritySettingsSchema);
+
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Session interface - one record per login on a device.
+ * Access tokens carry the session ID and refresh tokens belong to a session,
+ * so revoking a session signs that device out.
+ */
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  userAgent?: string;
+  ip?: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Session schema definition
+ */
+const SessionSchema: Schema = new Schema<ISession>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, 'User is required']
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'User agent cannot exceed 500 characters']
+    },
+    ip: {
+      type: String,
+      trim: true
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    },
+    revokedAt: {
+      type: Date
+    },
+    revokedReason: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Revocation reason cannot exceed 200 characters']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes for better performance
+SessionSchema.index({ user: 1, revokedAt: 1 });
+// Expired sessions are removed automatically by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>("Session", SessionSchema);
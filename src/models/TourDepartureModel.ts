@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { getDefaultTimeZone, isValidTimeZone, zonedTimeToUtc } from "../utils/timeZone";
+
+/**
+ * Tour departure interface - one scheduled run of a tour package.
+ * seatsBooked is only changed with conditional $inc updates (see
+ * tourDepartureHelper), so two guests can never take the last seat.
+ */
+export interface ITourDeparture extends Document {
+  tourPackage: mongoose.Types.ObjectId;
+  date: Date; // UTC midnight of the departure day
+  startTime: string; // "HH:mm" local time in timeZone
+  timeZone: string; // IANA time zone of the start time (e.g. "America/Asuncion")
+  guide?: string;
+  seats: number;
+  seatsBooked: number; // Adults + children of the active bookings
+  priceOverride?: number; // Price per guest for this departure (tour price when unset)
+  createdAt: Date;
+  updatedAt: Date;
+  // Virtual properties
+  remainingSeats: number;
+  startsAt: Date;
+}
+
+/**
+ * Tour departure schema definition
+ */
+const TourDepartureSchema: Schema = new Schema<ITourDeparture>(
+  {
+    tourPackage: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "TourPackage",
+      required: [true, 'Tour package is required']
+    },
+    date: {
+      type: Date,
+      required: [true, 'Departure date is required']
+    },
+    startTime: {
+      type: String,
+      required: [true, 'Start time is required'],
+      match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Start time must be in HH:mm format']
+    },
+    timeZone: {
+      type: String,
+      default: getDefaultTimeZone,
+      validate: {
+        validator: isValidTimeZone,
+        message: 'Invalid time zone'
+      }
+    },
+    guide: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Guide cannot exceed 100 characters']
+    },
+    seats: {
+      type: Number,
+      required: [true, 'Seats are required'],
+      min: [1, 'A departure needs at least 1 seat'],
+      max: [100, 'A departure cannot exceed 100 seats']
+    },
+    seatsBooked: {
+      type: Number,
+      default: 0,
+      min: [0, 'Booked seats cannot be negative']
+    },
+    priceOverride: {
+      type: Number,
+      min: [0, 'Price cannot be negative']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+  }
+);
+
+// Indexes for better performance
+TourDepartureSchema.index({ tourPackage: 1, date: 1 });
+
+// Virtual for the seats still available
+TourDepartureSchema.virtual('remainingSeats').get(function(this: ITourDeparture) {
+  return Math.max(0, this.seats - this.seatsBooked);
+});
+
+// Virtual for the departure date and time (start time read in the departure's time zone)
+TourDepartureSchema.virtual('startsAt').get(function(this: ITourDeparture) {
+  return zonedTimeToUtc(this.date, this.startTime, this.timeZone || getDefaultTimeZone());
+});
+
+export const TourDeparture = mongoose.model<ITourDeparture>("TourDeparture", TourDepartureSchema);
@@ -1,5 +1,7 @@
 import mongoose, { Schema, Document } from "mongoose";
-import { TourPackageStatus } from "../@types/express/enums";
+import { TourPackageStatus, CancellationPolicy, BookingMode } from "../@types/express/enums";
+import { CancellationTier } from "../config/cancellationPolicies";
+import { InstantBookRequirements } from "./PropertyModel";
 
 /**
  * Tour Package interface - Only tour package specific fields
@@ -9,10 +11,18 @@ export interface ITourPackage extends Document {
   description: string;
   price: number;
   duration?: number; // Duration in hours or days
-  maxCapacity?: number; // Maximum number of participants
+  maxCapacity?: number; // Maximum number of participants per date (adults + children)
+  maxInfants: number; // Infants allowed per booking (they don't take a seat)
   location?: string; // Tour location
   amenities?: string[]; // What's included in the tour
   status: TourPackageStatus;
+  allowUnpaidConfirmation: boolean; // Host may confirm bookings before payment
+  paymentDeadlineHours?: number; // Hours guests have to pay (global default when unset)
+  bookingMode: BookingMode;
+  instantBookRequirements: InstantBookRequirements; // Only used in instant mode
+  hostResponseHours?: number; // Hours the host has to answer a request (global default when unset)
+  cancellationPolicy: CancellationPolicy;
+  cancellationTiers: CancellationTier[]; // Only used by the custom policy
   host: mongoose.Types.ObjectId;
   imageUrls: string[];
   createdAt: Date;
@@ -51,6 +61,12 @@ const TourPackageSchema: Schema = new Schema<ITourPackage>(
       min: [1, 'Max capacity must be at least 1'],
       max: [100, 'Max capacity cannot exceed 100 people']
     },
+    maxInfants: {
+      type: Number,
+      min: [0, 'Max infants cannot be negative'],
+      max: [10, 'Max infants cannot exceed 10'],
+      default: 5
+    },
     location: {
       type: String,
       trim: true,
@@ -74,6 +90,53 @@ const TourPackageSchema: Schema = new Schema<ITourPackage>(
       },
       default: TourPackageStatus.AVAILABLE,
     },
+    allowUnpaidConfirmation: {
+      type: Boolean,
+      default: false
+    },
+    paymentDeadlineHours: {
+      type: Number,
+      min: [1, 'Payment deadline must be at least 1 hour'],
+      max: [720, 'Payment deadline cannot exceed 720 hours (30 days)']
+    },
+    bookingMode: {
+      type: String,
+      enum: {
+        values: Object.values(BookingMode),
+        message: 'Invalid booking mode'
+      },
+      default: BookingMode.REQUEST
+    },
+    instantBookRequirements: {
+      verifiedEmail: { type: Boolean, default: false },
+      minCompletedStays: {
+        type: Number,
+        min: [0, 'Minimum completed stays cannot be negative'],
+        max: [50, 'Minimum completed stays cannot exceed 50'],
+        default: 0
+      }
+    },
+    hostResponseHours: {
+      type: Number,
+      min: [1, 'Host response time must be at least 1 hour'],
+      max: [168, 'Host response time cannot exceed 168 hours (7 days)']
+    },
+    cancellationPolicy: {
+      type: String,
+      enum: {
+        values: Object.values(CancellationPolicy),
+        message: 'Invalid cancellation policy'
+      },
+      default: CancellationPolicy.FLEXIBLE
+    },
+    cancellationTiers: {
+      type: [{
+        _id: false,
+        hoursBeforeCheckIn: { type: Number, required: true, min: 0 },
+        refundPercent: { type: Number, required: true, min: 0, max: 100 }
+      }],
+      default: []
+    },
     host: {
       type: mongoose.Schema.Types.ObjectId,
       ref: "User",
@@ -2,16 +2,50 @@ import mongoose, { Schema, Document, Types } from "mongoose";
 import bcrypt from "bcryptjs";
 import { AccountStatus } from "../@types/express/enums";
 
+/**
+ * External identity (OpenID Connect provider account) linked to a user
+ */
+export interface IUserIdentity {
+  provider: string;
+  subject: string;
+  email?: string;
+  linkedAt: Date;
+}
+
 export interface IUser extends Document {
   _id: Types.ObjectId;
   firstName: string;
   lastName: string;
   email: string;
   password: string;
+  hasPassword: boolean;
+  identities: IUserIdentity[];
   phone: string;
   address: string;
   role: "admin" | "host" | "user";
+  adminRole?: Types.ObjectId;
   accountStatus: AccountStatus;
+  emailVerifiedAt?: Date;
+  passwordChangedAt?: Date;
+  passwordResetTokenHash?: string;
+  passwordResetExpires?: Date;
+  failedLoginAttempts: number;
+  lastFailedLoginAt?: Date;
+  lockUntil?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorBackupCodes?: string[];
+  twoFactorLastUsedStep?: number; // Time step of the last accepted TOTP login code (replay protection)
+  pendingEmail?: string;
+  emailChangeTokenHash?: string;
+  emailChangeExpires?: Date;
+  previousEmail?: string;
+  emailRevertTokenHash?: string;
+  emailRevertExpires?: Date;
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date;
+  anonymizedAt?: Date;
   createdAt: Date;
   comparePassword: (password: string) => Promise<boolean>;
 }
@@ -21,15 +55,57 @@ const UserSchema: Schema = new Schema<IUser>(
     firstName: { type: String, required: true, trim: true },
     lastName: { type: String, required: true, trim: true },
     email: { type: String, required: true, unique: true, lowercase: true },
-    password: { type: String, required: true,trim: true },
+    // Accounts created through social login have no password until they set one
+    password: {
+      type: String,
+      required: function (this: IUser) { return this.hasPassword !== false; },
+      trim: true
+    },
+    hasPassword: { type: Boolean, default: true },
+    identities: [
+      {
+        _id: false,
+        provider: { type: String, required: true },
+        subject: { type: String, required: true },
+        email: { type: String, lowercase: true },
+        linkedAt: { type: Date, default: Date.now },
+      },
+    ],
     phone: { type: String, required: true, trim: true},
     address: { type: String, required: true, trim: true },
     role: { type: String, enum: ["admin", "host", "user"], default: "user" },
+    // Admin sub-role holding the permissions (no permissions when not set)
+    adminRole: { type: Schema.Types.ObjectId, ref: "Role" },
     accountStatus: {
       type: String,
       enum:Object.values(AccountStatus),
       default: AccountStatus.PENDING_VERIFICATION,
     },
+    emailVerifiedAt: { type: Date },
+    passwordChangedAt: { type: Date },
+    passwordResetTokenHash: { type: String, select: false },
+    passwordResetExpires: { type: Date, select: false },
+    // Brute-force protection (independent from accountStatus)
+    failedLoginAttempts: { type: Number, default: 0 },
+    lastFailedLoginAt: { type: Date },
+    lockUntil: { type: Date },
+    // TOTP two-factor authentication (backup codes are stored hashed)
+    twoFactorEnabled: { type: Boolean, default: false },
+    twoFactorSecret: { type: String, select: false },
+    twoFactorPendingSecret: { type: String, select: false },
+    twoFactorBackupCodes: { type: [String], select: false },
+    twoFactorLastUsedStep: { type: Number, select: false },
+    // Email change: confirmed from the new address, revertible from the old one
+    pendingEmail: { type: String, lowercase: true, trim: true },
+    emailChangeTokenHash: { type: String, select: false },
+    emailChangeExpires: { type: Date, select: false },
+    previousEmail: { type: String, lowercase: true, trim: true },
+    emailRevertTokenHash: { type: String, select: false },
+    emailRevertExpires: { type: Date, select: false },
+    // Self-service account deletion (personal data is anonymized after the grace period)
+    deletionRequestedAt: { type: Date },
+    deletionScheduledFor: { type: Date },
+    anonymizedAt: { type: Date },
     createdAt: { type: Date, default: Date.now },
   },
   {
@@ -39,9 +115,12 @@ const UserSchema: Schema = new Schema<IUser>(
 
 // Hash password before save
 UserSchema.pre<IUser>("save", async function (next) {
-  if (!this.isModified("password")) return next();
+  if (!this.isModified("password") || !this.password) return next();
+  this.hasPassword = true;
   const salt = await bcrypt.genSalt(10);
   this.password = await bcrypt.hash(this.password, salt);
+  // Tokens issued before this moment are no longer accepted (1s margin for JWT iat precision)
+  if (!this.isNew) this.passwordChangedAt = new Date(Date.now() - 1000);
   next();
 });
 
@@ -49,7 +128,16 @@ UserSchema.pre<IUser>("save", async function (next) {
 UserSchema.methods.comparePassword = async function (
   candidatePassword: string
 ): Promise<boolean> {
+  // Social login accounts without a password can never match
+  if (!this.password) return false;
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Indexes for better performance
+// An external identity can only be linked to one user
+UserSchema.index(
+  { "identities.provider": 1, "identities.subject": 1 },
+  { unique: true, partialFilterExpression: { "identities.subject": { $exists: true } } }
+);
+
 export const User = mongoose.model<IUser>("User", UserSchema);
@@ -1,11 +1,14 @@
 import express from "express";
 import { protect } from "../middlewares/protect";
-import { checkRole } from "../middlewares/checkRole";
+import { requirePermission } from "../middlewares/requirePermission";
+import { Permission } from "../@types/express/enums";
 import {
   getAllBookingsForAdmin,
   getBookingById,
   updateBookingByAdmin,
   updateBookingPaymentStatus,
+  getBookingTransactionsForAdmin,
+  recordBookingTransactionByAdmin,
   deleteBookingByAdmin,
   filterBookingsByDateRange,
   filterBookingsByStatus,
@@ -20,7 +23,7 @@ const router = express.Router();
 /* 
  * All routes in this file are protected and require:
  * 1. Valid JWT token (protect middleware)
- * 2. Admin role (checkRole("admin") middleware)
+ * 2. Admin permission (requirePermission(...) middleware)
  * 
  * Admin has full CRUD access to ALL bookings in the system
  * regardless of which user created them or which host owns the property/tour
@@ -35,7 +38,7 @@ const router = express.Router();
  * @access  Private (admin only)
  * @returns Paginated list of all bookings with user, property, and tour data populated
  */
-router.get("/bookings", protect, checkRole("admin"), getAllBookingsForAdmin);
+router.get("/bookings", protect, requirePermission(Permission.BOOKINGS_READ), getAllBookingsForAdmin);
 
 /**
  * @route   GET /api/admin/bookings/:id
@@ -44,7 +47,7 @@ router.get("/bookings", protect, checkRole("admin"), getAllBookingsForAdmin);
  * @access  Private (admin only)
  * @returns Single booking with full population (user, property/tour details)
  */
-router.get("/bookings/:id", protect, checkRole("admin"), getBookingById);
+router.get("/bookings/:id", protect, requirePermission(Permission.BOOKINGS_READ), getBookingById);
 
 /**
  * @route   PATCH /api/admin/bookings/:id
@@ -56,13 +59,19 @@ router.get("/bookings/:id", protect, checkRole("admin"), getBookingById);
  *            checkIn?: Date,
  *            checkOut?: Date,
  *            totalPrice?: number,
- *            guests?: number
+ *            adults?: number,
+ *            children?: number,
+ *            infants?: number,
+ *            guests?: number                // Plain count, read as adults
  *          }
  * @access  Private (admin only)
+ * @note    Status changes follow the booking lifecycle (admins may also move confirmed back to pending)
+ * @note    Guest changes are checked against the listing's capacity
+ * @note    Cancelling a paid booking refunds it in full and needs bookings.refund
  * @note    Sends email notification to user when status changes
  * @returns Updated booking object
  */
-router.patch("/bookings/:id", protect, checkRole("admin"), updateBookingByAdmin);
+router.patch("/bookings/:id", protect, requirePermission(Permission.BOOKINGS_MANAGE), updateBookingByAdmin);
 
 /**
  * @route   PATCH /api/admin/bookings/:id/payment-status
@@ -70,10 +79,38 @@ router.patch("/bookings/:id", protect, checkRole("admin"), updateBookingByAdmin)
  * @params  id - Booking ObjectId
  * @body    { paymentStatus: PaymentStatus }
  * @access  Private (admin only)
+ * @note    Applied through the payment ledger: "paid" charges the balance due, "refunded" refunds what was paid
  * @note    Sends email notification to user about payment status change
  * @returns Updated booking with payment status change details
  */
-router.patch("/bookings/:id/payment-status", protect, checkRole("admin"), updateBookingPaymentStatus);
+router.patch("/bookings/:id/payment-status", protect, requirePermission(Permission.PAYMENTS_MANAGE), updateBookingPaymentStatus);
+
+/**
+ * @route   GET /api/admin/bookings/:id/transactions
+ * @desc    Admin lists the payment transactions (charges, refunds, adjustments) of a booking
+ * @params  id - Booking ObjectId
+ * @access  Private (admin only)
+ * @returns Transactions (oldest first), totals (charged, refunded, netPaid, balanceDue) and the derived payment status
+ */
+router.get("/bookings/:id/transactions", protect, requirePermission(Permission.BOOKINGS_READ), getBookingTransactionsForAdmin);
+
+/**
+ * @route   POST /api/admin/bookings/:id/transactions
+ * @desc    Admin records a payment transaction on a booking
+ * @params  id - Booking ObjectId
+ * @body    {
+ *            type: "charge" | "refund" | "adjustment",
+ *            amount: number,            // Positive; adjustments may be negative
+ *            method?: PaymentMethod,
+ *            reference?: string,
+ *            note?: string
+ *          }
+ * @access  Private (admin only, refunds also need bookings.refund)
+ * @note    The booking's payment status is derived from its transactions (partially_paid, paid, partially_refunded, refunded)
+ * @note    Transactions cannot be edited or deleted; record an adjustment to correct a mistake
+ * @returns Updated booking, the new transaction and the new totals
+ */
+router.post("/bookings/:id/transactions", protect, requirePermission(Permission.PAYMENTS_MANAGE), recordBookingTransactionByAdmin);
 
 /**
  * @route   DELETE /api/admin/bookings/:id
@@ -84,7 +121,7 @@ router.patch("/bookings/:id/payment-status", protect, checkRole("admin"), update
  * @note    Sends cancellation email notification to the user
  * @returns Confirmation message with deleted booking ID
  */
-router.delete("/bookings/:id", protect, checkRole("admin"), deleteBookingByAdmin);
+router.delete("/bookings/:id", protect, requirePermission(Permission.BOOKINGS_DELETE), deleteBookingByAdmin);
 
 // ====================== FILTERING OPERATIONS ======================
 
@@ -97,7 +134,7 @@ router.delete("/bookings/:id", protect, checkRole("admin"), deleteBookingByAdmin
  * @validation Both 'from' and 'to' dates are required and must be valid dates
  * @returns Filtered bookings within the specified date range with pagination
  */
-router.get("/bookings/filter/date", protect, checkRole("admin"), filterBookingsByDateRange);
+router.get("/bookings/filter/date", protect, requirePermission(Permission.BOOKINGS_READ), filterBookingsByDateRange);
 
 /**
  * @route   GET /api/admin/bookings/filter/status
@@ -108,7 +145,7 @@ router.get("/bookings/filter/date", protect, checkRole("admin"), filterBookingsB
  * @validation Status values must match enum values from BookingStatus and PaymentStatus
  * @returns Filtered bookings matching the specified status criteria
  */
-router.get("/bookings/filter/status", protect, checkRole("admin"), filterBookingsByStatus);
+router.get("/bookings/filter/status", protect, requirePermission(Permission.BOOKINGS_READ), filterBookingsByStatus);
 
 /**
  * @route   GET /api/admin/bookings/filter/type
@@ -119,7 +156,7 @@ router.get("/bookings/filter/status", protect, checkRole("admin"), filterBooking
  * @validation Type must be either 'property' or 'tour'
  * @returns Filtered bookings of the specified type (property or tour bookings)
  */
-router.get("/bookings/filter/type", protect, checkRole("admin"), filterBookingsByType);
+router.get("/bookings/filter/type", protect, requirePermission(Permission.BOOKINGS_READ), filterBookingsByType);
 
 /**
  * @route   GET /api/admin/bookings/filter/host/:hostId
@@ -131,7 +168,7 @@ router.get("/bookings/filter/type", protect, checkRole("admin"), filterBookingsB
  * @validation hostId must be a valid ObjectId and exist as a host user
  * @returns All bookings for the specified host's properties and tours with optional additional filters
  */
-router.get("/bookings/filter/host/:hostId", protect, checkRole("admin"), filterBookingsByHost);
+router.get("/bookings/filter/host/:hostId", protect, requirePermission(Permission.BOOKINGS_READ), filterBookingsByHost);
 
 // ====================== EXPORT OPERATIONS ======================
 
@@ -150,7 +187,7 @@ router.get("/bookings/filter/host/:hostId", protect, checkRole("admin"), filterB
  *   - Automatic pagination for large datasets
  *   - Complete booking details including user and property/tour information
  */
-router.get("/bookings/export/pdf", protect, checkRole("admin"), exportBookingsToPDF);
+router.get("/bookings/export/pdf", protect, requirePermission(Permission.BOOKINGS_READ), exportBookingsToPDF);
 
 /* ==================== ROUTE ORGANIZATION NOTES ==================== */
 /*
@@ -179,7 +216,7 @@ router.get("/bookings/export/pdf", protect, checkRole("admin"), exportBookingsTo
  * 
  * MIDDLEWARE STACK:
  * 1. protect: Validates JWT token and attaches user to request
- * 2. checkRole("admin"): Ensures user has admin role
+ * 2. requirePermission(...): Ensures the admin's role grants the permission
  * 
  * ERROR HANDLING:
  * - All routes handle errors and return consistent JSON responses
@@ -0,0 +1,45 @@
+import express from "express";
+import {
+  getAdminConversations,
+  getAdminConversationMessages,
+  sendAdminMessage,
+} from "../controllers/adminConversationController";
+import { protect } from "../middlewares/protect";
+import { requirePermission } from "../middlewares/requirePermission";
+import { upload } from "../config/multerConfig";
+import { Permission } from "../@types/express/enums";
+
+const router = express.Router();
+
+/* =================== ADMIN CONVERSATION ROUTES =================== */
+
+/**
+ * @route   GET /api/admin/conversations
+ * @desc    List guest-host conversations, filterable by booking, participant and type
+ * @query   bookingId?, userId?, type? ("booking" | "inquiry"), page?, limit?
+ * @access  Private (admin with messages.read)
+ */
+router.get("/conversations", protect, requirePermission(Permission.MESSAGES_READ), getAdminConversations);
+
+/**
+ * @route   GET /api/admin/conversations/:id/messages
+ * @desc    Read the messages of a conversation (does not change read receipts)
+ * @access  Private (admin with messages.read)
+ */
+router.get("/conversations/:id/messages", protect, requirePermission(Permission.MESSAGES_READ), getAdminConversationMessages);
+
+/**
+ * @route   POST /api/admin/conversations/:id/messages
+ * @desc    Write in a conversation as support; guest and host are both notified
+ * @body    multipart/form-data: body? + images? (up to 5)
+ * @access  Private (admin with messages.read and messages.manage)
+ */
+router.post(
+  "/conversations/:id/messages",
+  protect,
+  requirePermission(Permission.MESSAGES_READ, Permission.MESSAGES_MANAGE),
+  upload.fields([{ name: "images", maxCount: 5 }]),
+  sendAdminMessage
+);
+
+export default router;
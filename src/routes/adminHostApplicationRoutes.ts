@@ -0,0 +1,36 @@
+import express from "express";
+import {
+  getHostApplications,
+  approveHostApplication,
+  rejectHostApplication,
+} from "../controllers/adminHostApplicationController";
+import { protect } from "../middlewares/protect";
+import { requirePermission } from "../middlewares/requirePermission";
+import { Permission } from "../@types/express/enums";
+
+const router = express.Router();
+
+/* ================= ADMIN HOST APPLICATION ROUTES ================= */
+
+/**
+ * @route   GET /api/admin/host-applications
+ * @desc    List host applications (optional ?status filter)
+ * @access  Private (admin only)
+ */
+router.get("/host-applications", protect, requirePermission(Permission.HOST_APPLICATIONS_REVIEW), getHostApplications);
+
+/**
+ * @route   PATCH /api/admin/host-applications/:id/approve
+ * @desc    Approve an application and promote the applicant to host
+ * @access  Private (admin only)
+ */
+router.patch("/host-applications/:id/approve", protect, requirePermission(Permission.HOST_APPLICATIONS_REVIEW), approveHostApplication);
+
+/**
+ * @route   PATCH /api/admin/host-applications/:id/reject
+ * @desc    Reject an application with a reason
+ * @access  Private (admin only)
+ */
+router.patch("/host-applications/:id/reject", protect, requirePermission(Permission.HOST_APPLICATIONS_REVIEW), rejectHostApplication);
+
+export default router;
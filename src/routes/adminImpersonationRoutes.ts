@@ -0,0 +1,28 @@
+import express from "express";
+import {
+  impersonateUser,
+  getAuditLogs,
+} from "../controllers/adminImpersonationController";
+import { protect } from "../middlewares/protect";
+import { requirePermission } from "../middlewares/requirePermission";
+import { Permission } from "../@types/express/enums";
+
+const router = express.Router();
+
+/* =================== ADMIN IMPERSONATION ROUTES =================== */
+
+/**
+ * @route   POST /api/admin/users/:id/impersonate
+ * @desc    Get a short-lived token to act as a host or guest (audited, read-only)
+ * @access  Private (admin with users.impersonate)
+ */
+router.post("/users/:id/impersonate", protect, requirePermission(Permission.USERS_IMPERSONATE), impersonateUser);
+
+/**
+ * @route   GET /api/admin/audit-logs
+ * @desc    List audit log entries (impersonation sessions and requests)
+ * @access  Private (admin with audit_logs.read)
+ */
+router.get("/audit-logs", protect, requirePermission(Permission.AUDIT_LOGS_READ), getAuditLogs);
+
+export default router;
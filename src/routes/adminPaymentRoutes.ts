@@ -1,6 +1,7 @@
 import express from "express";
 import { protect } from "../middlewares/protect";
-import { checkRole } from "../middlewares/checkRole";
+import { requirePermission } from "../middlewares/requirePermission";
+import { Permission } from "../@types/express/enums";
 import {
   exportBookingsAsCSV,
   exportBookingsAsPDF,
@@ -15,13 +16,13 @@ const router = express.Router();
  * @desc    Export all bookings to CSV file
  * @access  Private (admin only)
  */
-router.get("/bookings/export/csv", protect, checkRole("admin"), exportBookingsAsCSV);
+router.get("/bookings/export/csv", protect, requirePermission(Permission.PAYMENTS_EXPORT), exportBookingsAsCSV);
 
 /**
  * @route   GET /api/admin/bookings/export/pdf
  * @desc    Export all bookings to PDF file
  * @access  Private (admin only)
  */
-router.get("/bookings/export/pdf", protect, checkRole("admin"), exportBookingsAsPDF);
+router.get("/bookings/export/pdf", protect, requirePermission(Permission.PAYMENTS_EXPORT), exportBookingsAsPDF);
 
 export default router;
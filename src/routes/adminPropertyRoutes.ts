@@ -6,7 +6,8 @@ import {
   deleteProperty,
 } from "../controllers/adminPropertyController";
 import { protect } from "../middlewares/protect";
-import { checkRole } from "../middlewares/checkRole";
+import { requirePermission } from "../middlewares/requirePermission";
+import { Permission } from "../@types/express/enums";
 import { upload } from "../config/multerConfig";
 
 const router = express.Router();
@@ -21,7 +22,7 @@ const router = express.Router();
 router.post(
   "/properties",
   protect,
-  checkRole("admin"),
+  requirePermission(Permission.PROPERTIES_MODERATE),
   upload.fields([{ name: "images", maxCount: 10 }]),
   createProperty
 );
@@ -34,7 +35,7 @@ router.post(
 router.get(
   "/properties",
   protect,
-  checkRole("admin"),
+  requirePermission(Permission.PROPERTIES_MODERATE),
   getProperties
 );
 
@@ -46,7 +47,7 @@ router.get(
 router.patch(
   "/properties/:id",
   protect,
-  checkRole("admin"),
+  requirePermission(Permission.PROPERTIES_MODERATE),
   upload.fields([{ name: "images", maxCount: 10 }]),
   updateProperty
 );
@@ -59,7 +60,7 @@ router.patch(
 router.delete(
   "/properties/:id",
   protect,
-  checkRole("admin"),
+  requirePermission(Permission.PROPERTIES_MODERATE),
   deleteProperty
 );
 
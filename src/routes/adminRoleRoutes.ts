@@ -0,0 +1,63 @@
+import express from "express";
+import {
+  getPermissions,
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+  assignAdminRole,
+} from "../controllers/adminRoleController";
+import { protect } from "../middlewares/protect";
+import { requirePermission } from "../middlewares/requirePermission";
+import { Permission } from "../@types/express/enums";
+
+const router = express.Router();
+
+/* ====================== ADMIN ROLES ROUTES ====================== */
+
+/**
+ * @route   GET /api/admin/permissions
+ * @desc    List every available permission
+ * @access  Private (admin with roles.manage)
+ */
+router.get("/permissions", protect, requirePermission(Permission.ROLES_MANAGE), getPermissions);
+
+/**
+ * @route   GET /api/admin/roles
+ * @desc    Get all admin roles
+ * @access  Private (admin with roles.manage)
+ */
+router.get("/roles", protect, requirePermission(Permission.ROLES_MANAGE), getRoles);
+
+/**
+ * @route   POST /api/admin/roles
+ * @desc    Create a custom admin role
+ * @note    Only permissions the caller has can be granted
+ * @access  Private (admin with roles.manage)
+ */
+router.post("/roles", protect, requirePermission(Permission.ROLES_MANAGE), createRole);
+
+/**
+ * @route   PATCH /api/admin/roles/:id
+ * @desc    Update a custom admin role
+ * @note    The caller must have every permission the role has or is given
+ * @access  Private (admin with roles.manage)
+ */
+router.patch("/roles/:id", protect, requirePermission(Permission.ROLES_MANAGE), updateRole);
+
+/**
+ * @route   DELETE /api/admin/roles/:id
+ * @desc    Delete an unassigned custom admin role
+ * @access  Private (admin with roles.manage)
+ */
+router.delete("/roles/:id", protect, requirePermission(Permission.ROLES_MANAGE), deleteRole);
+
+/**
+ * @route   PATCH /api/admin/admins/:id/role
+ * @desc    Assign a role to an admin
+ * @note    The caller must have the permissions of the new and the current role; the last super admin cannot be demoted
+ * @access  Private (admin with roles.manage)
+ */
+router.patch("/admins/:id/role", protect, requirePermission(Permission.ROLES_MANAGE), assignAdminRole);
+
+export default router;
@@ -1,5 +1,9 @@
 import express from 'express';
 import {
+  createAdmin,
+  getAllAdmins,
+  updateAdmin,
+  deleteAdmin,
   createUser,
   createHost,
   getAllHosts,
@@ -8,12 +12,49 @@ import {
   getAllUsers,
   updateUser,
   deleteUser,
+  getLockedAccounts,
+  unlockUser,
+  revokeUserSessions,
 } from '../controllers/adminController';
 import { protect } from '../middlewares/protect';
-import { checkRole } from '../middlewares/checkRole';
+import { requirePermission } from '../middlewares/requirePermission';
+import { Permission } from '../@types/express/enums';
 
 const router = express.Router();
 
+/* ========================= ADMINS ROUTES ========================= */
+
+/**
+ * @route   POST /api/admin/create-admin
+ * @desc    Admin creates a new admin
+ * @body    { firstName, lastName, email, password, phone, address?, roleId }
+ * @note    roleId is required (an admin without a role has no permissions) and cannot
+ *          grant permissions the creating admin does not have
+ * @access  Private (admin with admins.manage)
+ */
+router.post('/create-admin', protect, requirePermission(Permission.ADMINS_MANAGE), createAdmin);
+
+/**
+ * @route   GET /api/admin/admins
+ * @desc    Admin retrieves all admins
+ * @access  Private (admin with admins.manage)
+ */
+router.get('/admins', protect, requirePermission(Permission.ADMINS_MANAGE), getAllAdmins);
+
+/**
+ * @route   PATCH /api/admin/admins/:id
+ * @desc    Admin updates another admin by ID
+ * @access  Private (admin with admins.manage)
+ */
+router.patch('/admins/:id', protect, requirePermission(Permission.ADMINS_MANAGE), updateAdmin);
+
+/**
+ * @route   DELETE /api/admin/admins/:id
+ * @desc    Admin deletes another admin by ID
+ * @access  Private (admin with admins.manage)
+ */
+router.delete('/admins/:id', protect, requirePermission(Permission.ADMINS_MANAGE), deleteAdmin);
+
 /* ========================= HOSTS ROUTES ========================= */
 
 /**
@@ -21,57 +62,80 @@ const router = express.Router();
  * @desc    Admin creates a new host
  * @access  Private (admin only)
  */
-router.post('/create-host', protect, checkRole('admin'), createHost);
+router.post('/create-host', protect, requirePermission(Permission.USERS_MANAGE), createHost);
 
 /**
  * @route   GET /api/admin/hosts
  * @desc    Admin retrieves all hosts
  * @access  Private (admin only)
  */
-router.get('/hosts', protect, checkRole('admin'), getAllHosts);
+router.get('/hosts', protect, requirePermission(Permission.USERS_READ), getAllHosts);
 
 /**
  * @route   PATCH /api/admin/hosts/:id
  * @desc    Admin updates a host by ID
  * @access  Private (admin only)
  */
-router.patch('/hosts/:id', protect, checkRole('admin'), updateHost);
+router.patch('/hosts/:id', protect, requirePermission(Permission.USERS_MANAGE), updateHost);
 
 /**
  * @route   DELETE /api/admin/hosts/:id
  * @desc    Admin deletes a host by ID
  * @access  Private (admin only)
  */
-router.delete('/hosts/:id', protect, checkRole('admin'), deleteHost);
+router.delete('/hosts/:id', protect, requirePermission(Permission.USERS_MANAGE), deleteHost);
 
 /* ========================= USERS ROUTES ========================= */
 
 /**
  * @route   POST /api/admin/users
- * @desc    Admin creates a new user (any role)
+ * @desc    Admin creates a new user (any role; admins also need a roleId)
  * @access  Private (admin only)
  */
-router.post('/users', protect, checkRole('admin'), createUser);
+router.post('/users', protect, requirePermission(Permission.USERS_MANAGE), createUser);
 
 /**
  * @route   GET /api/admin/users
  * @desc    Admin retrieves all users
  * @access  Private (admin only)
  */
-router.get('/users', protect, checkRole('admin'), getAllUsers);
+router.get('/users', protect, requirePermission(Permission.USERS_READ), getAllUsers);
 
 /**
  * @route   PATCH /api/admin/users/:id
  * @desc    Admin updates a user by ID
  * @access  Private (admin only)
  */
-router.patch('/users/:id', protect, checkRole('admin'), updateUser);
+router.patch('/users/:id', protect, requirePermission(Permission.USERS_MANAGE), updateUser);
 
 /**
  * @route   DELETE /api/admin/users/:id
  * @desc    Admin deletes a user by ID
  * @access  Private (admin only)
  */
-router.delete('/users/:id', protect, checkRole('admin'), deleteUser);
+router.delete('/users/:id', protect, requirePermission(Permission.USERS_MANAGE), deleteUser);
+
+/**
+ * @route   DELETE /api/admin/users/:id/sessions
+ * @desc    Admin revokes every session of a user (done automatically on suspension)
+ * @access  Private (admin only)
+ */
+router.delete('/users/:id/sessions', protect, requirePermission(Permission.USERS_SUSPEND), revokeUserSessions);
+
+/* ===================== LOCKED ACCOUNTS ROUTES ===================== */
+
+/**
+ * @route   GET /api/admin/locked-accounts
+ * @desc    Admin lists accounts locked by failed login attempts
+ * @access  Private (admin only)
+ */
+router.get('/locked-accounts', protect, requirePermission(Permission.USERS_READ), getLockedAccounts);
+
+/**
+ * @route   PATCH /api/admin/users/:id/unlock
+ * @desc    Admin clears the login lockout of an account
+ * @access  Private (admin only)
+ */
+router.patch('/users/:id/unlock', protect, requirePermission(Permission.USERS_SUSPEND), unlockUser);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,28 @@
+import express from "express";
+import {
+  getSecuritySettingsForAdmin,
+  updateSecuritySettings,
+} from "../controllers/adminSecurityController";
+import { protect } from "../middlewares/protect";
+import { requirePermission } from "../middlewares/requirePermission";
+import { Permission } from "../@types/express/enums";
+
+const router = express.Router();
+
+/* ==================== ADMIN SECURITY ROUTES ==================== */
+
+/**
+ * @route   GET /api/admin/security-settings
+ * @desc    Get platform security settings
+ * @access  Private (admin only)
+ */
+router.get("/security-settings", protect, requirePermission(Permission.SECURITY_MANAGE), getSecuritySettingsForAdmin);
+
+/**
+ * @route   PATCH /api/admin/security-settings
+ * @desc    Update platform security settings (roles requiring 2FA)
+ * @access  Private (admin only)
+ */
+router.patch("/security-settings", protect, requirePermission(Permission.SECURITY_MANAGE), updateSecuritySettings);
+
+export default router;
@@ -1,5 +1,29 @@
 import express from "express";
-import { register, login } from "../controllers/authController";
+import {
+  register,
+  login,
+  refreshAccessToken,
+  logout,
+  verifyEmail,
+  resendVerificationEmail,
+  forgotPassword,
+  resetPassword,
+} from "../controllers/authController";
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  verifyTwoFactorLogin,
+  disableTwoFactor,
+  regenerateBackupCodes,
+} from "../controllers/twoFactorController";
+import {
+  getOidcProviderList,
+  startOidcLogin,
+  oidcCallback,
+} from "../controllers/oidcController";
+import { protect } from "../middlewares/protect";
+import { forbidImpersonation } from "../middlewares/forbidImpersonation";
+import { checkRole } from "../middlewares/checkRole";
 
 const router = express.Router();
 
@@ -19,4 +43,122 @@ router.post("/register", register);
  */
 router.post("/login", login);
 
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for a new access token and refresh token
+ * @access  Public
+ */
+router.post("/refresh", refreshAccessToken);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Revoke the given refresh token
+ * @access  Public
+ */
+router.post("/logout", logout);
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Activate a pending account using the emailed verification token
+ * @access  Public
+ */
+router.post("/verify-email", verifyEmail);
+
+/**
+ * @route   POST /api/auth/resend-verification
+ * @desc    Send a new verification link to a pending account
+ * @access  Public
+ */
+router.post("/resend-verification", resendVerificationEmail);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a single-use password reset link
+ * @access  Public
+ */
+router.post("/forgot-password", forgotPassword);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password using a reset token and sign out existing sessions
+ * @access  Public
+ */
+router.post("/reset-password", resetPassword);
+
+/* ===================== TWO-FACTOR ROUTES ===================== */
+
+/**
+ * @route   POST /api/auth/2fa/verify
+ * @desc    Second login step: verify a TOTP or backup code with the login challengeToken
+ * @access  Public
+ */
+router.post("/2fa/verify", verifyTwoFactorLogin);
+
+/**
+ * @route   POST /api/auth/2fa/enroll/setup
+ * @desc    Start mandatory 2FA enrollment using the "2fa_setup" challengeToken from login
+ * @access  Public
+ */
+router.post("/2fa/enroll/setup", setupTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/enroll/enable
+ * @desc    Confirm mandatory 2FA enrollment and complete the login
+ * @access  Public
+ */
+router.post("/2fa/enroll/enable", enableTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Generate a TOTP secret and provisioning URI (QR code)
+ * @access  Private (admin and host)
+ */
+router.post("/2fa/setup", protect, forbidImpersonation, checkRole("admin", "host"), setupTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/enable
+ * @desc    Confirm the TOTP secret with a code and receive backup codes
+ * @access  Private (admin and host)
+ */
+router.post("/2fa/enable", protect, forbidImpersonation, checkRole("admin", "host"), enableTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Disable 2FA (password and current code required)
+ * @access  Private (admin and host)
+ */
+router.post("/2fa/disable", protect, forbidImpersonation, checkRole("admin", "host"), disableTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/backup-codes
+ * @desc    Regenerate backup codes (current code required)
+ * @access  Private (admin and host)
+ */
+router.post("/2fa/backup-codes", protect, forbidImpersonation, checkRole("admin", "host"), regenerateBackupCodes);
+
+/* ================ SOCIAL LOGIN (OPENID CONNECT) ROUTES ================ */
+
+/**
+ * @route   GET /api/auth/oidc/providers
+ * @desc    List the enabled social login providers
+ * @access  Public
+ */
+router.get("/oidc/providers", getOidcProviderList);
+
+/**
+ * @route   GET /api/auth/oidc/:provider
+ * @desc    Redirect to the provider sign-in page (authorization-code flow with PKCE).
+ *          Sets an httpOnly "oidc_state" cookie that the callback must present.
+ * @access  Public
+ */
+router.get("/oidc/:provider", startOidcLogin);
+
+/**
+ * @route   GET /api/auth/oidc/:provider/callback
+ * @desc    Provider callback: sign the user in and redirect to the web app
+ *          (rejected when the state does not match the browser's "oidc_state" cookie)
+ * @access  Public
+ */
+router.get("/oidc/:provider/callback", oidcCallback);
+
 export default router;
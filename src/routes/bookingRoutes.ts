@@ -3,6 +3,7 @@ import { protect } from "../middlewares/protect";
 import { checkRole } from "../middlewares/checkRole";
 import multer from "multer";
 import {
+  getBookingQuote,
   createBooking,
   getUserBookings,
   getUserBookingById,
@@ -52,6 +53,32 @@ const upload = multer({
  * - Access bookings they didn't create
  */
 
+// ====================== PRICING ======================
+
+/**
+ * @route   POST /api/bookings/quote
+ * @desc    Calculate the price of a property stay or tour on the server
+ * @body    {
+ *            property?: ObjectId,           // Either property OR tourPackage required
+ *            tourPackage?: ObjectId,        // Either property OR tourPackage required
+ *            tourDeparture?: ObjectId,      // Tours: departure booked (sets the dates)
+ *            checkIn: "YYYY-MM-DD",         // Check-in date (properties)
+ *            checkOut: "YYYY-MM-DD",        // Check-out date (properties)
+ *            adults: number,                // At least 1
+ *            children?: number,             // Default 0
+ *            infants?: number,              // Default 0, don't count towards occupancy
+ *            guests?: number                // Older clients: plain count, read as adults
+ *          }
+ * @access  Public
+ * @business_logic
+ *   - Property: pricePerNight × nights + cleaningFee
+ *   - Tour: departure's price override (or tour price) × (adults + children), infants are free
+ *   - Guests are checked against the listing's capacity (see POST /api/bookings)
+ *   - Service fee (SERVICE_FEE_PERCENT, default 10%) added on top
+ * @returns Quote with unit price, units, subtotal, fees and total
+ */
+router.post("/quote", getBookingQuote);
+
 // ====================== MAIN BOOKING OPERATIONS ======================
 
 /**
@@ -60,10 +87,14 @@ const upload = multer({
  * @body    {
  *            property?: ObjectId,           // Either property OR tourPackage required
  *            tourPackage?: ObjectId,        // Either property OR tourPackage required
- *            checkIn: "YYYY-MM-DD",         // Check-in date
- *            checkOut: "YYYY-MM-DD",        // Check-out date
- *            guests: number,                // Number of guests (1-20)
- *            totalPrice: number,            // Total booking price
+ *            tourDeparture?: ObjectId,      // Tours: departure booked (sets the dates)
+ *            checkIn: "YYYY-MM-DD",         // Check-in date (properties)
+ *            checkOut: "YYYY-MM-DD",        // Check-out date (properties)
+ *            adults: number,                // At least 1
+ *            children?: number,             // Default 0
+ *            infants?: number,              // Default 0
+ *            guests?: number,               // Older clients: plain count, read as adults
+ *            totalPrice: number,            // Total booking price (must match the server quote)
  *            paymentDetails?: string        // Optional payment notes/details
  *          }
  * @files   paymentImage?: File[]           // Optional payment proof images (max 5, 5MB each)
@@ -72,15 +103,26 @@ const upload = multer({
  *   - Either property OR tourPackage must be provided (mutually exclusive)
  *   - Check-in must be in the future
  *   - Check-out must be after check-in
- *   - Guests must be between 1 and 20
- *   - Total price must be positive
+ *   - At least 1 adult; adults + children within the property's guests limit
+ *   - Infants within the listing's maxInfants
+ *   - Tours: a departure of the tour that has not left yet (GET /tours/:id/departures),
+ *     with enough seats left for adults + children (409 when taken meanwhile)
+ *   - Total price must match the quote from POST /api/bookings/quote
  *   - Property/tour must be available for the selected dates
  * @business_logic
  *   - Validates availability against existing bookings
- *   - Sets initial status to "pending" and payment status to "pending"
+ *   - Follows the listing's booking mode:
+ *     - "instant": confirmed right away if the guest meets the listing's instantBookRequirements
+ *       (verified email, minimum completed stays); otherwise it becomes a request
+ *     - "request": stays "pending" until the host accepts or declines it before hostResponseDeadline
+ *       (listing's hostResponseHours or HOST_RESPONSE_HOURS, default 24h, never after check-in);
+ *       unanswered requests are declined automatically and the host is emailed about new requests
+ *   - Payment status starts "pending"
+ *   - Sets a payment deadline (listing's paymentDeadlineHours or PAYMENT_DEADLINE_HOURS, default 24h;
+ *     for requests it restarts when the host accepts); unpaid bookings are cancelled automatically once it passes
  *   - Uploads payment images to Cloudinary if provided
- *   - Sends confirmation email to user
- * @returns Created booking with populated property/tour and user details
+ * @returns Created booking with populated property/tour and user details, the booking mode applied
+ *          and the instant-book requirements the guest did not meet
  */
 router.post("/", 
   protect, 
@@ -105,7 +147,7 @@ router.get("/", protect, checkRole("user"), getUserBookings);
  * @desc    Filter user's own bookings by various criteria
  * @query   {
  *            status?: "pending" | "confirmed" | "cancelled" | "completed",
- *            paymentStatus?: "pending" | "paid" | "failed" | "refunded",
+ *            paymentStatus?: "pending" | "partially_paid" | "paid" | "failed" | "partially_refunded" | "refunded",
  *            type?: "property" | "tour",
  *            from?: "YYYY-MM-DD",
  *            to?: "YYYY-MM-DD",
@@ -140,7 +182,12 @@ router.get("/:id", protect, checkRole("user"), getUserBookingById);
  * @body    {
  *            checkIn?: "YYYY-MM-DD",        // New check-in date
  *            checkOut?: "YYYY-MM-DD",       // New check-out date
- *            guests?: number,               // New guest count
+ *            tourDeparture?: ObjectId,      // Tours: move to another departure (instead of dates)
+ *            adults?: number,               // New guests (any omitted field keeps its value)
+ *            children?: number,
+ *            infants?: number,
+ *            guests?: number,               // Older clients: plain count, read as adults
+ *            totalPrice?: number,           // Optional: new total shown to the guest, rejected if it differs from the quote
  *            paymentDetails?: string,       // Updated payment details
  *            removedPaymentImages?: string[] // URLs of images to remove
  *          }
@@ -156,11 +203,14 @@ router.get("/:id", protect, checkRole("user"), getUserBookingById);
  *   - Excludes current booking from availability check
  *   - Validates guest count and date logic
  * @business_logic
+ *   - Date or guest changes do not touch the booking: they create a modification request
+ *     with the new price and the difference, which the host accepts or declines
+ *   - A new request replaces the pending one
+ *   - Emails the host about the request
+ *   - Payment details and images are updated right away
  *   - Removes specified payment images from Cloudinary
  *   - Uploads new payment images if provided
- *   - Sends update notification email to user
- *   - Host receives notification of changes (via separate system)
- * @returns Updated booking with populated details
+ * @returns Booking with populated details, and the modification request and quote when one was made
  */
 router.patch("/:id", 
   protect, 
@@ -184,14 +234,17 @@ router.patch("/:id",
  * @business_logic
  *   - Sets status to "cancelled" instead of deleting record
  *   - Sets cancellation timestamp and reason
- *   - If booking was paid, automatically sets payment status to "refunded"
- *   - Sends cancellation email to user with refund information
+ *   - Computes the refund from the listing's cancellation policy and stores it on the booking
+ *   - If a refund is due, records it in the payment ledger (payment becomes "refunded" or "partially_refunded")
+ *   - Sends cancellation email to user with the refund breakdown
  *   - Notifies host of cancellation (via separate system)
  * @refund_policy
- *   - Paid bookings automatically marked for refund
+ *   - flexible: 100% up to 24h before check-in
+ *   - moderate: 100% up to 5 days before, 50% up to 24h before
+ *   - strict: 100% up to 14 days before, 50% up to 7 days before
+ *   - custom: tiers defined by the host on the property/tour
  *   - Actual refund processing handled separately
- *   - Refund terms depend on host's cancellation policy
- * @returns Confirmation with booking ID and cancellation details
+ * @returns Confirmation with booking ID, cancellation details and refund breakdown
  */
 router.delete("/:id", protect, checkRole("user"), cancelUserBooking);
 
@@ -199,6 +252,7 @@ router.delete("/:id", protect, checkRole("user"), cancelUserBooking);
 /*
  * ROUTE ORDERING EXPLANATION:
  * 
+ * 0. POST /quote is public and comes before everything else
  * 1. POST route first (creation)
  * 2. GET routes for listing and filtering
  *    - /filter comes before /:id to avoid conflicts
@@ -321,18 +375,21 @@ router.delete("/:id", protect, checkRole("user"), cancelUserBooking);
 /*
  * PROPERTY AVAILABILITY:
  * - Checks for date conflicts with existing bookings
+ * - Each night is reserved as a PropertyNight document with a unique (property, night)
+ *   index, so concurrent requests for the same dates cannot both succeed
  * - Validates property status and availability
  * - Excludes current booking from updating dates
  * 
  * TOUR AVAILABILITY:
- * - Different validation logic (capacity-based rather than date-exclusive)
- * - May allow multiple bookings for same dates depending on tour capacity
- * - Future enhancement: tour-specific availability rules
+ * - Tours are booked on scheduled departures (date, start time, guide, seats)
+ * - Seats are taken with a conditional update, so a departure is never oversold
+ * - Cancelled bookings give their seats back; a tour with every upcoming
+ *   departure full is marked sold out until a seat frees up
  * 
  * BUSINESS VALIDATION:
  * - Date logic (check-out after check-in, future dates)
- * - Guest count limits (1-20 guests)
- * - Price validation (positive values)
+ * - Guest limits from the listing (property guests/maxInfants, departure seats, tour maxInfants)
+ * - Price validation (client total must match the server quote)
  * - Status-based restrictions (no updates to completed/cancelled)
  */
 
@@ -345,6 +402,7 @@ router.delete("/:id", protect, checkRole("user"), cancelUserBooking);
  * - 401: Authentication required
  * - 403: Access denied (wrong role)
  * - 404: Booking not found or access denied
+ * - 409: Property nights already held by another booking
  * - 500: Server errors, unexpected issues
  * 
  * ERROR RESPONSE FORMAT:
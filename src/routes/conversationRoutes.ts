@@ -0,0 +1,90 @@
+import express from "express";
+import { protect } from "../middlewares/protect";
+import { checkRole } from "../middlewares/checkRole";
+import { upload } from "../config/multerConfig";
+import {
+  getUserConversations,
+  getUserUnreadCount,
+  sendUserInquiry,
+  getUserBookingConversation,
+  getUserConversationMessages,
+  sendUserMessage,
+  markUserConversationRead
+} from "../controllers/conversationController";
+
+const router = express.Router();
+
+/* ======================= GUEST CONVERSATION ROUTES ======================= */
+/*
+ * Guests talk to hosts in two kinds of threads:
+ * - "booking": one per booking, opened from the booking
+ * - "inquiry": one per property/tour, opened by asking a question before booking
+ * Hosts are emailed when a new message arrives and they had nothing unread.
+ */
+
+/**
+ * @route   GET /api/conversations
+ * @desc    List the guest's conversations, latest activity first
+ * @query   type? ("booking" | "inquiry"), page?, limit?
+ * @access  Private (user)
+ */
+router.get("/", protect, checkRole("user"), getUserConversations);
+
+/**
+ * @route   GET /api/conversations/unread-count
+ * @desc    Total number of host messages the guest has not read yet
+ * @access  Private (user)
+ */
+router.get("/unread-count", protect, checkRole("user"), getUserUnreadCount);
+
+/**
+ * @route   POST /api/conversations/inquiries
+ * @desc    Ask the host about a property or tour before booking
+ * @body    multipart/form-data: property? | tourPackage? (exactly one), body?, images? (up to 5)
+ * @access  Private (user)
+ */
+router.post(
+  "/inquiries",
+  protect,
+  checkRole("user"),
+  upload.fields([{ name: "images", maxCount: 5 }]),
+  sendUserInquiry
+);
+
+/**
+ * @route   GET /api/conversations/bookings/:bookingId
+ * @desc    Get (or open) the conversation with the host of one of the guest's bookings
+ * @access  Private (user)
+ */
+router.get("/bookings/:bookingId", protect, checkRole("user"), getUserBookingConversation);
+
+/**
+ * @route   GET /api/conversations/:id/messages
+ * @desc    Messages of a conversation, newest first, with read receipts (readBy)
+ * @query   page?, limit?
+ * @access  Private (user)
+ */
+router.get("/:id/messages", protect, checkRole("user"), getUserConversationMessages);
+
+/**
+ * @route   POST /api/conversations/:id/messages
+ * @desc    Send a message to the host
+ * @body    multipart/form-data: body? (max 2000 chars) + images? (up to 5) - at least one of them
+ * @access  Private (user)
+ */
+router.post(
+  "/:id/messages",
+  protect,
+  checkRole("user"),
+  upload.fields([{ name: "images", maxCount: 5 }]),
+  sendUserMessage
+);
+
+/**
+ * @route   PATCH /api/conversations/:id/read
+ * @desc    Mark the host's messages as read (adds read receipts, resets the guest's unread count)
+ * @access  Private (user)
+ */
+router.patch("/:id/read", protect, checkRole("user"), markUserConversationRead);
+
+export default router;
@@ -0,0 +1,40 @@
+import express from "express";
+import {
+  createApiKey,
+  getApiKeys,
+  revokeApiKey,
+} from "../controllers/hostApiKeyController";
+import { protect } from "../middlewares/protect";
+import { forbidImpersonation } from "../middlewares/forbidImpersonation";
+import { checkRole } from "../middlewares/checkRole";
+
+const router = express.Router();
+
+/* ===================== HOST API KEY ROUTES ===================== */
+/*
+ * Key management requires a logged in host (JWT): an API key
+ * cannot be used to create or revoke other keys.
+ */
+
+/**
+ * @route   POST /api/host/api-keys
+ * @desc    Create a new API key (read or read_write)
+ * @access  Private (host only)
+ */
+router.post("/api-keys", protect, forbidImpersonation, checkRole("host"), createApiKey);
+
+/**
+ * @route   GET /api/host/api-keys
+ * @desc    List the host's API keys
+ * @access  Private (host only)
+ */
+router.get("/api-keys", protect, forbidImpersonation, checkRole("host"), getApiKeys);
+
+/**
+ * @route   DELETE /api/host/api-keys/:id
+ * @desc    Revoke an API key
+ * @access  Private (host only)
+ */
+router.delete("/api-keys/:id", protect, forbidImpersonation, checkRole("host"), revokeApiKey);
+
+export default router;
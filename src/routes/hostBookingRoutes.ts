@@ -1,5 +1,5 @@
 import express from "express";
-import { protect } from "../middlewares/protect";
+import { protectOrApiKey } from "../middlewares/apiKeyAuth";
 import { checkRole } from "../middlewares/checkRole";
 import {
   getHostBookings,
@@ -7,6 +7,12 @@ import {
   filterHostBookings,
   updateHostBookingPaymentStatus,
   updateHostBookingStatus,
+  extendHostBookingPaymentDeadline,
+  respondToHostBookingRequest,
+  getHostBookingModifications,
+  respondToHostBookingModification,
+  getHostBookingTransactions,
+  recordHostBookingTransaction,
   exportHostBookingsToPDF
 } from "../controllers/hostBookingController";
 
@@ -15,7 +21,7 @@ const router = express.Router();
 /* ========================= HOST BOOKINGS ROUTES ========================= */
 /* 
  * All routes in this file are protected and require:
- * 1. Valid JWT token (protect middleware)
+ * 1. Valid JWT token or API key (protectOrApiKey middleware)
  * 2. Host role (checkRole("host") middleware)
  * 
  * Host can only access bookings for THEIR properties and tours
@@ -35,17 +41,7 @@ const router = express.Router();
  * @returns Paginated list of bookings for host's properties/tours with guest and property/tour details
  * @note    Only returns bookings where the property.host or tourPackage.host matches the authenticated host
  */
-router.get("/bookings", protect, checkRole("host"), getHostBookings);
-
-/**
- * @route   GET /api/host/bookings/:id
- * @desc    Get detailed information for a specific booking (if it belongs to host)
- * @params  id - Booking ObjectId
- * @access  Private (host only)
- * @returns Single booking with full population (guest details, property/tour info)
- * @security Only returns booking if the associated property/tour belongs to the authenticated host
- */
-router.get("/bookings/:id", protect, checkRole("host"), getHostBookingById);
+router.get("/bookings", protectOrApiKey, checkRole("host"), getHostBookings);
 
 // ====================== FILTERING OPERATIONS ======================
 
@@ -53,11 +49,12 @@ router.get("/bookings/:id", protect, checkRole("host"), getHostBookingById);
  * @route   GET /api/host/bookings/filter
  * @desc    Filter host's bookings by various criteria with pagination
  * @query   {
- *            paymentStatus?: "pending" | "paid" | "failed" | "refunded",
+ *            paymentStatus?: "pending" | "partially_paid" | "paid" | "failed" | "partially_refunded" | "refunded",
  *            bookingStatus?: "pending" | "confirmed" | "cancelled" | "completed",
  *            from?: "YYYY-MM-DD",
  *            to?: "YYYY-MM-DD",
  *            propertyType?: "property" | "tour",
+ *            needsAttention?: "true",          // Only bookings flagged for the host (e.g. unpaid after check-out)
  *            page?: number,
  *            limit?: number
  *          }
@@ -66,7 +63,18 @@ router.get("/bookings/:id", protect, checkRole("host"), getHostBookingById);
  * @validation All status values must match enum definitions, dates must be valid format
  * @returns Filtered and paginated bookings for host's properties/tours with applied filter metadata
  */
-router.get("/bookings/filter", protect, checkRole("host"), filterHostBookings);
+router.get("/bookings/filter", protectOrApiKey, checkRole("host"), filterHostBookings);
+
+/**
+ * @route   GET /api/host/bookings/:id
+ * @desc    Get detailed information for a specific booking (if it belongs to host)
+ * @params  id - Booking ObjectId
+ * @access  Private (host only)
+ * @returns Single booking with full population (guest details, property/tour info)
+ * @security Only returns booking if the associated property/tour belongs to the authenticated host
+ * @note    Registered after /bookings/filter so "filter" is not read as a booking ID
+ */
+router.get("/bookings/:id", protectOrApiKey, checkRole("host"), getHostBookingById);
 
 // ====================== UPDATE OPERATIONS ======================
 
@@ -78,26 +86,30 @@ router.get("/bookings/filter", protect, checkRole("host"), filterHostBookings);
  * @access  Private (host only)
  * @business_rules
  *   - Cannot mark cancelled bookings as paid
+ *   - Applied through the payment ledger: "paid" records a charge for the balance due, "refunded" a refund of what was paid
+ *   - "pending" and "failed" are only accepted while no transaction was recorded
  *   - If payment is marked as "paid" and booking status is "pending", auto-confirms booking
- *   - If booking is cancelled and was paid, auto-sets payment to "refunded"
  * @security Only allows update if the booking's property/tour belongs to the authenticated host
  * @notifications Sends email to guest when payment status changes
  * @returns Updated booking with previous and new payment status
  */
-router.patch("/bookings/:id/payment-status", protect, checkRole("host"), updateHostBookingPaymentStatus);
+router.patch("/bookings/:id/payment-status", protectOrApiKey, checkRole("host"), updateHostBookingPaymentStatus);
 
 /**
  * @route   PATCH /api/host/bookings/:id/status
  * @desc    Host updates booking status for their property/tour
  * @params  id - Booking ObjectId
  * @body    { 
- *            status: "pending" | "confirmed" | "cancelled" | "completed",
+ *            status: "confirmed" | "cancelled" | "completed",
  *            reason?: string (required for cancellation)
  *          }
  * @access  Private (host only)
  * @business_rules
- *   - Cannot change status of already cancelled bookings
- *   - Cancelling a paid booking auto-sets payment status to "refunded"
+ *   - Transitions follow the booking lifecycle: pending → confirmed | cancelled, confirmed → completed | cancelled
+ *   - Cancelled and completed bookings cannot change status
+ *   - Cannot complete a booking before its check-out date
+ *   - Cannot confirm an unpaid booking unless the listing allows unpaid confirmation
+ *   - Cancelling a paid booking refunds it in full (policies only limit guest cancellations)
  *   - Cancellation reason is stored and included in notifications
  * @security Only allows update if the booking's property/tour belongs to the authenticated host
  * @notifications 
@@ -106,7 +118,109 @@ router.patch("/bookings/:id/payment-status", protect, checkRole("host"), updateH
  *   - Includes refund information if applicable
  * @returns Updated booking with previous and new status
  */
-router.patch("/bookings/:id/status", protect, checkRole("host"), updateHostBookingStatus);
+router.patch("/bookings/:id/status", protectOrApiKey, checkRole("host"), updateHostBookingStatus);
+
+/**
+ * @route   PATCH /api/host/bookings/:id/payment-deadline
+ * @desc    Host gives the guest more time to pay a pending booking
+ * @params  id - Booking ObjectId
+ * @body    { paymentDeadline: ISO date }
+ * @access  Private (host only)
+ * @business_rules
+ *   - Only unpaid pending bookings (or instant-book bookings, confirmed before payment) can be extended
+ *   - The new deadline must be later than the current one and not after check-in
+ *   - Unpaid bookings past their deadline are cancelled automatically by the booking-expiry job
+ * @security Only allows update if the booking's property/tour belongs to the authenticated host
+ * @notifications Sends the new deadline to the guest
+ * @returns Updated booking with previous and new deadline
+ */
+router.patch("/bookings/:id/payment-deadline", protectOrApiKey, checkRole("host"), extendHostBookingPaymentDeadline);
+
+// ====================== BOOKING REQUESTS ======================
+
+/**
+ * @route   PATCH /api/host/bookings/:id/request
+ * @desc    Accept or decline a booking request on a request-to-book listing
+ * @params  id - Booking ObjectId
+ * @body    { status: "accepted" | "declined", note?: string }
+ * @access  Private (host only)
+ * @business_rules
+ *   - Only pending requests can be answered, once, before their response deadline (hostResponseDeadline)
+ *   - Requests not answered in time are declined automatically by the booking-request-expiry job
+ *   - Accepting starts the guest's payment deadline; the booking is confirmed right away if it is
+ *     already paid or the listing allows unpaid confirmation, otherwise once it is paid
+ *   - Declining cancels the booking with a full refund of anything paid
+ *   - Confirming a request through PATCH /bookings/:id/status also accepts it
+ * @security Only allows update if the booking's property/tour belongs to the authenticated host
+ * @notifications Emails the guest the host's answer (and the payment deadline when accepted)
+ * @returns Updated booking
+ */
+router.patch("/bookings/:id/request", protectOrApiKey, checkRole("host"), respondToHostBookingRequest);
+
+// ====================== MODIFICATION REQUESTS ======================
+
+/**
+ * @route   GET /api/host/bookings/:id/modifications
+ * @desc    List the guest's change requests for a booking (newest first)
+ * @params  id - Booking ObjectId
+ * @access  Private (host only)
+ * @security Only allowed if the booking's property/tour belongs to the authenticated host
+ * @returns The pending request (or null) and the full request history with previous/new dates, guests and prices
+ */
+router.get("/bookings/:id/modifications", protectOrApiKey, checkRole("host"), getHostBookingModifications);
+
+/**
+ * @route   PATCH /api/host/bookings/:id/modifications/:modificationId
+ * @desc    Accept or decline a guest's change of dates or guests
+ * @params  id - Booking ObjectId, modificationId - Request ObjectId
+ * @body    { status: "accepted" | "declined", note?: string }
+ * @access  Private (host only)
+ * @business_rules
+ *   - Only pending requests of pending or confirmed bookings can be answered, and only once
+ *   - Accepting moves the reserved nights (409 if the new dates were booked meanwhile)
+ *   - Accepting updates dates, guests, price and the derived payment status in one write
+ *   - If the guest paid more than the new total, the difference is recorded as a refund
+ *   - Declining keeps the booking unchanged
+ * @security Only allows update if the booking's property/tour belongs to the authenticated host
+ * @notifications Emails the guest the host's answer
+ * @returns Updated booking, the answered request and the refunded amount
+ */
+router.patch("/bookings/:id/modifications/:modificationId", protectOrApiKey, checkRole("host"), respondToHostBookingModification);
+
+// ====================== PAYMENT TRANSACTIONS ======================
+
+/**
+ * @route   GET /api/host/bookings/:id/transactions
+ * @desc    List the payment transactions (charges, refunds, adjustments) of a booking
+ * @params  id - Booking ObjectId
+ * @access  Private (host only)
+ * @security Only allowed if the booking's property/tour belongs to the authenticated host
+ * @returns Transactions (oldest first), totals (charged, refunded, netPaid, balanceDue) and the derived payment status
+ */
+router.get("/bookings/:id/transactions", protectOrApiKey, checkRole("host"), getHostBookingTransactions);
+
+/**
+ * @route   POST /api/host/bookings/:id/transactions
+ * @desc    Record a deposit, payment, refund or correction on a booking
+ * @params  id - Booking ObjectId
+ * @body    {
+ *            type: "charge" | "refund" | "adjustment",
+ *            amount: number,            // Positive; adjustments may be negative
+ *            method?: "bank_transfer" | "cash" | "card" | "mobile_wallet" | "other",
+ *            reference?: string,        // Transfer number, receipt ID, ...
+ *            note?: string
+ *          }
+ * @access  Private (host only)
+ * @business_rules
+ *   - The payment status is derived from the transactions: partially_paid, paid, partially_refunded, refunded
+ *   - Refunds cannot exceed what was paid; cancelled bookings cannot be charged
+ *   - Transactions cannot be edited or deleted, record an adjustment instead
+ *   - A pending booking is auto-confirmed once fully paid
+ * @security Only allowed if the booking's property/tour belongs to the authenticated host
+ * @notifications Emails the guest when the payment status changes
+ * @returns Updated booking, the new transaction and the new totals
+ */
+router.post("/bookings/:id/transactions", protectOrApiKey, checkRole("host"), recordHostBookingTransaction);
 
 // ====================== EXPORT OPERATIONS ======================
 
@@ -116,7 +230,7 @@ router.patch("/bookings/:id/status", protect, checkRole("host"), updateHostBooki
  * @query   {
  *            from?: "YYYY-MM-DD",
  *            to?: "YYYY-MM-DD", 
- *            paymentStatus?: "pending" | "paid" | "failed" | "refunded",
+ *            paymentStatus?: "pending" | "partially_paid" | "paid" | "failed" | "partially_refunded" | "refunded",
  *            bookingStatus?: "pending" | "confirmed" | "cancelled" | "completed",
  *            propertyType?: "property" | "tour"
  *          }
@@ -133,7 +247,7 @@ router.patch("/bookings/:id/status", protect, checkRole("host"), updateHostBooki
  *   - Timestamped filename for easy organization
  * @security Only includes bookings for properties/tours owned by the authenticated host
  */
-router.get("/bookings/export/pdf", protect, checkRole("host"), exportHostBookingsToPDF);
+router.get("/bookings/export/pdf", protectOrApiKey, checkRole("host"), exportHostBookingsToPDF);
 
 /* ==================== ROUTE ORGANIZATION NOTES ==================== */
 /*
@@ -186,7 +300,7 @@ router.get("/bookings/export/pdf", protect, checkRole("host"), exportHostBooking
 /* ==================== SECURITY CONSIDERATIONS ==================== */
 /*
  * AUTHENTICATION & AUTHORIZATION:
- * - protect middleware validates JWT and attaches user to request
+ * - protectOrApiKey validates the JWT or X-API-Key header and attaches user to request
  * - checkRole("host") ensures only hosts can access these routes
  * - Each controller function verifies ownership of the specific booking
  * 
@@ -0,0 +1,82 @@
+import express from "express";
+import { protectOrApiKey } from "../middlewares/apiKeyAuth";
+import { checkRole } from "../middlewares/checkRole";
+import { upload } from "../config/multerConfig";
+import {
+  getHostConversations,
+  getHostUnreadCount,
+  getHostBookingConversation,
+  getHostConversationMessages,
+  sendHostMessage,
+  markHostConversationRead
+} from "../controllers/hostConversationController";
+
+const router = express.Router();
+
+/* ======================= HOST CONVERSATION ROUTES ======================= */
+/*
+ * All routes in this file are protected and require:
+ * 1. Valid JWT token or API key (protectOrApiKey middleware)
+ * 2. Host role (checkRole("host") middleware)
+ *
+ * Hosts only see the conversations where they are the host:
+ * - One thread per booking of their properties/tours
+ * - Inquiry threads opened by guests before booking
+ * Guests are emailed when a new message arrives and they had nothing unread.
+ */
+
+/**
+ * @route   GET /api/host/conversations
+ * @desc    List the host's conversations, latest activity first
+ * @query   type? ("booking" | "inquiry"), unread?=true, page?, limit?
+ * @access  Private (host only)
+ * @returns Paginated conversations with guest, listing, booking, last message preview and unread counts
+ */
+router.get("/conversations", protectOrApiKey, checkRole("host"), getHostConversations);
+
+/**
+ * @route   GET /api/host/conversations/unread-count
+ * @desc    Total number of guest messages the host has not read yet
+ * @access  Private (host only)
+ */
+router.get("/conversations/unread-count", protectOrApiKey, checkRole("host"), getHostUnreadCount);
+
+/**
+ * @route   GET /api/host/bookings/:id/conversation
+ * @desc    Get (or open) the conversation with the guest of a booking
+ * @params  id - Booking ObjectId
+ * @access  Private (host only)
+ * @security Only for bookings of the authenticated host's properties/tours
+ */
+router.get("/bookings/:id/conversation", protectOrApiKey, checkRole("host"), getHostBookingConversation);
+
+/**
+ * @route   GET /api/host/conversations/:id/messages
+ * @desc    Messages of a conversation, newest first, with read receipts (readBy)
+ * @query   page?, limit?
+ * @access  Private (host only)
+ */
+router.get("/conversations/:id/messages", protectOrApiKey, checkRole("host"), getHostConversationMessages);
+
+/**
+ * @route   POST /api/host/conversations/:id/messages
+ * @desc    Send a message to the guest
+ * @body    multipart/form-data: body? (max 2000 chars) + images? (up to 5) - at least one of them
+ * @access  Private (host only)
+ */
+router.post(
+  "/conversations/:id/messages",
+  protectOrApiKey,
+  checkRole("host"),
+  upload.fields([{ name: "images", maxCount: 5 }]),
+  sendHostMessage
+);
+
+/**
+ * @route   PATCH /api/host/conversations/:id/read
+ * @desc    Mark the guest's messages as read (adds read receipts, resets the host's unread count)
+ * @access  Private (host only)
+ */
+router.patch("/conversations/:id/read", protectOrApiKey, checkRole("host"), markHostConversationRead);
+
+export default router;
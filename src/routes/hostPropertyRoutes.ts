@@ -5,7 +5,7 @@ import {
   updateHostProperty,
   deleteHostProperty,
 } from "../controllers/hostPropertyController";
-import { protect } from "../middlewares/protect";
+import { protectOrApiKey } from "../middlewares/apiKeyAuth";
 import { checkRole } from "../middlewares/checkRole";
 import { upload } from "../config/multerConfig";
 
@@ -18,27 +18,27 @@ const router = express.Router();
  * @desc    Get all properties owned by the host
  * @access  Private (host only)
  */
-router.get("/properties", protect, checkRole("host"), getHostProperties);
+router.get("/properties", protectOrApiKey, checkRole("host"), getHostProperties);
 
 /**
  * @route   POST /api/host/properties
  * @desc    Create a new property
  * @access  Private (host only)
  */
-router.post("/properties", protect, checkRole("host"), upload.fields([{ name: "images", maxCount: 10 }]), createHostProperty);
+router.post("/properties", protectOrApiKey, checkRole("host"), upload.fields([{ name: "images", maxCount: 10 }]), createHostProperty);
 
 /**
  * @route   PATCH /api/host/properties/:id
  * @desc    Update a property owned by the host
  * @access  Private (host only)
  */
-router.patch("/properties/:id", protect, checkRole("host"), upload.fields([{ name: "images", maxCount: 10 }]), updateHostProperty);
+router.patch("/properties/:id", protectOrApiKey, checkRole("host"), upload.fields([{ name: "images", maxCount: 10 }]), updateHostProperty);
 
 /**
  * @route   DELETE /api/host/properties/:id
  * @desc    Delete a property owned by the host
  * @access  Private (host only)
  */
-router.delete("/properties/:id", protect, checkRole("host"), deleteHostProperty);
+router.delete("/properties/:id", protectOrApiKey, checkRole("host"), deleteHostProperty);
 
 export default router;
\ No newline at end of file
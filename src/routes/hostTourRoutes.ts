@@ -1,5 +1,5 @@
 import express from 'express'
-import { protect } from '../middlewares/protect'
+import { protectOrApiKey } from '../middlewares/apiKeyAuth'
 import { checkRole } from '../middlewares/checkRole'
 import { upload } from '../config/multerConfig'
 import {
@@ -7,13 +7,23 @@ import {
   createHostTour,
   updateHostTour,
   deleteHostTour,
+  getHostTourDepartures,
+  createHostTourDeparture,
+  updateHostTourDeparture,
+  deleteHostTourDeparture,
 } from '../controllers/hostTourCtrl'
 
 const router = express.Router()
 
-router.get('/tours', protect, checkRole('host'), getHostTours)
-router.post('/tours', protect, checkRole('host'), upload.fields([{ name: 'images', maxCount: 10 }]), createHostTour)
-router.patch('/tours/:id', protect, checkRole('host'), upload.fields([{ name: 'images', maxCount: 10 }]), updateHostTour)
-router.delete('/tours/:id', protect, checkRole('host'), deleteHostTour)
+router.get('/tours', protectOrApiKey, checkRole('host'), getHostTours)
+router.post('/tours', protectOrApiKey, checkRole('host'), upload.fields([{ name: 'images', maxCount: 10 }]), createHostTour)
+router.patch('/tours/:id', protectOrApiKey, checkRole('host'), upload.fields([{ name: 'images', maxCount: 10 }]), updateHostTour)
+router.delete('/tours/:id', protectOrApiKey, checkRole('host'), deleteHostTour)
+
+// Scheduled departures (date, local start time and time zone, guide, seats, price override)
+router.get('/tours/:id/departures', protectOrApiKey, checkRole('host'), getHostTourDepartures)
+router.post('/tours/:id/departures', protectOrApiKey, checkRole('host'), createHostTourDeparture)
+router.patch('/tours/:id/departures/:departureId', protectOrApiKey, checkRole('host'), updateHostTourDeparture)
+router.delete('/tours/:id/departures/:departureId', protectOrApiKey, checkRole('host'), deleteHostTourDeparture)
 
 export default router
@@ -1,8 +1,9 @@
 import express from 'express';
-import { getAvailableTourPackages } from '../controllers/publicTourController';
+import { getAvailableTourPackages, getPublicTourDepartures } from '../controllers/publicTourController';
 
 const router = express.Router();
 
 router.get('/public', getAvailableTourPackages);
+router.get('/:id/departures', getPublicTourDepartures);
 
 export default router;
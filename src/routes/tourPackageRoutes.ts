@@ -7,6 +7,8 @@ import {
 } from "../controllers/adminTourController";
 import { protect } from "../middlewares/protect";
 import { checkRole } from "../middlewares/checkRole";
+import { requirePermission } from "../middlewares/requirePermission";
+import { Permission } from "../@types/express/enums";
 import { upload } from "../config/multerConfig";
 
 const router = express.Router();
@@ -46,7 +48,7 @@ router.get(
 router.patch(
   "/tour-packages/:id",
   protect,
-  checkRole("admin"),
+  requirePermission(Permission.TOURS_MODERATE),
   upload.fields([{ name: "images", maxCount: 10 }]),  // Accept multiple images
   updateTourPackage
 );
@@ -59,7 +61,7 @@ router.patch(
 router.delete(
   "/tour-packages/:id",
   protect,
-  checkRole("admin"),
+  requirePermission(Permission.TOURS_MODERATE),
   deleteTourPackage
 );
 
@@ -1,16 +1,114 @@
 import express from 'express';
 import { updateUserProfile } from '../controllers/userController';  
+import { submitHostApplication, getMyHostApplications } from '../controllers/hostApplicationController';
+import { getMySessions, revokeMySession } from '../controllers/sessionController';
+import {
+  changePassword,
+  requestEmailChange,
+  confirmEmailChange,
+  revertEmailChange,
+  exportMyData,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+} from '../controllers/accountController';
 import { protect } from '../middlewares/protect';
-import e from 'express';
+import { forbidImpersonation, allowImpersonatedWrites } from '../middlewares/forbidImpersonation';
+import { checkRole } from '../middlewares/checkRole';
+import { upload } from '../config/multerConfig';
 
 const router = express.Router();
 
 /**
  * @route PATCH /api/users/profile
  * @des Update user`s own profile
- * @access Private
+ * @access Private (also available to support while impersonating)
  */
 
-router.patch('/profile', protect, updateUserProfile);
+router.patch('/profile', allowImpersonatedWrites, protect, updateUserProfile);
 
-export default router;
\ No newline at end of file
+/**
+ * @route   PATCH /api/users/password
+ * @desc    Change own password (current password required)
+ * @access  Private
+ */
+router.patch('/password', protect, forbidImpersonation, changePassword);
+
+/**
+ * @route   POST /api/users/email
+ * @desc    Request an email change (confirmation link sent to the new address)
+ * @access  Private
+ */
+router.post('/email', protect, forbidImpersonation, requestEmailChange);
+
+/**
+ * @route   POST /api/users/email/confirm
+ * @desc    Confirm an email change with the token from the confirmation link
+ * @access  Public
+ */
+router.post('/email/confirm', confirmEmailChange);
+
+/**
+ * @route   POST /api/users/email/revert
+ * @desc    Revert an email change with the token sent to the previous address
+ * @access  Public
+ */
+router.post('/email/revert', revertEmailChange);
+
+/**
+ * @route   GET /api/users/sessions
+ * @desc    List own active sessions (device, IP, last seen)
+ * @access  Private
+ */
+router.get('/sessions', protect, getMySessions);
+
+/**
+ * @route   DELETE /api/users/sessions/:id
+ * @desc    Sign out one of the own sessions
+ * @access  Private
+ */
+router.delete('/sessions/:id', protect, revokeMySession);
+
+/**
+ * @route   GET /api/users/me/export
+ * @desc    Download own personal data (?format=json or ?format=zip with payment images)
+ * @access  Private
+ */
+router.get('/me/export', protect, forbidImpersonation, exportMyData);
+
+/**
+ * @route   DELETE /api/users/me
+ * @desc    Request deletion of own account (anonymized after a grace period)
+ * @access  Private
+ */
+router.delete('/me', protect, requestAccountDeletion);
+
+/**
+ * @route   POST /api/users/me/cancel-deletion
+ * @desc    Cancel a scheduled account deletion
+ * @access  Private
+ */
+router.post('/me/cancel-deletion', protect, forbidImpersonation, cancelAccountDeletion);
+
+/**
+ * @route   POST /api/users/host-application
+ * @desc    Apply to become a host (business details + identity documents)
+ * @files   documents: File[] (1-5 images)
+ * @access  Private (user only)
+ */
+router.post(
+  '/host-application',
+  protect,
+  forbidImpersonation,
+  checkRole('user'),
+  upload.fields([{ name: 'documents', maxCount: 5 }]),
+  submitHostApplication
+);
+
+/**
+ * @route   GET /api/users/host-application
+ * @desc    Get own host applications and their review status
+ * @access  Private (user only)
+ */
+router.get('/host-application', protect, checkRole('user'), getMyHostApplications);
+
+export default router;
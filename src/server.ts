@@ -1,5 +1,9 @@
 import app from "./app";
 import { connectDB } from "./config/db";
+import { seedDefaultRoles, assignSuperAdminToLegacyAdmins } from "./helpers/permissionHelper";
+import { runMigrationOnce, markExistingEmailsVerified } from "./helpers/migrationHelper";
+import { backfillPropertyNights } from "./helpers/nightReservationHelper";
+import { startJobs } from "./jobs";
 
 // Define the port from environment variables or fallback to 4000
 const PORT = process.env.PORT || 4000;
@@ -13,10 +17,21 @@ const startServer = async (): Promise<void> => {
     // Connect to MongoDB database
     await connectDB();
 
+    // Make sure the system admin roles (super_admin, finance, ...) exist
+    await seedDefaultRoles();
+
+    // One-time data migrations
+    await runMigrationOnce("assign-super-admin-to-legacy-admins", assignSuperAdminToLegacyAdmins);
+    await runMigrationOnce("backfill-property-nights", backfillPropertyNights);
+    await runMigrationOnce("mark-existing-emails-verified", markExistingEmailsVerified);
+
     // Start Express server after successful DB connection
     app.listen(PORT, () => {
       console.log(`🚀 Server running on http://localhost:${PORT}`);
     });
+
+    // Start background jobs (scheduled account deletions, ...)
+    startJobs();
   } catch (error) {
     // Log and exit in case of any startup error
     console.error("❌ Failed to start the server:", error);
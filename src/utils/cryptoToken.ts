@@ -0,0 +1,19 @@
+import crypto from "crypto";
+
+/**
+ * Generates a cryptographically secure random token.
+ * @param bytes - Number of random bytes (defaults to 32)
+ * @returns The token encoded as a hex string
+ */
+export const generateRandomToken = (bytes = 32): string => {
+  return crypto.randomBytes(bytes).toString("hex");
+};
+
+/**
+ * Hashes a token with SHA-256 so only the digest is stored in the database.
+ * @param token - The plain token sent to the user
+ * @returns The hex encoded hash
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
@@ -0,0 +1,15 @@
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escapes user-provided text before it is placed in an HTML email.
+ * @param text - The raw text
+ * @returns The text with HTML special characters replaced by entities
+ */
+export const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
@@ -1,18 +1,133 @@
 import jwt from "jsonwebtoken";
 
 /**
- * Generates a JWT token for the given user ID.
- * @param newUserId - The ID of the user to include in the token payload
- * @returns A signed JWT token as a string
+ * Reads the JWT secret from the environment.
+ * @returns The configured secret
  */
-export const generateToken = (newUserId: string): string => {
+const getSecret = (): string => {
   const secret = process.env.JWT_SECRET;
 
   if (!secret) {
     throw new Error("❌ JWT_SECRET is not defined in the environment variables.");
   }
 
-  return jwt.sign({ id: newUserId }, secret, {
-    expiresIn: "7d",
+  return secret;
+};
+
+/**
+ * Generates a short-lived JWT access token for the given user ID.
+ * Long-lived sessions are kept through rotating refresh tokens.
+ * @param newUserId - The ID of the user to include in the token payload
+ * @param sessionId - The session the token belongs to
+ * @returns A signed JWT token as a string
+ */
+export const generateToken = (newUserId: string, sessionId: string): string => {
+  const expiresIn = (process.env.ACCESS_TOKEN_EXPIRES_IN || "15m") as jwt.SignOptions["expiresIn"];
+
+  return jwt.sign({ id: newUserId, sid: sessionId }, getSecret(), {
+    expiresIn,
+  });
+};
+
+/**
+ * Generates a short-lived, non-refreshable access token letting an admin act as another user.
+ * The token carries the admin ID in the "imp" claim and is tied to the admin's session.
+ * @param targetUserId - The impersonated user
+ * @param adminId - The admin impersonating the user
+ * @param adminSessionId - The admin's current session
+ * @returns A signed JWT token as a string
+ */
+export const generateImpersonationToken = (
+  targetUserId: string,
+  adminId: string,
+  adminSessionId: string
+): string => {
+  const expiresIn = (process.env.IMPERSONATION_EXPIRES_IN || "15m") as jwt.SignOptions["expiresIn"];
+
+  return jwt.sign({ id: targetUserId, sid: adminSessionId, imp: adminId }, getSecret(), {
+    expiresIn,
+  });
+};
+
+// Audience of email verification tokens, so they cannot be used as access tokens
+const EMAIL_VERIFICATION_AUDIENCE = "email_verification";
+
+/**
+ * Generates a signed, expiring token used in email verification links.
+ * @param userId - The ID of the user whose email must be verified
+ * @returns A signed JWT token as a string
+ */
+export const generateEmailVerificationToken = (userId: string): string => {
+  const expiresIn = (process.env.EMAIL_VERIFICATION_EXPIRES_IN || "24h") as jwt.SignOptions["expiresIn"];
+
+  return jwt.sign({ id: userId, purpose: "email_verification" }, getSecret(), {
+    expiresIn,
+    audience: EMAIL_VERIFICATION_AUDIENCE,
+  });
+};
+
+/**
+ * Verifies an email verification token.
+ * @param token - The token received from the verification link
+ * @returns The user ID contained in the token
+ * @throws If the token is invalid, expired or issued for another purpose
+ */
+export const verifyEmailVerificationToken = (token: string): string => {
+  const decoded = jwt.verify(token, getSecret(), {
+    audience: EMAIL_VERIFICATION_AUDIENCE,
+  }) as { id: string; purpose?: string };
+
+  if (decoded.purpose !== "email_verification") {
+    throw new Error("Invalid token purpose");
+  }
+
+  return decoded.id;
+};
+
+/**
+ * Purposes of the short-lived tokens used during two-factor login
+ * - "2fa_login": password was verified, a TOTP or backup code is still required
+ * - "2fa_setup": password was verified, but the user's role requires enrolling 2FA first
+ */
+export type TwoFactorChallengePurpose = "2fa_login" | "2fa_setup";
+
+// Audience of two-factor challenge tokens, so they cannot be used as access tokens
+const TWO_FACTOR_CHALLENGE_AUDIENCE = "2fa_challenge";
+
+/**
+ * Generates a short-lived challenge token returned by login instead of a JWT
+ * @param userId - The ID of the user completing the login
+ * @param purpose - Which two-factor step the token allows
+ * @returns A signed JWT token as a string
+ */
+export const generateTwoFactorChallengeToken = (
+  userId: string,
+  purpose: TwoFactorChallengePurpose
+): string => {
+  return jwt.sign({ id: userId, purpose }, getSecret(), {
+    expiresIn: "5m",
+    audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
   });
 };
+
+/**
+ * Verifies a two-factor challenge token
+ * @param token - The challenge token sent by the client
+ * @param purpose - The expected purpose
+ * @returns The user ID contained in the token
+ * @throws If the token is invalid, expired or issued for another purpose
+ */
+export const verifyTwoFactorChallengeToken = (
+  token: string,
+  purpose: TwoFactorChallengePurpose
+): string => {
+  const decoded = jwt.verify(token, getSecret(), {
+    audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+  }) as { id: string; purpose?: string };
+
+  if (decoded.purpose !== purpose) {
+    throw new Error("Invalid token purpose");
+  }
+
+  return decoded.id;
+};
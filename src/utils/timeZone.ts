@@ -0,0 +1,54 @@
+/**
+ * Time zone of tour departures that do not set their own
+ * (TOUR_TIME_ZONE, Paraguay by default)
+ */
+export const getDefaultTimeZone = (): string =>
+  process.env.TOUR_TIME_ZONE || "America/Asuncion";
+
+/**
+ * Checks that a time zone is a known IANA name (e.g. "America/Asuncion")
+ */
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+const getTimeZoneOffset = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Converts a local date and time in a time zone to the UTC instant
+ * @param day - Any time on the local day (its UTC date is used)
+ * @param time - Local time as "HH:mm"
+ * @param timeZone - IANA time zone of the local time
+ */
+export const zonedTimeToUtc = (day: Date, time: string, timeZone: string): Date => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours, minutes);
+
+  // The offset is read twice so times right after a DST change land correctly
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - getTimeZoneOffset(guess, timeZone));
+};
@@ -0,0 +1,139 @@
+import crypto from "crypto";
+
+/* ==================== TOTP (RFC 6238) ==================== */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+/**
+ * Encodes a buffer as an unpadded base32 string (RFC 4648)
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decodes a base32 string (case insensitive, padding and spaces ignored)
+ */
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generates a new random TOTP secret
+ * @returns Base32 encoded secret (160 bits)
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * Computes the TOTP code for a secret at a given time
+ * @param secret - Base32 encoded secret
+ * @param timestamp - Time in milliseconds (defaults to now)
+ * @returns The 6 digit code
+ */
+export const generateTotpCode = (secret: string, timestamp: number = Date.now()): string => {
+  const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * Finds the time step a TOTP code belongs to, allowing a small clock drift
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @param window - Number of 30s steps accepted before/after now (defaults to 1)
+ * @returns The matching time step (counter), or null if the code is invalid
+ */
+export const findTotpTimeStep = (secret: string, code: string, window = 1): number | null => {
+  const normalized = String(code || "").replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = Date.now();
+  for (let step = -window; step <= window; step++) {
+    const timestamp = now + step * TOTP_PERIOD_SECONDS * 1000;
+    const candidate = generateTotpCode(secret, timestamp);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Verifies a TOTP code allowing a small clock drift
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @param window - Number of 30s steps accepted before/after now (defaults to 1)
+ * @returns Boolean indicating if the code is valid
+ */
+export const verifyTotpCode = (secret: string, code: string, window = 1): boolean =>
+  findTotpTimeStep(secret, code, window) !== null;
+
+/**
+ * Builds the otpauth:// provisioning URI rendered as a QR code by the frontend
+ * @param secret - Base32 encoded secret
+ * @param accountName - Account label (usually the email)
+ * @param issuer - Issuer name shown in the authenticator app
+ * @returns The provisioning URI
+ */
+export const buildOtpAuthUri = (secret: string, accountName: string, issuer = "GuaraniHost"): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,97 @@
+import zlib from "zlib";
+
+/**
+ * A file added to a ZIP archive
+ */
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+// CRC-32 lookup table (polynomial 0xEDB88320) used by the ZIP format
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Computes the CRC-32 checksum of a buffer
+ */
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Encodes a date in the MS-DOS time (low 16 bits) and date (high 16 bits) format used by ZIP
+ */
+const toDosDateTime = (date: Date): number => {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return ((day << 16) | time) >>> 0;
+};
+
+/**
+ * Builds an in-memory ZIP archive (deflate compression, no ZIP64).
+ * Meant for small bundles such as personal data exports.
+ * @param entries - Files to include
+ * @returns The ZIP file contents
+ */
+export const createZipArchive = (entries: ZipEntry[]): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  const modified = toDosDateTime(new Date());
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const compressed = zlib.deflateRawSync(entry.data);
+    const checksum = crc32(entry.data);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);        // Local file header signature
+    localHeader.writeUInt16LE(20, 4);                // Version needed to extract
+    localHeader.writeUInt16LE(0x0800, 6);            // Flags: UTF-8 file names
+    localHeader.writeUInt16LE(8, 8);                 // Compression: deflate
+    localHeader.writeUInt32LE(modified, 10);         // Modification time/date
+    localHeader.writeUInt32LE(checksum, 14);
+    localHeader.writeUInt32LE(compressed.length, 18);
+    localHeader.writeUInt32LE(entry.data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(0, 28);                // Extra field length
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);      // Central directory signature
+    centralHeader.writeUInt16LE(20, 4);              // Version made by
+    centralHeader.writeUInt16LE(20, 6);              // Version needed to extract
+    centralHeader.writeUInt16LE(0x0800, 8);
+    centralHeader.writeUInt16LE(8, 10);
+    centralHeader.writeUInt32LE(modified, 12);
+    centralHeader.writeUInt32LE(checksum, 16);
+    centralHeader.writeUInt32LE(compressed.length, 20);
+    centralHeader.writeUInt32LE(entry.data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number and attributes stay 0
+    centralHeader.writeUInt32LE(offset, 42);         // Offset of the local header
+
+    localParts.push(localHeader, name, compressed);
+    centralParts.push(centralHeader, name);
+    offset += localHeader.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);                  // End of central directory signature
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
@@ -0,0 +1,85 @@
+/**
+ * Booking state machine tests for GuaraníHost
+ * The listing lookup is mocked, so no database is needed
+ */
+
+import { Property } from '../src/models/PropertyModel'
+import { canTransitionBooking, getAllowedTransitions } from '../src/helpers/bookingLifecycle'
+import { BookingMode, BookingStatus, PaymentStatus } from '../src/@types/express/enums'
+
+const DAY = 24 * 3600 * 1000
+
+const booking = (fields: Record<string, unknown> = {}) =>
+  ({
+    status: BookingStatus.PENDING,
+    paymentStatus: PaymentStatus.PENDING,
+    bookingMode: BookingMode.REQUEST,
+    property: { _id: 'property-id' },
+    checkIn: new Date(Date.now() + 10 * DAY),
+    checkOut: new Date(Date.now() + 12 * DAY),
+    ...fields,
+  }) as any
+
+const mockListing = (allowUnpaidConfirmation: boolean) =>
+  jest.spyOn(Property, 'findById').mockReturnValue({
+    select: jest.fn().mockResolvedValue({ allowUnpaidConfirmation }),
+  } as any)
+
+describe('Allowed booking transitions', () => {
+  it('should only let guests cancel', () => {
+    expect(getAllowedTransitions(BookingStatus.PENDING, 'guest')).toEqual([BookingStatus.CANCELLED])
+    expect(getAllowedTransitions(BookingStatus.CONFIRMED, 'guest')).toEqual([BookingStatus.CANCELLED])
+  })
+
+  it('should only let admins move a confirmed booking back to pending', () => {
+    expect(getAllowedTransitions(BookingStatus.CONFIRMED, 'admin')).toContain(BookingStatus.PENDING)
+    expect(getAllowedTransitions(BookingStatus.CONFIRMED, 'host')).not.toContain(BookingStatus.PENDING)
+    expect(getAllowedTransitions(BookingStatus.CONFIRMED, 'system')).not.toContain(BookingStatus.PENDING)
+  })
+
+  it('should treat cancelled and completed as final', () => {
+    for (const actor of ['guest', 'host', 'admin', 'system'] as const) {
+      expect(getAllowedTransitions(BookingStatus.CANCELLED, actor)).toEqual([])
+      expect(getAllowedTransitions(BookingStatus.COMPLETED, actor)).toEqual([])
+    }
+  })
+})
+
+describe('Booking transition checks', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should reject unknown, unchanged and disallowed statuses', async () => {
+    expect((await canTransitionBooking(booking(), 'archived' as BookingStatus, 'host')).valid).toBe(false)
+    expect((await canTransitionBooking(booking(), BookingStatus.PENDING, 'host')).valid).toBe(false)
+    expect((await canTransitionBooking(booking(), BookingStatus.CONFIRMED, 'guest')).valid).toBe(false)
+  })
+
+  it('should not complete a booking before its check-out date', async () => {
+    const upcoming = booking({ status: BookingStatus.CONFIRMED })
+    const finished = booking({ status: BookingStatus.CONFIRMED, checkOut: new Date(Date.now() - DAY) })
+
+    expect((await canTransitionBooking(upcoming, BookingStatus.COMPLETED, 'host')).valid).toBe(false)
+    expect((await canTransitionBooking(finished, BookingStatus.COMPLETED, 'host')).valid).toBe(true)
+  })
+
+  it('should only confirm unpaid requests when the listing allows it', async () => {
+    mockListing(false)
+    expect((await canTransitionBooking(booking(), BookingStatus.CONFIRMED, 'host')).valid).toBe(false)
+
+    mockListing(true)
+    expect((await canTransitionBooking(booking(), BookingStatus.CONFIRMED, 'host')).valid).toBe(true)
+  })
+
+  it('should confirm paid and instant-book bookings without looking up the listing', async () => {
+    const findById = mockListing(false)
+
+    const paid = booking({ paymentStatus: PaymentStatus.PARTIALLY_PAID })
+    const instant = booking({ bookingMode: BookingMode.INSTANT })
+
+    expect((await canTransitionBooking(paid, BookingStatus.CONFIRMED, 'host')).valid).toBe(true)
+    expect((await canTransitionBooking(instant, BookingStatus.CONFIRMED, 'system')).valid).toBe(true)
+    expect(findById).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Booking price quote tests for GuaraníHost
+ * The listing lookups are mocked, so no database is needed
+ */
+
+import { Property } from '../src/models/PropertyModel'
+import { TourPackage } from '../src/models/TourPackageModel'
+import { calculateBookingQuote, getServiceFeePercent, roundPrice } from '../src/helpers/pricingHelper'
+import { PropertyStatus, TourPackageStatus } from '../src/@types/express/enums'
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`)
+const guests = (adults: number, children = 0, infants = 0) => ({ adults, children, infants })
+
+const mockProperty = (fields: Record<string, unknown> = {}) =>
+  jest.spyOn(Property, 'findById').mockResolvedValue({
+    status: PropertyStatus.AVAILABLE,
+    pricePerNight: 80,
+    cleaningFee: 25,
+    guests: 4,
+    ...fields,
+  } as any)
+
+const mockTour = (fields: Record<string, unknown> = {}) =>
+  jest.spyOn(TourPackage, 'findById').mockResolvedValue({
+    status: TourPackageStatus.AVAILABLE,
+    price: 45.5,
+    ...fields,
+  } as any)
+
+describe('Booking price quote', () => {
+  const originalFee = process.env.SERVICE_FEE_PERCENT
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    if (originalFee === undefined) delete process.env.SERVICE_FEE_PERCENT
+    else process.env.SERVICE_FEE_PERCENT = originalFee
+  })
+
+  it('should price a stay per night plus cleaning fee and service fee', async () => {
+    process.env.SERVICE_FEE_PERCENT = '10'
+    mockProperty()
+
+    const result = await calculateBookingQuote({
+      property: 'property-id',
+      checkIn: day('2030-03-10'),
+      checkOut: day('2030-03-13'),
+      guests: guests(2),
+    })
+
+    expect(result.valid).toBe(true)
+    expect(result.quote).toEqual({
+      type: 'property',
+      unitPrice: 80,
+      units: 3,
+      subtotal: 240,
+      cleaningFee: 25,
+      serviceFeePercent: 10,
+      serviceFee: 26.5,
+      total: 291.5,
+    })
+  })
+
+  it('should price a tour per adult and child, infants travel free', async () => {
+    process.env.SERVICE_FEE_PERCENT = '10'
+    mockTour()
+
+    const result = await calculateBookingQuote({
+      tourPackage: 'tour-id',
+      checkIn: day('2030-03-10'),
+      checkOut: day('2030-03-11'),
+      guests: guests(2, 1, 1),
+    })
+
+    expect(result.quote).toMatchObject({ type: 'tour', unitPrice: 45.5, units: 3, subtotal: 136.5, cleaningFee: 0 })
+    expect(result.quote!.serviceFee).toBe(13.65)
+    expect(result.quote!.total).toBe(150.15)
+  })
+
+  it('should use the departure price override', async () => {
+    mockTour()
+
+    const result = await calculateBookingQuote({
+      tourPackage: 'tour-id',
+      tourDeparture: { seats: 10, seatsBooked: 0, priceOverride: 30 } as any,
+      checkIn: day('2030-03-10'),
+      checkOut: day('2030-03-11'),
+      guests: guests(2),
+    })
+
+    expect(result.quote).toMatchObject({ unitPrice: 30, subtotal: 60 })
+  })
+
+  it('should only reprice existing bookings on a sold-out tour', async () => {
+    mockTour({ status: TourPackageStatus.SOLD_OUT })
+    const input = { tourPackage: 'tour-id', checkIn: day('2030-03-10'), checkOut: day('2030-03-11'), guests: guests(1) }
+
+    expect((await calculateBookingQuote(input)).valid).toBe(false)
+    expect((await calculateBookingQuote({ ...input, excludeBookingId: 'booking-id' })).valid).toBe(true)
+  })
+
+  it('should reject check-out before check-in', async () => {
+    const result = await calculateBookingQuote({
+      property: 'property-id',
+      checkIn: day('2030-03-13'),
+      checkOut: day('2030-03-10'),
+      guests: guests(2),
+    })
+
+    expect(result.valid).toBe(false)
+  })
+
+  it('should reject listings that are not available or over capacity', async () => {
+    mockProperty({ status: PropertyStatus.INACTIVE })
+    const input = { property: 'property-id', checkIn: day('2030-03-10'), checkOut: day('2030-03-12'), guests: guests(2) }
+
+    expect((await calculateBookingQuote(input)).valid).toBe(false)
+
+    mockProperty()
+    expect((await calculateBookingQuote({ ...input, guests: guests(3, 2) })).valid).toBe(false)
+  })
+
+  it('should fall back to a 10% service fee for invalid settings', () => {
+    process.env.SERVICE_FEE_PERCENT = '-5'
+    expect(getServiceFeePercent()).toBe(10)
+
+    process.env.SERVICE_FEE_PERCENT = '7.5'
+    expect(getServiceFeePercent()).toBe(7.5)
+  })
+
+  it('should round prices to cents', () => {
+    expect(roundPrice(136.5 * 0.1)).toBe(13.65)
+    expect(roundPrice(0.1 + 0.2)).toBe(0.3)
+  })
+})
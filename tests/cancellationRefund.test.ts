@@ -0,0 +1,81 @@
+/**
+ * Cancellation refund tests for GuaraníHost
+ * The payment ledger is mocked, so no database is needed
+ */
+
+import * as paymentLedger from '../src/helpers/paymentLedgerHelper'
+import { calculateRefund, getPolicyTiers } from '../src/helpers/cancellationPolicyHelper'
+import { CancellationPolicy } from '../src/@types/express/enums'
+
+const HOUR = 3600 * 1000
+const NOW = new Date('2030-03-01T12:00:00.000Z')
+
+const mockPaid = (netPaid: number) =>
+  jest.spyOn(paymentLedger, 'getPaymentSummary').mockResolvedValue({
+    transactions: [],
+    totals: { charged: netPaid, refunded: 0, adjusted: 0, paid: netPaid, netPaid, balanceDue: 0 },
+  })
+
+// Booking made under a copied policy, checking in `hours` after NOW
+const booking = (policy: CancellationPolicy, hours: number, tiers = getPolicyTiers(policy)) =>
+  ({
+    cancellationPolicy: policy,
+    cancellationTiers: tiers,
+    checkIn: new Date(NOW.getTime() + hours * HOUR),
+  }) as any
+
+describe('Cancellation refunds', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should refund the first tier the guest still meets', async () => {
+    mockPaid(300)
+
+    const early = await calculateRefund(booking(CancellationPolicy.MODERATE, 6 * 24), 'guest', NOW)
+    const late = await calculateRefund(booking(CancellationPolicy.MODERATE, 48), 'guest', NOW)
+    const tooLate = await calculateRefund(booking(CancellationPolicy.MODERATE, 12), 'guest', NOW)
+
+    expect(early).toMatchObject({ refundPercent: 100, amount: 300 })
+    expect(late).toMatchObject({ refundPercent: 50, amount: 150, hoursBeforeCheckIn: 48 })
+    expect(tooLate).toMatchObject({ refundPercent: 0, amount: 0 })
+  })
+
+  it('should count a tier boundary as met', async () => {
+    mockPaid(100)
+
+    const refund = await calculateRefund(booking(CancellationPolicy.STRICT, 7 * 24), 'guest', NOW)
+
+    expect(refund.refundPercent).toBe(50)
+  })
+
+  it('should sort custom tiers from the most to the least generous', async () => {
+    mockPaid(99.99)
+    const tiers = getPolicyTiers(CancellationPolicy.CUSTOM, [
+      { hoursBeforeCheckIn: 48, refundPercent: 30 },
+      { hoursBeforeCheckIn: 240, refundPercent: 90 },
+    ])
+
+    const refund = await calculateRefund(booking(CancellationPolicy.CUSTOM, 300, tiers), 'guest', NOW)
+
+    expect(tiers.map((tier) => tier.hoursBeforeCheckIn)).toEqual([240, 48])
+    expect(refund).toMatchObject({ refundPercent: 90, amount: 89.99 })
+  })
+
+  it('should refund everything paid when the host, an admin or the system cancels', async () => {
+    mockPaid(250)
+
+    for (const actor of ['host', 'admin', 'system'] as const) {
+      const refund = await calculateRefund(booking(CancellationPolicy.STRICT, 1), actor, NOW)
+      expect(refund).toMatchObject({ cancelledBy: actor, refundPercent: 100, amount: 250 })
+    }
+  })
+
+  it('should refund nothing when nothing was paid', async () => {
+    mockPaid(0)
+
+    const refund = await calculateRefund(booking(CancellationPolicy.FLEXIBLE, 72), 'guest', NOW)
+
+    expect(refund).toMatchObject({ refundPercent: 100, paidAmount: 0, amount: 0 })
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Capacity validation tests for GuaraníHost
+ * Listings are plain objects and booked tour guests are mocked, so no database is needed
+ */
+
+import { Booking } from '../src/models/BookingModel'
+import { parseGuestBreakdown, validateListingCapacity } from '../src/helpers/capacityHelper'
+
+const CHECK_IN = new Date('2030-03-10T00:00:00.000Z')
+const guests = (adults: number, children = 0, infants = 0) => ({ adults, children, infants })
+
+describe('Guest breakdown', () => {
+  it('should read adults, children and infants', () => {
+    expect(parseGuestBreakdown({ adults: '2', children: 1, infants: 1 })).toEqual({
+      valid: true,
+      breakdown: guests(2, 1, 1),
+      guests: 3,
+    })
+  })
+
+  it('should book older "guests" requests as adults', () => {
+    expect(parseGuestBreakdown({ guests: 3 }).breakdown).toEqual(guests(3))
+  })
+
+  it('should keep the current values on partial updates', () => {
+    expect(parseGuestBreakdown({ children: 2 }, guests(2, 0, 1)).breakdown).toEqual(guests(2, 2, 1))
+    expect(parseGuestBreakdown({}, guests(1, 1)).breakdown).toEqual(guests(1, 1))
+  })
+
+  it('should reject missing, fractional and adult-less breakdowns', () => {
+    expect(parseGuestBreakdown({}).valid).toBe(false)
+    expect(parseGuestBreakdown({ adults: 1.5 }).valid).toBe(false)
+    expect(parseGuestBreakdown({ adults: 2, infants: -1 }).valid).toBe(false)
+    expect(parseGuestBreakdown({ adults: 0, children: 2 }).valid).toBe(false)
+  })
+})
+
+describe('Listing capacity', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should count adults and children against the property limit, infants apart', async () => {
+    const property = { guests: 4, maxInfants: 1 } as any
+
+    expect((await validateListingCapacity({ property }, guests(2, 2, 1), CHECK_IN)).valid).toBe(true)
+    expect((await validateListingCapacity({ property }, guests(3, 2), CHECK_IN)).valid).toBe(false)
+    expect((await validateListingCapacity({ property }, guests(2, 0, 2), CHECK_IN)).valid).toBe(false)
+  })
+
+  it('should check the seats left on a departure, plus those the booking already holds', async () => {
+    const tourPackage = { maxInfants: 2 } as any
+    const tourDeparture = { seats: 10, seatsBooked: 8 } as any
+
+    const full = await validateListingCapacity({ tourPackage, tourDeparture }, guests(3), CHECK_IN)
+    const changed = await validateListingCapacity({ tourPackage, tourDeparture }, guests(3), CHECK_IN, { seatsHeld: 2 })
+
+    expect(full).toEqual({ valid: false, message: '❗ Only 2 seats left on this departure' })
+    expect(changed.valid).toBe(true)
+  })
+
+  it('should check tours without departures against the guests booked that day', async () => {
+    jest.spyOn(Booking, 'aggregate').mockResolvedValue([{ _id: null, guests: 9 }])
+    const tourPackage = { _id: '64b7f0c2a1b2c3d4e5f60718', maxCapacity: 10 } as any
+
+    expect((await validateListingCapacity({ tourPackage }, guests(1), CHECK_IN)).valid).toBe(true)
+    expect((await validateListingCapacity({ tourPackage }, guests(2), CHECK_IN)).valid).toBe(false)
+  })
+
+  it('should require a property or a tour', async () => {
+    expect((await validateListingCapacity({}, guests(1), CHECK_IN)).valid).toBe(false)
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Night reservation tests for GuaraníHost
+ * Runs concurrent reservations against a real MongoDB test database
+ * (set MONGODB_URI_TEST to run them, e.g. mongodb://127.0.0.1:27017/guaranihost_test)
+ */
+
+import mongoose from 'mongoose'
+import { PropertyNight } from '../src/models/PropertyNightModel'
+import { getStayNights, releaseNights, reserveNights } from '../src/helpers/nightReservationHelper'
+
+// Dedicated database: the collections are dropped after the tests
+const MONGODB_URI = process.env.MONGODB_URI_TEST
+
+// Without a test database the MongoDB tests are skipped instead of failing
+const describeWithMongo = MONGODB_URI ? describe : describe.skip
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`)
+
+describe('Stay nights', () => {
+  it('should list the nights of a stay without the check-out day', () => {
+    const nights = getStayNights(day('2030-03-10'), day('2030-03-13'))
+
+    expect(nights.map((night) => night.toISOString().slice(0, 10))).toEqual([
+      '2030-03-10',
+      '2030-03-11',
+      '2030-03-12',
+    ])
+  })
+
+  it('should count a same-day stay as one night', () => {
+    expect(getStayNights(day('2030-03-10'), day('2030-03-10'))).toHaveLength(1)
+  })
+})
+
+describeWithMongo('Night reservations (MongoDB)', () => {
+  const propertyId = new mongoose.Types.ObjectId()
+
+  beforeAll(async () => {
+    await mongoose.connect(MONGODB_URI!)
+    // The unique (property, night) index must exist before racing inserts
+    await PropertyNight.init()
+  })
+
+  afterEach(async () => {
+    await PropertyNight.deleteMany({ property: propertyId })
+  })
+
+  afterAll(async () => {
+    await PropertyNight.collection.drop().catch(() => undefined)
+    await mongoose.disconnect()
+  })
+
+  it('should let only one of many concurrent overlapping bookings through', async () => {
+    const attempts = Array.from({ length: 10 }, (_, index) =>
+      reserveNights(
+        propertyId,
+        day(`2030-04-${String(10 + (index % 3)).padStart(2, '0')}`),
+        day('2030-04-15'),
+        new mongoose.Types.ObjectId()
+      )
+    )
+
+    const results = await Promise.all(attempts)
+    const nights = await PropertyNight.find({ property: propertyId })
+    const holders = new Set(nights.map((night) => night.booking.toString()))
+
+    expect(results.filter((result) => result.valid)).toHaveLength(1)
+    expect(holders.size).toBe(1)
+  })
+
+  it('should accept back-to-back stays on the same property', async () => {
+    const [first, second] = await Promise.all([
+      reserveNights(propertyId, day('2030-05-01'), day('2030-05-05'), new mongoose.Types.ObjectId()),
+      reserveNights(propertyId, day('2030-05-05'), day('2030-05-08'), new mongoose.Types.ObjectId()),
+    ])
+
+    expect(first.valid).toBe(true)
+    expect(second.valid).toBe(true)
+  })
+
+  it('should free the nights of a released booking', async () => {
+    const bookingId = new mongoose.Types.ObjectId()
+    await reserveNights(propertyId, day('2030-06-01'), day('2030-06-04'), bookingId)
+
+    const blocked = await reserveNights(propertyId, day('2030-06-02'), day('2030-06-03'), new mongoose.Types.ObjectId())
+    await releaseNights(bookingId)
+    const retried = await reserveNights(propertyId, day('2030-06-02'), day('2030-06-03'), new mongoose.Types.ObjectId())
+
+    expect(blocked.valid).toBe(false)
+    expect(retried.valid).toBe(true)
+  })
+
+  it('should move a booking to new dates and release the old nights', async () => {
+    const bookingId = new mongoose.Types.ObjectId()
+    await reserveNights(propertyId, day('2030-07-01'), day('2030-07-04'), bookingId)
+
+    const moved = await reserveNights(propertyId, day('2030-07-03'), day('2030-07-06'), bookingId)
+    const nights = await PropertyNight.find({ booking: bookingId }).sort({ night: 1 })
+
+    expect(moved.valid).toBe(true)
+    expect(nights.map((night) => night.night.toISOString().slice(0, 10))).toEqual([
+      '2030-07-03',
+      '2030-07-04',
+      '2030-07-05',
+    ])
+  })
+})
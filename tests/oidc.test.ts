@@ -0,0 +1,191 @@
+/**
+ * OpenID Connect tests for GuaraníHost
+ * Runs the authorization-code flow helpers against a local mock OIDC provider
+ */
+
+import crypto from 'crypto'
+import express from 'express'
+import jwt from 'jsonwebtoken'
+import { Server } from 'http'
+import { AddressInfo } from 'net'
+import { OidcProviderConfig } from '../src/config/oidcProviders'
+import {
+  buildAuthorizationUrl,
+  discoverProvider,
+  exchangeAuthorizationCode,
+  generateAuthorizationParams,
+  isEmailVerified,
+} from '../src/helpers/oidcHelper'
+
+const CLIENT_ID = 'guaranihost-test-client'
+const CLIENT_SECRET = 'guaranihost-test-secret'
+const KEY_ID = 'mock-key-1'
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+
+/**
+ * Starts a minimal OIDC provider: discovery, JWKS and a token endpoint that
+ * checks the PKCE verifier and issues an ID token for the stored nonce
+ */
+const startMockProvider = async () => {
+  const app = express()
+  app.use(express.urlencoded({ extended: false }))
+
+  const pendingCodes = new Map<string, { nonce: string; codeChallenge: string }>()
+  let issuer = ''
+  let tokenClaims: Record<string, unknown> = {}
+
+  app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    })
+  })
+
+  app.get('/jwks', (req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] })
+  })
+
+  app.post('/token', (req, res) => {
+    const { code, code_verifier, client_id, client_secret } = req.body
+    const pending = pendingCodes.get(code)
+    const challenge = crypto.createHash('sha256').update(code_verifier || '').digest('base64url')
+
+    if (!pending || client_id !== CLIENT_ID || client_secret !== CLIENT_SECRET || challenge !== pending.codeChallenge) {
+      res.status(400).json({ error: 'invalid_grant' })
+      return
+    }
+    pendingCodes.delete(code)
+
+    const idToken = jwt.sign(
+      {
+        iss: issuer,
+        aud: CLIENT_ID,
+        sub: 'mock-user-123',
+        email: 'ana@example.com',
+        email_verified: true,
+        nonce: pending.nonce,
+        ...tokenClaims,
+      },
+      privateKey,
+      { algorithm: 'RS256', keyid: KEY_ID, expiresIn: '5m' }
+    )
+    res.json({ access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken })
+  })
+
+  const server: Server = await new Promise((resolve) => {
+    const listener = app.listen(0, () => resolve(listener))
+  })
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    server,
+    issuer,
+    // Simulates the user signing in on the provider: returns the code sent to the callback
+    authorize: (nonce: string, codeChallenge: string) => {
+      const code = crypto.randomBytes(8).toString('hex')
+      pendingCodes.set(code, { nonce, codeChallenge })
+      return code
+    },
+    setTokenClaims: (claims: Record<string, unknown>) => {
+      tokenClaims = claims
+    },
+  }
+}
+
+describe('OIDC authorization-code flow (mock provider)', () => {
+  let mock: Awaited<ReturnType<typeof startMockProvider>>
+  let provider: OidcProviderConfig
+
+  beforeAll(async () => {
+    mock = await startMockProvider()
+    provider = {
+      name: 'mock',
+      displayName: 'Mock',
+      issuer: mock.issuer,
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      scopes: ['openid', 'email', 'profile'],
+      redirectUri: 'http://localhost:4000/api/auth/oidc/mock/callback',
+    }
+  })
+
+  afterAll((done) => {
+    mock.server.close(done)
+  })
+
+  afterEach(() => {
+    mock.setTokenClaims({})
+  })
+
+  it('should load the provider discovery document', async () => {
+    const metadata = await discoverProvider(provider)
+
+    expect(metadata.issuer).toBe(mock.issuer)
+    expect(metadata.token_endpoint).toBe(`${mock.issuer}/token`)
+  })
+
+  it('should build an authorization URL with state, nonce and PKCE', async () => {
+    const params = generateAuthorizationParams()
+    const url = new URL(await buildAuthorizationUrl(provider, params))
+
+    expect(url.origin + url.pathname).toBe(`${mock.issuer}/authorize`)
+    expect(url.searchParams.get('response_type')).toBe('code')
+    expect(url.searchParams.get('client_id')).toBe(CLIENT_ID)
+    expect(url.searchParams.get('state')).toBe(params.state)
+    expect(url.searchParams.get('nonce')).toBe(params.nonce)
+    expect(url.searchParams.get('code_challenge')).toBe(params.codeChallenge)
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256')
+  })
+
+  it('should exchange the code and verify the ID token', async () => {
+    const params = generateAuthorizationParams()
+    const code = mock.authorize(params.nonce, params.codeChallenge)
+
+    const claims = await exchangeAuthorizationCode(provider, code, params.codeVerifier, params.nonce)
+
+    expect(claims.sub).toBe('mock-user-123')
+    expect(claims.email).toBe('ana@example.com')
+    expect(isEmailVerified(claims)).toBe(true)
+  })
+
+  it('should reject a wrong PKCE verifier', async () => {
+    const params = generateAuthorizationParams()
+    const code = mock.authorize(params.nonce, params.codeChallenge)
+
+    await expect(
+      exchangeAuthorizationCode(provider, code, generateAuthorizationParams().codeVerifier, params.nonce)
+    ).rejects.toThrow('invalid_grant')
+  })
+
+  it('should reject an ID token with another nonce', async () => {
+    const params = generateAuthorizationParams()
+    const code = mock.authorize('another-nonce', params.codeChallenge)
+
+    await expect(
+      exchangeAuthorizationCode(provider, code, params.codeVerifier, params.nonce)
+    ).rejects.toThrow('nonce mismatch')
+  })
+
+  it('should reject an ID token issued for another client', async () => {
+    const params = generateAuthorizationParams()
+    const code = mock.authorize(params.nonce, params.codeChallenge)
+    mock.setTokenClaims({ aud: 'another-client' })
+
+    await expect(
+      exchangeAuthorizationCode(provider, code, params.codeVerifier, params.nonce)
+    ).rejects.toThrow('jwt audience invalid')
+  })
+
+  it('should not treat unverified emails as verified', async () => {
+    const params = generateAuthorizationParams()
+    const code = mock.authorize(params.nonce, params.codeChallenge)
+    mock.setTokenClaims({ email_verified: false })
+
+    const claims = await exchangeAuthorizationCode(provider, code, params.codeVerifier, params.nonce)
+
+    expect(isEmailVerified(claims)).toBe(false)
+  })
+})
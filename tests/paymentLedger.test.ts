@@ -0,0 +1,59 @@
+/**
+ * Payment ledger tests for GuaraníHost
+ * Totals and payment status are derived from plain transactions, no database needed
+ */
+
+import { calculatePaymentTotals, derivePaymentStatus } from '../src/helpers/paymentLedgerHelper'
+import { PaymentStatus, TransactionType } from '../src/@types/express/enums'
+
+const charge = (amount: number) => ({ type: TransactionType.CHARGE, amount })
+const refund = (amount: number) => ({ type: TransactionType.REFUND, amount })
+const adjustment = (amount: number) => ({ type: TransactionType.ADJUSTMENT, amount })
+
+describe('Payment totals', () => {
+  it('should sum charges, refunds and adjustments', () => {
+    const totals = calculatePaymentTotals([charge(100), charge(50.1), refund(20.05), adjustment(-10)], 200)
+
+    expect(totals).toEqual({
+      charged: 150.1,
+      refunded: 20.05,
+      adjusted: -10,
+      paid: 140.1,
+      netPaid: 120.05,
+      balanceDue: 79.95,
+    })
+  })
+
+  it('should never report a negative balance due', () => {
+    expect(calculatePaymentTotals([charge(250)], 200).balanceDue).toBe(0)
+  })
+
+  it('should round the sums to cents', () => {
+    expect(calculatePaymentTotals([charge(0.1), charge(0.2)], 1).paid).toBe(0.3)
+  })
+})
+
+describe('Derived payment status', () => {
+  const status = (transactions: Array<{ type: TransactionType; amount: number }>, current?: PaymentStatus) =>
+    derivePaymentStatus(calculatePaymentTotals(transactions, 200), current)
+
+  it('should stay pending, or failed, while nothing is paid', () => {
+    expect(status([])).toBe(PaymentStatus.PENDING)
+    expect(status([], PaymentStatus.FAILED)).toBe(PaymentStatus.FAILED)
+    expect(status([], PaymentStatus.PAID)).toBe(PaymentStatus.PENDING)
+  })
+
+  it('should follow the amount paid', () => {
+    expect(status([charge(80)])).toBe(PaymentStatus.PARTIALLY_PAID)
+    expect(status([charge(80), charge(120)])).toBe(PaymentStatus.PAID)
+  })
+
+  it('should report partial and full refunds', () => {
+    expect(status([charge(200), refund(50)])).toBe(PaymentStatus.PARTIALLY_REFUNDED)
+    expect(status([charge(200), refund(200)])).toBe(PaymentStatus.REFUNDED)
+  })
+
+  it('should stay paid when only an overpayment was refunded', () => {
+    expect(status([charge(260), refund(60)])).toBe(PaymentStatus.PAID)
+  })
+})
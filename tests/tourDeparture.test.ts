@@ -0,0 +1,45 @@
+/**
+ * Tour departure schedule tests for GuaraníHost
+ * Departures are built in memory, so no database is needed
+ */
+
+import { TourDeparture } from '../src/models/TourDepartureModel'
+
+const departure = (date: string, startTime: string, timeZone?: string) =>
+  new TourDeparture({ date: new Date(`${date}T00:00:00.000Z`), startTime, timeZone, seats: 10 })
+
+describe('Departure start time', () => {
+  const originalTimeZone = process.env.TOUR_TIME_ZONE
+
+  afterEach(() => {
+    if (originalTimeZone === undefined) delete process.env.TOUR_TIME_ZONE
+    else process.env.TOUR_TIME_ZONE = originalTimeZone
+  })
+
+  it('should read the start time in the departure time zone', () => {
+    expect(departure('2030-07-10', '08:00', 'America/Sao_Paulo').startsAt.toISOString()).toBe('2030-07-10T11:00:00.000Z')
+    expect(departure('2030-07-10', '08:00', 'UTC').startsAt.toISOString()).toBe('2030-07-10T08:00:00.000Z')
+  })
+
+  it('should move to the previous UTC day for zones ahead of UTC', () => {
+    expect(departure('2030-07-10', '07:30', 'Asia/Tokyo').startsAt.toISOString()).toBe('2030-07-09T22:30:00.000Z')
+  })
+
+  it('should follow daylight saving time', () => {
+    expect(departure('2030-01-15', '09:00', 'America/New_York').startsAt.toISOString()).toBe('2030-01-15T14:00:00.000Z')
+    expect(departure('2030-07-15', '09:00', 'America/New_York').startsAt.toISOString()).toBe('2030-07-15T13:00:00.000Z')
+  })
+
+  it('should default to the configured tour time zone', () => {
+    process.env.TOUR_TIME_ZONE = 'America/Sao_Paulo'
+
+    const scheduled = departure('2030-07-10', '08:00')
+
+    expect(scheduled.timeZone).toBe('America/Sao_Paulo')
+    expect(scheduled.startsAt.toISOString()).toBe('2030-07-10T11:00:00.000Z')
+  })
+
+  it('should reject unknown time zones', () => {
+    expect(departure('2030-07-10', '08:00', 'Mars/Olympus').validateSync()?.errors.timeZone).toBeDefined()
+  })
+})